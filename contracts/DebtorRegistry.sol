@@ -0,0 +1,72 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "./InvoiceNFT.sol";
+
+/**
+ * @title DebtorRegistry
+ * @dev Debtor records and credit limits for InvoiceNFT
+ * @notice Debtors are registered by the admin, or on their first invoice with no
+ *         credit limit. Credit is reserved when an invoice is verified, so invoices
+ *         against a debtor without enough credit wait in PENDING until the admin
+ *         raises its limit. Deployed as a linked library to keep InvoiceNFT under
+ *         the contract size limit.
+ */
+library DebtorRegistry {
+
+    /**
+     * @dev Create the registry record of a debtor
+     * @param _debtorIds Debtor address => debtor ID
+     * @param _debtors Debtor ID => record
+     * @param _debtorId ID assigned to the new debtor
+     * @param _debtor Debtor address
+     * @param _name Debtor name
+     * @param _creditLimit Max outstanding face value across the debtor's verified invoices
+     */
+    function register(
+        mapping(address => uint256) storage _debtorIds,
+        mapping(uint256 => InvoiceNFT.Debtor) storage _debtors,
+        uint256 _debtorId,
+        address _debtor,
+        string memory _name,
+        uint256 _creditLimit
+    ) external {
+        require(_debtor != address(0), "Invalid debtor address");
+        require(_debtorIds[_debtor] == 0, "Debtor already registered");
+
+        _debtorIds[_debtor] = _debtorId;
+        _debtors[_debtorId] = InvoiceNFT.Debtor({
+            debtorId: _debtorId,
+            name: _name,
+            creditLimit: _creditLimit,
+            outstandingFaceValue: 0,
+            paidInvoices: 0,
+            defaultedInvoices: 0,
+            registeredAt: block.timestamp,
+            isActive: true
+        });
+    }
+
+    /**
+     * @dev Reserve credit for an invoice being verified
+     * @param _debtor Registry record of the invoice debtor
+     * @param _faceValue Face value of the invoice
+     */
+    function reserveCredit(InvoiceNFT.Debtor storage _debtor, uint256 _faceValue) external {
+        require(_debtor.isActive, "Debtor suspended");
+        require(
+            _debtor.outstandingFaceValue + _faceValue <= _debtor.creditLimit,
+            "Debtor credit limit exceeded"
+        );
+        _debtor.outstandingFaceValue += _faceValue;
+    }
+
+    /**
+     * @dev Face value that can still be verified against a debtor
+     * @param _debtor Registry record of the debtor
+     */
+    function availableCredit(InvoiceNFT.Debtor storage _debtor) external view returns (uint256) {
+        if (!_debtor.isActive || _debtor.outstandingFaceValue >= _debtor.creditLimit) return 0;
+        return _debtor.creditLimit - _debtor.outstandingFaceValue;
+    }
+}
@@ -0,0 +1,78 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/interfaces/IERC4626.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "./TrancheVault.sol";
+
+/**
+ * @title ERC4626Strategy
+ * @dev Idle cash strategy that lends a TrancheVault's cash to an external ERC-4626 vault
+ * @notice Holds the lending vault's shares on behalf of one TrancheVault. Withdrawals
+ *         are limited by the lending vault's own liquidity.
+ */
+contract ERC4626Strategy is IVaultStrategy {
+    using SafeERC20 for IERC20;
+
+    address public immutable vault;
+    address public immutable asset;
+    IERC4626 public immutable lendingVault;
+
+    event Deposited(uint256 assets, uint256 shares, uint256 timestamp);
+
+    event Withdrawn(uint256 assets, uint256 shares, uint256 timestamp);
+
+    modifier onlyVault() {
+        require(msg.sender == vault, "Caller is not the vault");
+        _;
+    }
+
+    constructor(address _vault, address _lendingVault) {
+        require(_vault != address(0), "Invalid vault address");
+        require(_lendingVault != address(0), "Invalid lending vault address");
+        require(
+            IERC4626(_lendingVault).asset() == TrancheVault(_vault).asset(),
+            "Lending vault asset mismatch"
+        );
+
+        vault = _vault;
+        asset = TrancheVault(_vault).asset();
+        lendingVault = IERC4626(_lendingVault);
+    }
+
+    /**
+     * @dev Assets the vault could get back, including interest earned
+     */
+    function totalAssets() external view returns (uint256) {
+        return lendingVault.convertToAssets(lendingVault.balanceOf(address(this)));
+    }
+
+    /**
+     * @dev Assets the lending vault would pay out now, limited by its liquidity
+     */
+    function maxWithdraw() external view returns (uint256) {
+        return lendingVault.maxWithdraw(address(this));
+    }
+
+    /**
+     * @dev Pull cash from the vault and lend it
+     * @param _amount Amount of the asset to lend
+     */
+    function deposit(uint256 _amount) external onlyVault {
+        IERC20(asset).safeTransferFrom(vault, address(this), _amount);
+        IERC20(asset).forceApprove(address(lendingVault), _amount);
+        uint256 shares = lendingVault.deposit(_amount, address(this));
+
+        emit Deposited(_amount, shares, block.timestamp);
+    }
+
+    /**
+     * @dev Recall cash from the lending vault straight to the vault
+     * @param _amount Amount of the asset to recall
+     */
+    function withdraw(uint256 _amount) external onlyVault {
+        uint256 shares = lendingVault.withdraw(_amount, vault, address(this));
+
+        emit Withdrawn(_amount, shares, block.timestamp);
+    }
+}
@@ -0,0 +1,166 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "./InvoiceNFT.sol";
+
+/**
+ * @title InvoiceCollections
+ * @dev Repayment, late fee and default bookkeeping for InvoiceNFT
+ * @notice Late fees accrue on unpaid face value from maturity and are booked
+ *         whenever a payment, default or write-off touches the invoice. Payments
+ *         repay face value before late fees; an invoice is PAID once its face value
+ *         is repaid and any late fee booked by then stays payable as a separate
+ *         receivable. Deployed as a linked library to keep InvoiceNFT under the
+ *         contract size limit.
+ */
+library InvoiceCollections {
+
+    /**
+     * @dev Book late fees, then apply a payment to an invoice
+     * @param _invoice Invoice being repaid
+     * @param _collection Late fees and recoveries of the invoice
+     * @param _debtor Registry record of the invoice debtor
+     * @param _amount Amount paid
+     * @param _lateFeeBpsPerDay Late fee on unpaid face value in basis points per day
+     * @return newStatus Invoice status after the payment
+     */
+    function applyPayment(
+        InvoiceNFT.Invoice storage _invoice,
+        InvoiceNFT.Collection storage _collection,
+        InvoiceNFT.Debtor storage _debtor,
+        uint256 _amount,
+        uint256 _lateFeeBpsPerDay
+    ) external returns (InvoiceNFT.InvoiceStatus newStatus) {
+        require(_amount > 0, "Payment amount must be positive");
+
+        InvoiceNFT.InvoiceStatus status = _invoice.status;
+        require(
+            status == InvoiceNFT.InvoiceStatus.FUNDED ||
+            status == InvoiceNFT.InvoiceStatus.PARTIAL_PAID ||
+            status == InvoiceNFT.InvoiceStatus.OVERDUE ||
+            status == InvoiceNFT.InvoiceStatus.DEFAULTED ||
+            status == InvoiceNFT.InvoiceStatus.PAID,
+            "Invoice not in valid state for payment"
+        );
+
+        _bookLateFee(_invoice, _collection, _lateFeeBpsPerDay);
+
+        uint256 amountDue = _invoice.faceValue + _collection.lateFeesAccrued - _invoice.paidAmount;
+        require(_amount <= amountDue, "Payment exceeds amount due");
+
+        uint256 faceRepaid = _invoice.paidAmount >= _invoice.faceValue ? 0 :
+            Math.min(_amount, _invoice.faceValue - _invoice.paidAmount);
+
+        _invoice.paidAmount += _amount;
+        _debtor.outstandingFaceValue -= faceRepaid;
+
+        if (status == InvoiceNFT.InvoiceStatus.DEFAULTED) {
+            _collection.recovered += _amount;
+        }
+
+        newStatus = status;
+        if (_invoice.paidAmount >= _invoice.faceValue) {
+            // Counted once, when the face value is repaid
+            if (status != InvoiceNFT.InvoiceStatus.PAID) {
+                newStatus = InvoiceNFT.InvoiceStatus.PAID;
+                _debtor.paidInvoices++;
+            }
+        } else if (status == InvoiceNFT.InvoiceStatus.FUNDED) {
+            newStatus = InvoiceNFT.InvoiceStatus.PARTIAL_PAID;
+        }
+
+        _invoice.status = newStatus;
+    }
+
+    /**
+     * @dev Check a funded invoice has matured unpaid and mark it OVERDUE
+     */
+    function markOverdue(InvoiceNFT.Invoice storage _invoice) external {
+        require(
+            _invoice.status == InvoiceNFT.InvoiceStatus.FUNDED ||
+            _invoice.status == InvoiceNFT.InvoiceStatus.PARTIAL_PAID,
+            "Invoice not outstanding"
+        );
+        require(block.timestamp > _invoice.maturityDate, "Invoice not yet matured");
+
+        _invoice.status = InvoiceNFT.InvoiceStatus.OVERDUE;
+    }
+
+    /**
+     * @dev Check an invoice can be defaulted and mark it DEFAULTED
+     * @param _gracePeriod Time after maturity before an invoice can be defaulted
+     * @return amountUnpaid Face value still unpaid
+     */
+    function markDefaulted(InvoiceNFT.Invoice storage _invoice, uint256 _gracePeriod)
+        external
+        returns (uint256 amountUnpaid)
+    {
+        require(block.timestamp > _invoice.maturityDate + _gracePeriod, "Grace period not over");
+        require(
+            _invoice.status != InvoiceNFT.InvoiceStatus.PAID && _invoice.paidAmount < _invoice.faceValue,
+            "Invoice already paid"
+        );
+        require(
+            _invoice.status != InvoiceNFT.InvoiceStatus.DEFAULTED &&
+            _invoice.status != InvoiceNFT.InvoiceStatus.WRITTEN_OFF,
+            "Already marked as defaulted"
+        );
+
+        _invoice.status = InvoiceNFT.InvoiceStatus.DEFAULTED;
+        amountUnpaid = _invoice.faceValue - _invoice.paidAmount;
+    }
+
+    /**
+     * @dev Close a DEFAULTED invoice as WRITTEN_OFF; late fees stop at the write-off
+     * @return amountUnpaid Face value and late fees still unpaid
+     */
+    function writeOff(
+        InvoiceNFT.Invoice storage _invoice,
+        InvoiceNFT.Collection storage _collection,
+        uint256 _lateFeeBpsPerDay
+    ) external returns (uint256 amountUnpaid) {
+        require(_invoice.status == InvoiceNFT.InvoiceStatus.DEFAULTED, "Invoice not defaulted");
+
+        _bookLateFee(_invoice, _collection, _lateFeeBpsPerDay);
+        _invoice.status = InvoiceNFT.InvoiceStatus.WRITTEN_OFF;
+
+        amountUnpaid = _invoice.faceValue + _collection.lateFeesAccrued - _invoice.paidAmount;
+    }
+
+    /**
+     * @dev Late fees accrued since the last booking on face value still unpaid
+     */
+    function pendingLateFee(
+        InvoiceNFT.Invoice storage _invoice,
+        InvoiceNFT.Collection storage _collection,
+        uint256 _lateFeeBpsPerDay
+    ) public view returns (uint256) {
+        InvoiceNFT.InvoiceStatus status = _invoice.status;
+        if (
+            status != InvoiceNFT.InvoiceStatus.FUNDED &&
+            status != InvoiceNFT.InvoiceStatus.PARTIAL_PAID &&
+            status != InvoiceNFT.InvoiceStatus.OVERDUE &&
+            status != InvoiceNFT.InvoiceStatus.DEFAULTED
+        ) return 0;
+        if (_invoice.paidAmount >= _invoice.faceValue) return 0;
+
+        uint256 from = Math.max(_collection.accruedUntil, _invoice.maturityDate);
+        if (block.timestamp <= from) return 0;
+
+        return ((_invoice.faceValue - _invoice.paidAmount) * _lateFeeBpsPerDay * (block.timestamp - from)) /
+            (10000 * 1 days);
+    }
+
+    /**
+     * @dev Book late fees accrued up to now
+     */
+    function _bookLateFee(
+        InvoiceNFT.Invoice storage _invoice,
+        InvoiceNFT.Collection storage _collection,
+        uint256 _lateFeeBpsPerDay
+    ) private {
+        _collection.lateFeesAccrued += pendingLateFee(_invoice, _collection, _lateFeeBpsPerDay);
+        _collection.accruedUntil = block.timestamp;
+    }
+}
@@ -0,0 +1,169 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/access/IAccessControl.sol";
+
+/**
+ * @title InvoiceFractions
+ * @dev Fraction registry for invoices split across several vaults
+ * @notice Each holder owns a share of the invoice in basis points. Repayments are
+ *         split pro rata, with rounding dust going to the last holder. Deployed as
+ *         a linked library to keep InvoiceNFT under the contract size limit.
+ */
+library InvoiceFractions {
+
+    uint256 internal constant MAX_HOLDERS = 10;
+
+    struct Fraction {
+        uint256 shareBps;         // Share of face value in basis points
+        uint256 paidAmount;       // Repayments allocated to this holder
+        bool funded;              // Vault has paid the issuer for its share
+    }
+
+    struct Registry {
+        mapping(uint256 => address[]) holders;
+        mapping(uint256 => mapping(address => Fraction)) fractions;
+        mapping(uint256 => uint256) fundedBps;
+    }
+
+    /**
+     * @dev Register the fractions of an invoice
+     * @param _vaultRole Role every holder must have on the calling contract
+     */
+    function create(
+        Registry storage r,
+        uint256 _tokenId,
+        address[] calldata _holders,
+        uint256[] calldata _shareBps,
+        bytes32 _vaultRole
+    ) external {
+        require(r.holders[_tokenId].length == 0, "Invoice already fractionalized");
+        require(_holders.length == _shareBps.length, "Array length mismatch");
+        require(_holders.length >= 2 && _holders.length <= MAX_HOLDERS, "Invalid number of fractions");
+
+        uint256 totalBps = 0;
+        for (uint256 i = 0; i < _holders.length; i++) {
+            require(IAccessControl(address(this)).hasRole(_vaultRole, _holders[i]), "Holder is not a vault");
+            require(_shareBps[i] > 0, "Fraction must be positive");
+
+            Fraction storage fraction = r.fractions[_tokenId][_holders[i]];
+            require(fraction.shareBps == 0, "Duplicate fraction holder");
+            fraction.shareBps = _shareBps[i];
+            totalBps += _shareBps[i];
+        }
+        require(totalBps == 10000, "Fractions must total 100%");
+
+        r.holders[_tokenId] = _holders;
+    }
+
+    /**
+     * @dev Mark a vault's fraction as funded
+     * @return shareBps Share funded by the vault
+     * @return complete Whether every fraction is now funded
+     */
+    function fund(Registry storage r, uint256 _tokenId, address _vault)
+        external
+        returns (uint256 shareBps, bool complete)
+    {
+        Fraction storage fraction = r.fractions[_tokenId][_vault];
+        require(fraction.shareBps > 0 && !fraction.funded, "No unfunded fraction for vault");
+
+        fraction.funded = true;
+        r.fundedBps[_tokenId] += fraction.shareBps;
+
+        return (fraction.shareBps, r.fundedBps[_tokenId] == 10000);
+    }
+
+    /**
+     * @dev Hand the fractions no vault has funded back to the issuer
+     * @notice The issuer keeps the unfunded shares as a single funded fraction. If no
+     *         fraction was funded, the registry is cleared and the invoice is whole again.
+     * @return fundedBps Share funded by vaults (0 = no longer fractionalized)
+     */
+    function merge(Registry storage r, uint256 _tokenId, address _issuer)
+        external
+        returns (uint256 fundedBps)
+    {
+        address[] storage holders = r.holders[_tokenId];
+        require(holders.length > 0, "Invoice not fractionalized");
+
+        uint256 kept = 0;
+        for (uint256 i = 0; i < holders.length; i++) {
+            address holder = holders[i];
+            if (r.fractions[_tokenId][holder].funded) {
+                holders[kept++] = holder;
+            } else {
+                delete r.fractions[_tokenId][holder];
+            }
+        }
+        while (holders.length > kept) {
+            holders.pop();
+        }
+
+        fundedBps = r.fundedBps[_tokenId];
+        if (fundedBps == 0) return 0;
+
+        Fraction storage retained = r.fractions[_tokenId][_issuer];
+        retained.shareBps = 10000 - fundedBps;
+        retained.funded = true;
+        holders.push(_issuer);
+        r.fundedBps[_tokenId] = 10000;
+    }
+
+    /**
+     * @dev Book a repayment against each holder's fraction
+     */
+    function allocate(Registry storage r, uint256 _tokenId, uint256 _amount) external {
+        address[] storage holders = r.holders[_tokenId];
+        uint256[] memory shares = split(r, _tokenId, _amount);
+
+        for (uint256 i = 0; i < holders.length; i++) {
+            r.fractions[_tokenId][holders[i]].paidAmount += shares[i];
+        }
+    }
+
+    /**
+     * @dev A holder's share of an invoice (the whole invoice if it is not fractionalized)
+     * @return faceValue Face value held
+     * @return discountedValue Purchase price of the holding
+     * @return paidAmount Repayments received on the holding
+     */
+    function position(
+        Registry storage r,
+        uint256 _tokenId,
+        address _holder,
+        uint256 _faceValue,
+        uint256 _discountedValue,
+        uint256 _paidAmount
+    ) external view returns (uint256 faceValue, uint256 discountedValue, uint256 paidAmount) {
+        if (r.holders[_tokenId].length == 0) {
+            return (_faceValue, _discountedValue, _paidAmount);
+        }
+
+        Fraction storage fraction = r.fractions[_tokenId][_holder];
+        return (
+            (_faceValue * fraction.shareBps) / 10000,
+            (_discountedValue * fraction.shareBps) / 10000,
+            fraction.paidAmount
+        );
+    }
+
+    /**
+     * @dev Pro rata split of a payment across the holders (rounding dust to the last)
+     */
+    function split(Registry storage r, uint256 _tokenId, uint256 _amount)
+        public
+        view
+        returns (uint256[] memory shares)
+    {
+        address[] storage holders = r.holders[_tokenId];
+        shares = new uint256[](holders.length);
+
+        uint256 remaining = _amount;
+        for (uint256 i = 0; i < holders.length - 1; i++) {
+            shares[i] = (_amount * r.fractions[_tokenId][holders[i]].shareBps) / 10000;
+            remaining -= shares[i];
+        }
+        shares[holders.length - 1] = remaining;
+    }
+}
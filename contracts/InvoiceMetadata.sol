@@ -0,0 +1,122 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/utils/Strings.sol";
+import "@openzeppelin/contracts/utils/Base64.sol";
+import "./InvoiceNFT.sol";
+
+/**
+ * @title InvoiceMetadata
+ * @dev Builds fully on-chain ERC-721 metadata for InvoiceNFT
+ * @notice Returns a base64 JSON data URI with an SVG status badge. Deployed as a
+ *         linked library to keep InvoiceNFT under the contract size limit.
+ */
+library InvoiceMetadata {
+    using Strings for uint256;
+
+    /**
+     * @dev Base64 JSON metadata for an invoice
+     * @param _invoice Invoice record
+     * @param _decimals Payment token decimals used to format amounts
+     * @param _documentURI IPFS URI of the invoice document ("" if none)
+     */
+    function tokenURI(
+        InvoiceNFT.Invoice storage _invoice,
+        uint8 _decimals,
+        string memory _documentURI
+    ) public view returns (string memory) {
+        string memory status = statusName(_invoice.status);
+        string memory json = string.concat(
+            '{"name":"Invoice #', _invoice.tokenId.toString(),
+            '","description":"Tokenized B2B invoice on Mantle RWA",',
+            '"image":"data:image/svg+xml;base64,', Base64.encode(bytes(_svg(_invoice, status, _decimals))), '",',
+            bytes(_documentURI).length > 0 ? string.concat('"external_url":"', _documentURI, '",') : "",
+            _attributes(_invoice, status, _decimals),
+            "}"
+        );
+
+        return string.concat("data:application/json;base64,", Base64.encode(bytes(json)));
+    }
+
+    /**
+     * @dev Human-readable status name
+     */
+    function statusName(InvoiceNFT.InvoiceStatus _status) public pure returns (string memory) {
+        if (_status == InvoiceNFT.InvoiceStatus.PENDING) return "PENDING";
+        if (_status == InvoiceNFT.InvoiceStatus.VERIFIED) return "VERIFIED";
+        if (_status == InvoiceNFT.InvoiceStatus.FUNDED) return "FUNDED";
+        if (_status == InvoiceNFT.InvoiceStatus.PAID) return "PAID";
+        if (_status == InvoiceNFT.InvoiceStatus.DEFAULTED) return "DEFAULTED";
+        if (_status == InvoiceNFT.InvoiceStatus.PARTIAL_PAID) return "PARTIAL_PAID";
+        if (_status == InvoiceNFT.InvoiceStatus.ACKNOWLEDGED) return "ACKNOWLEDGED";
+        if (_status == InvoiceNFT.InvoiceStatus.OVERDUE) return "OVERDUE";
+        return "WRITTEN_OFF";
+    }
+
+    function _attributes(
+        InvoiceNFT.Invoice storage _invoice,
+        string memory _status,
+        uint8 _decimals
+    ) private view returns (string memory) {
+        return string.concat(
+            '"attributes":[',
+            '{"trait_type":"Status","value":"', _status, '"},',
+            '{"trait_type":"Face Value","value":"', _formatAmount(_invoice.faceValue, _decimals), '"},',
+            '{"trait_type":"Paid Amount","value":"', _formatAmount(_invoice.paidAmount, _decimals), '"},',
+            '{"trait_type":"Discount Rate (bps)","display_type":"number","value":', _invoice.discountRate.toString(), "},",
+            '{"trait_type":"Maturity","display_type":"date","value":', _invoice.maturityDate.toString(), "},",
+            '{"trait_type":"Debtor","value":"', Strings.toHexString(_invoice.debtor), '"}',
+            "]"
+        );
+    }
+
+    function _svg(
+        InvoiceNFT.Invoice storage _invoice,
+        string memory _status,
+        uint8 _decimals
+    ) private view returns (string memory) {
+        string memory maturity = block.timestamp >= _invoice.maturityDate
+            ? "Matured"
+            : string.concat(((_invoice.maturityDate - block.timestamp) / 1 days).toString(), " days to maturity");
+
+        return string.concat(
+            '<svg xmlns="http://www.w3.org/2000/svg" width="350" height="200" viewBox="0 0 350 200">',
+            '<rect width="350" height="200" rx="16" fill="#111827"/>',
+            '<text x="24" y="44" font-family="sans-serif" font-size="20" font-weight="bold" fill="#ffffff">Invoice #',
+            _invoice.tokenId.toString(), "</text>",
+            '<text x="24" y="84" font-family="sans-serif" font-size="26" fill="#ffffff">',
+            _formatAmount(_invoice.faceValue, _decimals), "</text>",
+            '<rect x="24" y="108" width="150" height="30" rx="15" fill="', _statusColor(_invoice.status), '"/>',
+            '<text x="99" y="128" font-family="sans-serif" font-size="13" font-weight="bold" fill="#ffffff" text-anchor="middle">',
+            _status, "</text>",
+            '<text x="24" y="172" font-family="sans-serif" font-size="14" fill="#9ca3af">', maturity, "</text>",
+            "</svg>"
+        );
+    }
+
+    function _statusColor(InvoiceNFT.InvoiceStatus _status) private pure returns (string memory) {
+        if (_status == InvoiceNFT.InvoiceStatus.PENDING) return "#f59e0b";
+        if (_status == InvoiceNFT.InvoiceStatus.VERIFIED) return "#3b82f6";
+        if (_status == InvoiceNFT.InvoiceStatus.FUNDED) return "#8b5cf6";
+        if (_status == InvoiceNFT.InvoiceStatus.PAID) return "#10b981";
+        if (_status == InvoiceNFT.InvoiceStatus.DEFAULTED) return "#ef4444";
+        if (_status == InvoiceNFT.InvoiceStatus.PARTIAL_PAID) return "#14b8a6";
+        if (_status == InvoiceNFT.InvoiceStatus.ACKNOWLEDGED) return "#6366f1";
+        if (_status == InvoiceNFT.InvoiceStatus.OVERDUE) return "#f97316";
+        return "#6b7280";
+    }
+
+    /**
+     * @dev Format a token amount with two decimal places (e.g. 1250.50)
+     */
+    function _formatAmount(uint256 _amount, uint8 _decimals) private pure returns (string memory) {
+        uint256 unit = 10 ** _decimals;
+        uint256 cents = _decimals >= 2 ? (_amount % unit) / (unit / 100) : 0;
+
+        return string.concat(
+            (_amount / unit).toString(),
+            cents < 10 ? ".0" : ".",
+            cents.toString()
+        );
+    }
+}
@@ -5,25 +5,83 @@ import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
 import "@openzeppelin/contracts/token/ERC721/extensions/ERC721URIStorage.sol";
 import "@openzeppelin/contracts/access/AccessControl.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "./InvoiceMetadata.sol";
+import "./InvoiceFractions.sol";
+import "./InvoiceCollections.sol";
+import "./DebtorRegistry.sol";
+
+/**
+ * @title IInvoicePaymentReceiver
+ * @dev Implemented by vaults that hold invoices, receive debtor repayments and
+ *      are told when an invoice defaults
+ */
+interface IInvoicePaymentReceiver {
+    function onInvoicePayment(uint256 tokenId, uint256 amount) external;
+    function onInvoiceDefault(uint256 tokenId) external;
+}
 
 /**
  * @title InvoiceNFT
  * @dev ERC-721 contract for tokenizing B2B invoices
- * @notice Each invoice becomes a unique NFT with on-chain metadata
+ * @notice Each invoice becomes a unique NFT with fully on-chain metadata (JSON + SVG).
+ *         With an oracle threshold above 1, verification, payments and defaults
+ *         require EIP-712 attestations signed by a quorum of distinct oracles.
+ *         Debtors can optionally acknowledge invoices addressed to them before
+ *         verification, on-chain or with an EIP-712 signature.
+ *         Issuers without gas can sign an EIP-712 mint request for a relayer to submit.
+ *         A verified invoice can be split into fractions held by several vaults;
+ *         repayments are then distributed pro rata across the holders. Fractions
+ *         no vault buys can be merged back to the issuer, who then holds them itself.
+ *         Unpaid invoices go OVERDUE at maturity and accrue late fees; they can only
+ *         be defaulted after the grace period, and payments on a defaulted invoice
+ *         are recoveries for the holding vaults until it is finally written off.
+ *         An invoice is PAID once its face value is repaid; late fees booked by then
+ *         remain payable on the PAID invoice.
+ *         Debtors unknown to the registry are registered on their first invoice with
+ *         no credit limit; verification reserves debtor credit and waits for the admin
+ *         to set a limit that covers the invoice.
  */
-contract InvoiceNFT is ERC721, ERC721URIStorage, AccessControl, ReentrancyGuard {
+contract InvoiceNFT is ERC721, ERC721URIStorage, AccessControl, ReentrancyGuard, EIP712 {
+    using SafeERC20 for IERC20;
 
     bytes32 public constant ISSUER_ROLE = keccak256("ISSUER_ROLE");
     bytes32 public constant ORACLE_ROLE = keccak256("ORACLE_ROLE");
     bytes32 public constant VAULT_ROLE = keccak256("VAULT_ROLE");
+    bytes32 public constant RECOURSE_ROLE = keccak256("RECOURSE_ROLE"); // Recourse escrows paying vaults directly
+
+    bytes32 public constant ATTESTATION_TYPEHASH = keccak256(
+        "Attestation(uint8 action,uint256 tokenId,uint256 amount,uint256 nonce,uint256 deadline)"
+    );
+
+    bytes32 public constant ACKNOWLEDGEMENT_TYPEHASH = keccak256(
+        "Acknowledgement(uint256 tokenId,bytes32 invoiceHash,uint256 faceValue,uint256 maturityDate,uint256 deadline)"
+    );
+
+    bytes32 public constant MINT_REQUEST_TYPEHASH = keccak256(
+        "MintRequest(uint256 faceValue,uint256 maturityDate,address debtor,bytes32 invoiceHash,string debtorName,uint256 discountRate,address issuer,uint256 nonce,uint256 deadline)"
+    );
+
+    enum AttestationAction {
+        VERIFY,       // verifyInvoice
+        PAYMENT,      // recordPayment(amount)
+        DEFAULT,      // markAsDefaulted
+        WRITE_OFF     // writeOffInvoice
+    }
 
     enum InvoiceStatus {
         PENDING,      // Invoice minted, awaiting verification
         VERIFIED,     // Oracle verified invoice authenticity
         FUNDED,       // Invoice added to vault and funded
-        PAID,         // Debtor paid invoice in full
-        DEFAULTED,    // Invoice past maturity date without payment
-        PARTIAL_PAID  // Invoice partially paid
+        PAID,         // Debtor repaid the face value (late fees may still be due)
+        DEFAULTED,    // Invoice past the grace period without payment
+        PARTIAL_PAID, // Invoice partially paid
+        ACKNOWLEDGED, // Debtor confirmed the invoice, awaiting verification
+        OVERDUE,      // Past maturity without full payment, within the grace period
+        WRITTEN_OFF   // Defaulted invoice closed; no further payments accepted
     }
 
     struct Invoice {
@@ -39,13 +97,72 @@ contract InvoiceNFT is ERC721, ERC721URIStorage, AccessControl, ReentrancyGuard
         address issuer;           // Business that issued the invoice
         string debtorName;        // Off-chain debtor identifier
         uint256 discountRate;     // Discount rate in basis points (e.g., 500 = 5%)
+        uint256 acknowledgedAt;   // When the debtor confirmed the invoice (0 = not acknowledged)
+    }
+
+    // Issuer-signed mint, submitted by a relayer (same fields as mintInvoice)
+    struct MintRequest {
+        uint256 faceValue;
+        uint256 maturityDate;
+        address debtor;
+        bytes32 invoiceHash;
+        string debtorName;
+        uint256 discountRate;
+        address issuer;
+        uint256 nonce;
+        uint256 deadline;
+    }
+
+    // Late fees and recoveries on an invoice after maturity
+    struct Collection {
+        uint256 lateFeesAccrued;  // Late fees booked so far
+        uint256 accruedUntil;     // Timestamp late fees are booked up to
+        uint256 recovered;        // Payments received after default
+    }
+
+    // Registered debtor with credit limit and payment history
+    struct Debtor {
+        uint256 debtorId;
+        string name;
+        uint256 creditLimit;          // Max outstanding face value across verified invoices
+        uint256 outstandingFaceValue; // Face value verified against the debtor and not yet paid
+        uint256 paidInvoices;
+        uint256 defaultedInvoices;
+        uint256 registeredAt;
+        bool isActive;
     }
 
-    mapping(uint256 => Invoice) public invoices;
+    mapping(uint256 => Invoice) internal invoices; // Read through getInvoice
     mapping(bytes32 => bool) public usedInvoiceHashes; // Prevent duplicate invoices
 
     uint256 private _nextTokenId = 1;
 
+    // Debtor registry (debtor address => stable debtor ID)
+    mapping(address => uint256) public debtorIds;
+    mapping(uint256 => Debtor) public debtors;
+    uint256 private _nextDebtorId = 1;
+
+    // Stablecoin debtors repay invoices in (must match the vault asset)
+    IERC20 public paymentToken;
+
+    // Oracle quorum (<= 1 = any single ORACLE_ROLE holder may act directly)
+    uint256 public oracleThreshold;
+    mapping(uint256 => uint256) public attestationNonces;  // tokenId => next attestation nonce
+
+    // Amendments (tokenId => number of amendments, 0 = original terms)
+    mapping(uint256 => uint256) public invoiceVersions;
+
+    // Gasless minting
+    mapping(address => uint256) public mintNonces;  // issuer => next mint request nonce
+
+    // Fractionalization (tokenId => vaults sharing the invoice)
+    InvoiceFractions.Registry private _fractions;
+
+    // Collections (grace period before default, late fee per day on unpaid face value)
+    uint256 public gracePeriod;
+    uint256 public lateFeeBpsPerDay;
+    mapping(uint256 => Collection) public collections;
+
     // Statistics
     uint256 public totalInvoicesFunded;
     uint256 public totalValueFunded;
@@ -61,18 +178,69 @@ contract InvoiceNFT is ERC721, ERC721URIStorage, AccessControl, ReentrancyGuard
         bytes32 invoiceHash
     );
 
+    event MintRequestRelayed(
+        uint256 indexed tokenId,
+        address indexed issuer,
+        address indexed relayer,
+        uint256 nonce
+    );
+
+    event InvoiceCancelled(
+        uint256 indexed tokenId,
+        address indexed issuer,
+        uint256 timestamp
+    );
+
+    event InvoiceAmended(
+        uint256 indexed tokenId,
+        uint256 indexed version,
+        uint256 faceValue,
+        uint256 maturityDate,
+        bytes32 invoiceHash,
+        uint256 discountRate,
+        uint256 timestamp
+    );
+
     event InvoiceVerified(
         uint256 indexed tokenId,
         address indexed oracle,
         uint256 timestamp
     );
 
+    event InvoiceAcknowledged(
+        uint256 indexed tokenId,
+        address indexed debtor,
+        uint256 timestamp
+    );
+
     event InvoiceFunded(
         uint256 indexed tokenId,
         address indexed vault,
         uint256 timestamp
     );
 
+    event InvoiceFractionalized(
+        uint256 indexed tokenId,
+        address indexed issuer,
+        address[] holders,
+        uint256[] shareBps,
+        uint256 timestamp
+    );
+
+    event FractionFunded(
+        uint256 indexed tokenId,
+        address indexed vault,
+        uint256 shareBps,
+        uint256 timestamp
+    );
+
+    event FractionsMerged(
+        uint256 indexed tokenId,
+        address indexed issuer,
+        uint256 retainedBps,
+        uint256 timestamp
+    );
+
     event InvoiceRepaid(
         uint256 indexed tokenId,
         uint256 amount,
@@ -80,18 +248,73 @@ contract InvoiceNFT is ERC721, ERC721URIStorage, AccessControl, ReentrancyGuard
         InvoiceStatus newStatus
     );
 
+    event InvoicePaymentReceived(
+        uint256 indexed tokenId,
+        address indexed payer,
+        address indexed vault,
+        uint256 amount
+    );
+
+    event InvoiceOverdue(
+        uint256 indexed tokenId,
+        uint256 timestamp
+    );
+
+    event RecoveryReceived(
+        uint256 indexed tokenId,
+        uint256 amount,
+        uint256 totalRecovered
+    );
+
+    event InvoiceWrittenOff(
+        uint256 indexed tokenId,
+        uint256 amountUnpaid,
+        uint256 timestamp
+    );
+
+    event CollectionTermsUpdated(uint256 gracePeriod, uint256 lateFeeBpsPerDay);
+
+    event PaymentTokenUpdated(address oldToken, address newToken);
+
+    event OracleThresholdUpdated(uint256 oldThreshold, uint256 newThreshold);
+
+    event AttestationExecuted(
+        uint256 indexed tokenId,
+        AttestationAction indexed action,
+        uint256 amount,
+        uint256 nonce,
+        uint256 signerCount
+    );
+
+    event DebtorRegistered(
+        uint256 indexed debtorId,
+        address indexed debtor,
+        string name,
+        uint256 creditLimit,
+        uint256 timestamp
+    );
+
+    event DebtorCreditLimitUpdated(
+        uint256 indexed debtorId,
+        uint256 oldLimit,
+        uint256 newLimit,
+        bool isActive
+    );
+
     event InvoiceDefaulted(
         uint256 indexed tokenId,
         uint256 timestamp,
         uint256 amountUnpaid
     );
 
-    constructor() ERC721("Invoice NFT", "iNFT") {
+    constructor() ERC721("Invoice NFT", "iNFT") EIP712("InvoiceNFT", "1") {
         _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
     }
 
     /**
      * @dev Mint a new invoice NFT
+     * @notice An unregistered debtor is registered with no credit limit. Credit is only
+     *         checked when the invoice is verified (see getAvailableCredit).
      * @param _faceValue The full value of the invoice
      * @param _maturityDate When the invoice is due
      * @param _debtor Address representing the debtor
@@ -108,64 +331,192 @@ contract InvoiceNFT is ERC721, ERC721URIStorage, AccessControl, ReentrancyGuard
         string memory _debtorName,
         uint256 _discountRate
     ) external onlyRole(ISSUER_ROLE) nonReentrant returns (uint256) {
-        require(_maturityDate > block.timestamp, "Maturity must be in future");
-        require(_faceValue > 0, "Face value must be positive");
-        require(_debtor != address(0), "Invalid debtor address");
-        require(_invoiceHash != bytes32(0), "Invalid invoice hash");
-        require(!usedInvoiceHashes[_invoiceHash], "Invoice already exists");
-        require(_discountRate > 0 && _discountRate <= 5000, "Discount rate must be 0-50%"); // Max 50% discount
+        return _mintInvoice(
+            msg.sender,
+            _faceValue,
+            _maturityDate,
+            _debtor,
+            _invoiceHash,
+            _debtorName,
+            _discountRate
+        );
+    }
 
-        uint256 tokenId = _nextTokenId++;
-        uint256 discountedValue = (_faceValue * (10000 - _discountRate)) / 10000;
+    /**
+     * @dev Mint an invoice from an issuer-signed EIP-712 request
+     * @notice Anyone may relay the request and pay the gas. The NFT is minted to
+     *         the issuer, who must hold ISSUER_ROLE. Nonces are sequential per issuer.
+     * @param _request Mint request fields, nonce and deadline
+     * @param _signature Issuer signature over the MintRequest struct
+     * @return tokenId The ID of the newly minted invoice NFT
+     */
+    function mintInvoiceWithSig(MintRequest calldata _request, bytes calldata _signature)
+        external
+        nonReentrant
+        returns (uint256 tokenId)
+    {
+        require(block.timestamp <= _request.deadline, "Mint request expired");
+        require(hasRole(ISSUER_ROLE, _request.issuer), "Signer is not an issuer");
+        require(_request.nonce == mintNonces[_request.issuer]++, "Invalid mint nonce");
+        require(
+            ECDSA.recover(getMintRequestDigest(_request), _signature) == _request.issuer,
+            "Invalid issuer signature"
+        );
 
-        invoices[tokenId] = Invoice({
-            tokenId: tokenId,
-            faceValue: _faceValue,
-            discountedValue: discountedValue,
-            maturityDate: _maturityDate,
-            debtor: _debtor,
-            invoiceHash: _invoiceHash,
-            status: InvoiceStatus.PENDING,
-            paidAmount: 0,
-            issuedAt: block.timestamp,
-            issuer: msg.sender,
-            debtorName: _debtorName,
-            discountRate: _discountRate
-        });
+        tokenId = _mintInvoice(
+            _request.issuer,
+            _request.faceValue,
+            _request.maturityDate,
+            _request.debtor,
+            _request.invoiceHash,
+            _request.debtorName,
+            _request.discountRate
+        );
 
-        usedInvoiceHashes[_invoiceHash] = true;
+        emit MintRequestRelayed(tokenId, _request.issuer, msg.sender, _request.nonce);
+    }
 
-        _safeMint(msg.sender, tokenId);
+    /**
+     * @dev Debtor confirms an invoice addressed to it
+     * @param _tokenId The invoice token ID
+     */
+    function acknowledgeInvoice(uint256 _tokenId) external {
+        require(_ownerOf(_tokenId) != address(0), "Invoice does not exist");
+        require(msg.sender == invoices[_tokenId].debtor, "Caller is not the debtor");
+        _acknowledgeInvoice(_tokenId);
+    }
 
-        emit InvoiceMinted(
-            tokenId,
-            msg.sender,
+    /**
+     * @dev Record a debtor acknowledgement signed off-chain
+     * @notice Anyone may relay the signature. Contract debtors acknowledge with a
+     *         transaction instead. The signature commits to the invoice hash, face value and maturity,
+     *         and can only be used while the invoice is PENDING.
+     * @param _tokenId The invoice token ID
+     * @param _deadline Timestamp after which the signature expires
+     * @param _signature Debtor signature over the Acknowledgement struct
+     */
+    function acknowledgeInvoiceWithSig(uint256 _tokenId, uint256 _deadline, bytes calldata _signature) external {
+        require(_ownerOf(_tokenId) != address(0), "Invoice does not exist");
+        require(block.timestamp <= _deadline, "Acknowledgement expired");
+        require(
+            ECDSA.recover(getAcknowledgementDigest(_tokenId, _deadline), _signature) == invoices[_tokenId].debtor,
+            "Invalid debtor signature"
+        );
+        _acknowledgeInvoice(_tokenId);
+    }
+
+    /**
+     * @dev Link the invoice document (e.g. "ipfs://<cid>") shown in the token metadata
+     * @notice Only the issuer, and only before verification so the oracle checks
+     *         the document that investors see
+     * @param _tokenId The invoice token ID
+     * @param _documentURI Document URI
+     */
+    function setInvoiceDocument(uint256 _tokenId, string calldata _documentURI) external {
+        _unverifiedIssuerInvoice(_tokenId);
+        _setTokenURI(_tokenId, _documentURI);
+    }
+
+    /**
+     * @dev Cancel (burn) an unverified invoice
+     * @notice Frees the invoice hash for reuse
+     * @param _tokenId The invoice token ID
+     */
+    function cancelInvoice(uint256 _tokenId) external nonReentrant {
+        Invoice storage invoice = _unverifiedIssuerInvoice(_tokenId);
+        _releaseTerms(invoice);
+
+        delete invoices[_tokenId];
+        _burn(_tokenId);
+
+        emit InvoiceCancelled(_tokenId, msg.sender, block.timestamp);
+    }
+
+    /**
+     * @dev Correct the terms of an unverified invoice
+     * @notice Each amendment bumps the invoice version and resets it to PENDING:
+     *         the debtor must acknowledge again and in-flight oracle attestations
+     *         for the old terms are invalidated. The debtor cannot be changed.
+     * @param _tokenId The invoice token ID
+     * @param _faceValue New face value
+     * @param _maturityDate New maturity date
+     * @param _invoiceHash New document hash (may be unchanged)
+     * @param _debtorName New debtor identifier
+     * @param _discountRate New discount rate in basis points
+     * @return version Amendment number (1 for the first amendment)
+     */
+    function amendInvoice(
+        uint256 _tokenId,
+        uint256 _faceValue,
+        uint256 _maturityDate,
+        bytes32 _invoiceHash,
+        string memory _debtorName,
+        uint256 _discountRate
+    ) external nonReentrant returns (uint256 version) {
+        Invoice storage invoice = _unverifiedIssuerInvoice(_tokenId);
+        _releaseTerms(invoice);
+        _reserveTerms(invoice.debtor, _faceValue, _maturityDate, _invoiceHash, _discountRate);
+
+        invoice.faceValue = _faceValue;
+        invoice.discountedValue = (_faceValue * (10000 - _discountRate)) / 10000;
+        invoice.maturityDate = _maturityDate;
+        invoice.invoiceHash = _invoiceHash;
+        invoice.debtorName = _debtorName;
+        invoice.discountRate = _discountRate;
+        invoice.status = InvoiceStatus.PENDING;
+        invoice.acknowledgedAt = 0;
+
+        attestationNonces[_tokenId]++;
+        version = ++invoiceVersions[_tokenId];
+
+        emit InvoiceAmended(
+            _tokenId,
+            version,
             _faceValue,
-            discountedValue,
             _maturityDate,
-            _invoiceHash
+            _invoiceHash,
+            _discountRate,
+            block.timestamp
         );
-
-        return tokenId;
     }
 
     /**
      * @dev Oracle verifies invoice authenticity
+     * @notice Reserves the invoice face value against the debtor's credit limit
      * @param _tokenId The invoice token ID to verify
      */
     function verifyInvoice(uint256 _tokenId) external onlyRole(ORACLE_ROLE) {
-        require(_ownerOf(_tokenId) != address(0), "Invoice does not exist");
-        Invoice storage invoice = invoices[_tokenId];
-        require(invoice.status == InvoiceStatus.PENDING, "Invoice not in PENDING status");
-        require(block.timestamp < invoice.maturityDate, "Invoice already matured");
+        require(oracleThreshold <= 1, "Oracle quorum required");
+        _verifyInvoice(_tokenId);
+    }
 
-        invoice.status = InvoiceStatus.VERIFIED;
+    /**
+     * @dev Split a verified invoice into fractions that different vaults fund
+     * @notice The NFT is escrowed in this contract. Each vault buys its share with
+     *         addInvoice; the invoice becomes FUNDED once every fraction is funded.
+     * @param _tokenId The invoice token ID
+     * @param _holders Vaults that will hold the fractions
+     * @param _shareBps Share of each vault in basis points (must total 10000)
+     */
+    function fractionalizeInvoice(
+        uint256 _tokenId,
+        address[] calldata _holders,
+        uint256[] calldata _shareBps
+    ) external nonReentrant {
+        require(_ownerOf(_tokenId) == msg.sender, "Caller does not hold invoice");
+        require(msg.sender == invoices[_tokenId].issuer, "Caller is not the issuer");
+        require(invoices[_tokenId].status == InvoiceStatus.VERIFIED, "Invoice not verified");
 
-        emit InvoiceVerified(_tokenId, msg.sender, block.timestamp);
+        InvoiceFractions.create(_fractions, _tokenId, _holders, _shareBps, VAULT_ROLE);
+        _transfer(msg.sender, address(this), _tokenId);
+
+        emit InvoiceFractionalized(_tokenId, msg.sender, _holders, _shareBps, block.timestamp);
     }
 
     /**
      * @dev Mark invoice as funded (called by vault)
+     * @notice For a fractionalized invoice this funds the calling vault's fraction;
+     *         the invoice only moves to FUNDED with the last one
      * @param _tokenId The invoice token ID
      */
     function markAsFunded(uint256 _tokenId) external onlyRole(VAULT_ROLE) {
@@ -173,15 +524,48 @@ contract InvoiceNFT is ERC721, ERC721URIStorage, AccessControl, ReentrancyGuard
         Invoice storage invoice = invoices[_tokenId];
         require(invoice.status == InvoiceStatus.VERIFIED, "Invoice not verified");
 
-        invoice.status = InvoiceStatus.FUNDED;
-        totalInvoicesFunded++;
-        totalValueFunded += invoice.faceValue;
+        if (_fractions.holders[_tokenId].length > 0) {
+            (uint256 shareBps, bool complete) = InvoiceFractions.fund(_fractions, _tokenId, msg.sender);
 
-        emit InvoiceFunded(_tokenId, msg.sender, block.timestamp);
+            emit FractionFunded(_tokenId, msg.sender, shareBps, block.timestamp);
+
+            if (!complete) return;
+        }
+
+        _markFunded(invoice, _tokenId);
+    }
+
+    /**
+     * @dev Hand the unfunded fractions of an invoice back to its issuer
+     * @notice For a fraction no vault ends up buying. The issuer keeps the unfunded
+     *         shares and is paid their part of each repayment, and the invoice moves to
+     *         FUNDED for the vaults that did buy in. If no fraction was funded, the issuer
+     *         gets the whole invoice back, still VERIFIED.
+     * @param _tokenId The invoice token ID
+     */
+    function mergeUnfundedFractions(uint256 _tokenId) external nonReentrant {
+        Invoice storage invoice = invoices[_tokenId];
+        require(
+            msg.sender == invoice.issuer || hasRole(DEFAULT_ADMIN_ROLE, msg.sender),
+            "Caller is not the issuer"
+        );
+        require(invoice.status == InvoiceStatus.VERIFIED, "Invoice not verified");
+
+        uint256 fundedBps = InvoiceFractions.merge(_fractions, _tokenId, invoice.issuer);
+
+        emit FractionsMerged(_tokenId, invoice.issuer, 10000 - fundedBps, block.timestamp);
+
+        if (fundedBps == 0) {
+            _transfer(address(this), invoice.issuer, _tokenId);
+        } else {
+            _markFunded(invoice, _tokenId);
+        }
     }
 
     /**
      * @dev Record payment on an invoice (partial or full)
+     * @notice Oracle path for payments settled off-chain; no funds move. The cash
+     *         reaches the vault holding the invoice through TrancheVault.collectPayment
      * @param _tokenId The invoice token ID
      * @param _amount The amount paid
      */
@@ -190,49 +574,242 @@ contract InvoiceNFT is ERC721, ERC721URIStorage, AccessControl, ReentrancyGuard
         onlyRole(ORACLE_ROLE)
         nonReentrant
     {
-        require(_ownerOf(_tokenId) != address(0), "Invoice does not exist");
-        require(_amount > 0, "Payment amount must be positive");
+        require(oracleThreshold <= 1, "Oracle quorum required");
+        _applyPayment(_tokenId, _amount);
+    }
 
-        Invoice storage invoice = invoices[_tokenId];
-        require(
-            invoice.status == InvoiceStatus.FUNDED ||
-            invoice.status == InvoiceStatus.PARTIAL_PAID,
-            "Invoice not in valid state for payment"
-        );
-        require(invoice.paidAmount + _amount <= invoice.faceValue, "Payment exceeds face value");
+    /**
+     * @dev Repay an invoice on-chain in the payment token
+     * @notice Anyone can pay on behalf of the debtor. Funds go straight to the
+     *         vault holding the invoice, which books principal and yield. Payments
+     *         on a fractionalized invoice are split pro rata across its holders.
+     * @param _tokenId The invoice token ID
+     * @param _amount The amount paid
+     */
+    function payInvoice(uint256 _tokenId, uint256 _amount) external nonReentrant {
+        require(address(paymentToken) != address(0), "Payment token not set");
 
-        invoice.paidAmount += _amount;
-        totalValuePaid += _amount;
+        _applyPayment(_tokenId, _amount);
 
-        InvoiceStatus newStatus;
-        if (invoice.paidAmount >= invoice.faceValue) {
-            newStatus = InvoiceStatus.PAID;
-        } else {
-            newStatus = InvoiceStatus.PARTIAL_PAID;
+        address[] storage holders = _fractions.holders[_tokenId];
+        if (holders.length == 0) {
+            _payHolder(_tokenId, ownerOf(_tokenId), _amount);
+            return;
         }
 
-        invoice.status = newStatus;
+        uint256[] memory shares = InvoiceFractions.split(_fractions, _tokenId, _amount);
+        for (uint256 i = 0; i < holders.length; i++) {
+            _payHolder(_tokenId, holders[i], shares[i]);
+        }
+    }
 
-        emit InvoiceRepaid(_tokenId, _amount, invoice.paidAmount, newStatus);
+    /**
+     * @dev Flag a funded invoice that reached maturity without full payment
+     * @notice Permissionless; late fees accrue from maturity whether or not this is called
+     * @param _tokenId The invoice token ID
+     */
+    function markAsOverdue(uint256 _tokenId) external {
+        require(_ownerOf(_tokenId) != address(0), "Invoice does not exist");
+        InvoiceCollections.markOverdue(invoices[_tokenId]);
+
+        emit InvoiceOverdue(_tokenId, block.timestamp);
     }
 
     /**
-     * @dev Mark invoice as defaulted (past maturity without full payment)
+     * @dev Mark invoice as defaulted (grace period over without full payment)
      * @param _tokenId The invoice token ID
      */
     function markAsDefaulted(uint256 _tokenId) external onlyRole(ORACLE_ROLE) {
-        require(_ownerOf(_tokenId) != address(0), "Invoice does not exist");
+        require(oracleThreshold <= 1, "Oracle quorum required");
+        _markAsDefaulted(_tokenId);
+    }
+
+    /**
+     * @dev Close a defaulted invoice once collections are exhausted
+     * @param _tokenId The invoice token ID
+     */
+    function writeOffInvoice(uint256 _tokenId) external onlyRole(ORACLE_ROLE) {
+        require(oracleThreshold <= 1, "Oracle quorum required");
+        _writeOffInvoice(_tokenId);
+    }
+
+    /**
+     * @dev Execute an oracle action once enough distinct oracles have signed it
+     * @notice Anyone may relay the signatures. Each attestation is bound to the
+     *         invoice's current nonce, so it cannot be replayed.
+     * @param _action Action being attested
+     * @param _tokenId The invoice token ID
+     * @param _amount Payment amount (PAYMENT only, otherwise 0)
+     * @param _deadline Timestamp after which the signatures expire
+     * @param _signatures Oracle signatures, ordered by strictly ascending signer address
+     */
+    function executeAttestation(
+        AttestationAction _action,
+        uint256 _tokenId,
+        uint256 _amount,
+        uint256 _deadline,
+        bytes[] calldata _signatures
+    ) external nonReentrant {
+        require(block.timestamp <= _deadline, "Attestation expired");
+        require(_signatures.length >= oracleThreshold && _signatures.length > 0, "Not enough oracle signatures");
 
+        uint256 nonce = attestationNonces[_tokenId]++;
+        bytes32 digest = getAttestationDigest(_action, _tokenId, _amount, nonce, _deadline);
+
+        address lastSigner = address(0);
+        for (uint256 i = 0; i < _signatures.length; i++) {
+            address signer = ECDSA.recover(digest, _signatures[i]);
+            require(signer > lastSigner, "Signers not unique and ordered");
+            require(hasRole(ORACLE_ROLE, signer), "Signer is not an oracle");
+            lastSigner = signer;
+        }
+
+        if (_action == AttestationAction.VERIFY) {
+            _verifyInvoice(_tokenId);
+        } else if (_action == AttestationAction.PAYMENT) {
+            _applyPayment(_tokenId, _amount);
+        } else if (_action == AttestationAction.DEFAULT) {
+            _markAsDefaulted(_tokenId);
+        } else {
+            _writeOffInvoice(_tokenId);
+        }
+
+        emit AttestationExecuted(_tokenId, _action, _amount, nonce, _signatures.length);
+    }
+
+    /**
+     * @dev Set how many distinct oracle signatures a state transition needs
+     * @param _threshold Number of oracles (0 or 1 = single-oracle mode)
+     */
+    function setOracleThreshold(uint256 _threshold) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        uint256 oldThreshold = oracleThreshold;
+        oracleThreshold = _threshold;
+
+        emit OracleThresholdUpdated(oldThreshold, _threshold);
+    }
+
+    /**
+     * @dev EIP-712 digest oracles sign for an attestation
+     */
+    function getAttestationDigest(
+        AttestationAction _action,
+        uint256 _tokenId,
+        uint256 _amount,
+        uint256 _nonce,
+        uint256 _deadline
+    ) public view returns (bytes32) {
+        return _hashTypedDataV4(keccak256(abi.encode(
+            ATTESTATION_TYPEHASH,
+            uint8(_action),
+            _tokenId,
+            _amount,
+            _nonce,
+            _deadline
+        )));
+    }
+
+    /**
+     * @dev EIP-712 digest a debtor signs to acknowledge an invoice
+     */
+    function getAcknowledgementDigest(uint256 _tokenId, uint256 _deadline) public view returns (bytes32) {
         Invoice storage invoice = invoices[_tokenId];
-        require(block.timestamp > invoice.maturityDate, "Invoice not yet matured");
-        require(invoice.status != InvoiceStatus.PAID, "Invoice already paid");
-        require(invoice.status != InvoiceStatus.DEFAULTED, "Already marked as defaulted");
+        return _hashTypedDataV4(keccak256(abi.encode(
+            ACKNOWLEDGEMENT_TYPEHASH,
+            _tokenId,
+            invoice.invoiceHash,
+            invoice.faceValue,
+            invoice.maturityDate,
+            _deadline
+        )));
+    }
 
-        invoice.status = InvoiceStatus.DEFAULTED;
-        uint256 amountUnpaid = invoice.faceValue - invoice.paidAmount;
-        totalDefaulted += amountUnpaid;
+    /**
+     * @dev EIP-712 digest an issuer signs for a gasless mint
+     */
+    function getMintRequestDigest(MintRequest calldata _request) public view returns (bytes32) {
+        return _hashTypedDataV4(keccak256(abi.encode(
+            MINT_REQUEST_TYPEHASH,
+            _request.faceValue,
+            _request.maturityDate,
+            _request.debtor,
+            _request.invoiceHash,
+            keccak256(bytes(_request.debtorName)),
+            _request.discountRate,
+            _request.issuer,
+            _request.nonce,
+            _request.deadline
+        )));
+    }
 
-        emit InvoiceDefaulted(_tokenId, block.timestamp, amountUnpaid);
+    /**
+     * @dev Register a debtor with a credit limit
+     * @notice Debtors first seen on an invoice are already registered with no credit
+     *         limit; use updateDebtorCredit for those
+     * @param _debtor Debtor address
+     * @param _name Debtor legal name
+     * @param _creditLimit Max outstanding face value across the debtor's verified invoices
+     * @return debtorId Stable registry ID
+     */
+    function registerDebtor(address _debtor, string memory _name, uint256 _creditLimit)
+        external
+        onlyRole(DEFAULT_ADMIN_ROLE)
+        returns (uint256 debtorId)
+    {
+        require(bytes(_name).length > 0, "Debtor name required");
+        return _registerDebtor(_debtor, _name, _creditLimit);
+    }
+
+    /**
+     * @dev Change a debtor's credit limit or suspend new invoices against it
+     * @notice Lowering the limit below current exposure only blocks new verifications
+     * @param _debtor Debtor address
+     * @param _creditLimit New credit limit
+     * @param _isActive Whether new invoices may be minted and verified against the debtor
+     */
+    function updateDebtorCredit(address _debtor, uint256 _creditLimit, bool _isActive)
+        external
+        onlyRole(DEFAULT_ADMIN_ROLE)
+    {
+        uint256 debtorId = debtorIds[_debtor];
+        require(debtorId != 0, "Debtor not registered");
+
+        Debtor storage debtor = debtors[debtorId];
+        uint256 oldLimit = debtor.creditLimit;
+        debtor.creditLimit = _creditLimit;
+        debtor.isActive = _isActive;
+
+        emit DebtorCreditLimitUpdated(debtorId, oldLimit, _creditLimit, _isActive);
+    }
+
+    /**
+     * @dev Set the stablecoin used for on-chain repayments
+     * @param _paymentToken ERC-20 token address
+     */
+    function setPaymentToken(address _paymentToken) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(_paymentToken != address(0), "Invalid payment token");
+
+        address oldToken = address(paymentToken);
+        paymentToken = IERC20(_paymentToken);
+
+        emit PaymentTokenUpdated(oldToken, _paymentToken);
+    }
+
+    /**
+     * @dev Configure collections after maturity
+     * @param _gracePeriod Time after maturity before an invoice can be defaulted
+     * @param _lateFeeBpsPerDay Late fee on unpaid face value in basis points per day (max 1%)
+     */
+    function setCollectionTerms(uint256 _gracePeriod, uint256 _lateFeeBpsPerDay)
+        external
+        onlyRole(DEFAULT_ADMIN_ROLE)
+    {
+        require(_gracePeriod <= 365 days, "Grace period too long");
+        require(_lateFeeBpsPerDay <= 100, "Late fee too high");
+
+        gracePeriod = _gracePeriod;
+        lateFeeBpsPerDay = _lateFeeBpsPerDay;
+
+        emit CollectionTermsUpdated(_gracePeriod, _lateFeeBpsPerDay);
     }
 
     /**
@@ -245,6 +822,102 @@ contract InvoiceNFT is ERC721, ERC721URIStorage, AccessControl, ReentrancyGuard
         return invoices[_tokenId];
     }
 
+    /**
+     * @dev Late fees accrued on an invoice so far, including any not yet booked
+     * @param _tokenId The invoice token ID
+     */
+    function getLateFee(uint256 _tokenId) public view returns (uint256) {
+        require(_ownerOf(_tokenId) != address(0), "Invoice does not exist");
+        Collection storage collection = collections[_tokenId];
+        return collection.lateFeesAccrued +
+            InvoiceCollections.pendingLateFee(invoices[_tokenId], collection, lateFeeBpsPerDay);
+    }
+
+    /**
+     * @dev Amount that settles an invoice in full right now (face value plus late fees)
+     * @param _tokenId The invoice token ID
+     */
+    function getAmountDue(uint256 _tokenId) external view returns (uint256) {
+        uint256 total = invoices[_tokenId].faceValue + getLateFee(_tokenId);
+        uint256 paid = invoices[_tokenId].paidAmount;
+        return total > paid ? total - paid : 0;
+    }
+
+    /**
+     * @dev Whether an invoice has been split into fractions
+     * @param _tokenId The invoice token ID
+     */
+    function isFractionalized(uint256 _tokenId) external view returns (bool) {
+        return _fractions.holders[_tokenId].length > 0;
+    }
+
+    /**
+     * @dev Vaults holding fractions of an invoice (empty if not fractionalized)
+     * @param _tokenId The invoice token ID
+     */
+    function getFractionHolders(uint256 _tokenId) external view returns (address[] memory) {
+        return _fractions.holders[_tokenId];
+    }
+
+    /**
+     * @dev A vault's fraction of an invoice (zero share if it holds none)
+     * @param _tokenId The invoice token ID
+     * @param _holder Fraction holder
+     */
+    function getFraction(uint256 _tokenId, address _holder)
+        external
+        view
+        returns (InvoiceFractions.Fraction memory)
+    {
+        return _fractions.fractions[_tokenId][_holder];
+    }
+
+    /**
+     * @dev Terms of an invoice as seen by one holder
+     * @notice The whole invoice unless it is fractionalized, in which case the
+     *         holder's pro rata share and the repayments allocated to it
+     * @param _tokenId The invoice token ID
+     * @param _holder Fraction holder (ignored for whole invoices)
+     * @return faceValue Face value held
+     * @return discountedValue Purchase price of the holding
+     * @return paidAmount Repayments received on the holding
+     */
+    function getPosition(uint256 _tokenId, address _holder) external view returns (
+        uint256 faceValue,
+        uint256 discountedValue,
+        uint256 paidAmount
+    ) {
+        require(_ownerOf(_tokenId) != address(0), "Invoice does not exist");
+        Invoice storage invoice = invoices[_tokenId];
+
+        return InvoiceFractions.position(
+            _fractions,
+            _tokenId,
+            _holder,
+            invoice.faceValue,
+            invoice.discountedValue,
+            invoice.paidAmount
+        );
+    }
+
+    /**
+     * @dev Get a debtor's registry record
+     * @param _debtor Debtor address
+     * @return Debtor struct (debtorId 0 if not registered)
+     */
+    function getDebtor(address _debtor) external view returns (Debtor memory) {
+        return debtors[debtorIds[_debtor]];
+    }
+
+    /**
+     * @dev Face value that can still be verified against a debtor
+     * @notice An invoice stays PENDING or ACKNOWLEDGED until this covers its face value
+     * @param _debtor Debtor address
+     */
+    function getAvailableCredit(address _debtor) external view returns (uint256) {
+        return DebtorRegistry.availableCredit(debtors[debtorIds[_debtor]]);
+    }
+
     /**
      * @dev Get invoice status
      * @param _tokenId The invoice token ID
@@ -306,15 +979,271 @@ contract InvoiceNFT is ERC721, ERC721URIStorage, AccessControl, ReentrancyGuard
         );
     }
 
+    /**
+     * @dev Validate and mint an invoice to the issuer, registering a new debtor
+     */
+    function _mintInvoice(
+        address _issuer,
+        uint256 _faceValue,
+        uint256 _maturityDate,
+        address _debtor,
+        bytes32 _invoiceHash,
+        string memory _debtorName,
+        uint256 _discountRate
+    ) internal returns (uint256) {
+        if (debtorIds[_debtor] == 0) {
+            _registerDebtor(_debtor, _debtorName, 0);
+        }
+        _reserveTerms(_debtor, _faceValue, _maturityDate, _invoiceHash, _discountRate);
+
+        uint256 tokenId = _nextTokenId++;
+        uint256 discountedValue = (_faceValue * (10000 - _discountRate)) / 10000;
+
+        invoices[tokenId] = Invoice({
+            tokenId: tokenId,
+            faceValue: _faceValue,
+            discountedValue: discountedValue,
+            maturityDate: _maturityDate,
+            debtor: _debtor,
+            invoiceHash: _invoiceHash,
+            status: InvoiceStatus.PENDING,
+            paidAmount: 0,
+            issuedAt: block.timestamp,
+            issuer: _issuer,
+            debtorName: _debtorName,
+            discountRate: _discountRate,
+            acknowledgedAt: 0
+        });
+
+        _safeMint(_issuer, tokenId);
+
+        emit InvoiceMinted(
+            tokenId,
+            _issuer,
+            _faceValue,
+            discountedValue,
+            _maturityDate,
+            _invoiceHash
+        );
+
+        return tokenId;
+    }
+
+    /**
+     * @dev Validate invoice terms, then reserve the invoice hash
+     */
+    function _reserveTerms(
+        address _debtor,
+        uint256 _faceValue,
+        uint256 _maturityDate,
+        bytes32 _invoiceHash,
+        uint256 _discountRate
+    ) internal {
+        require(_maturityDate > block.timestamp, "Maturity must be in future");
+        require(_faceValue > 0, "Face value must be positive");
+        require(_invoiceHash != bytes32(0), "Invalid invoice hash");
+        require(!usedInvoiceHashes[_invoiceHash], "Invoice already exists");
+        require(_discountRate > 0 && _discountRate <= 5000, "Discount rate must be 0-50%"); // Max 50% discount
+
+        require(debtors[debtorIds[_debtor]].isActive, "Debtor suspended");
+
+        usedInvoiceHashes[_invoiceHash] = true;
+    }
+
+    /**
+     * @dev Free the invoice hash reserved by an unverified invoice
+     */
+    function _releaseTerms(Invoice storage _invoice) internal {
+        usedInvoiceHashes[_invoice.invoiceHash] = false;
+    }
+
+    /**
+     * @dev Assign the next debtor ID and create the debtor's registry record
+     */
+    function _registerDebtor(address _debtor, string memory _name, uint256 _creditLimit)
+        internal
+        returns (uint256 debtorId)
+    {
+        debtorId = _nextDebtorId++;
+        DebtorRegistry.register(debtorIds, debtors, debtorId, _debtor, _name, _creditLimit);
+
+        emit DebtorRegistered(debtorId, _debtor, _name, _creditLimit, block.timestamp);
+    }
+
+    /**
+     * @dev Invoice the caller issued and still holds, before verification
+     */
+    function _unverifiedIssuerInvoice(uint256 _tokenId) internal view returns (Invoice storage invoice) {
+        require(_ownerOf(_tokenId) == msg.sender, "Caller does not hold invoice");
+        invoice = invoices[_tokenId];
+        require(msg.sender == invoice.issuer, "Caller is not the issuer");
+        require(
+            invoice.status == InvoiceStatus.PENDING ||
+            invoice.status == InvoiceStatus.ACKNOWLEDGED,
+            "Invoice already verified"
+        );
+    }
+
+    /**
+     * @dev Move a VERIFIED invoice to FUNDED
+     */
+    function _markFunded(Invoice storage _invoice, uint256 _tokenId) internal {
+        _invoice.status = InvoiceStatus.FUNDED;
+        totalInvoicesFunded++;
+        totalValueFunded += _invoice.faceValue;
+
+        emit InvoiceFunded(_tokenId, msg.sender, block.timestamp);
+    }
+
+    /**
+     * @dev Move a PENDING invoice to ACKNOWLEDGED
+     */
+    function _acknowledgeInvoice(uint256 _tokenId) internal {
+        Invoice storage invoice = invoices[_tokenId];
+        require(invoice.status == InvoiceStatus.PENDING, "Invoice not in PENDING status");
+
+        invoice.status = InvoiceStatus.ACKNOWLEDGED;
+        invoice.acknowledgedAt = block.timestamp;
+
+        emit InvoiceAcknowledged(_tokenId, invoice.debtor, block.timestamp);
+    }
+
+    /**
+     * @dev Move a PENDING or ACKNOWLEDGED invoice to VERIFIED
+     */
+    function _verifyInvoice(uint256 _tokenId) internal {
+        require(_ownerOf(_tokenId) != address(0), "Invoice does not exist");
+        Invoice storage invoice = invoices[_tokenId];
+        require(
+            invoice.status == InvoiceStatus.PENDING ||
+            invoice.status == InvoiceStatus.ACKNOWLEDGED,
+            "Invoice not awaiting verification"
+        );
+        require(block.timestamp < invoice.maturityDate, "Invoice already matured");
+        DebtorRegistry.reserveCredit(debtors[debtorIds[invoice.debtor]], invoice.faceValue);
+
+        invoice.status = InvoiceStatus.VERIFIED;
+
+        emit InvoiceVerified(_tokenId, msg.sender, block.timestamp);
+    }
+
+    /**
+     * @dev Mark an unpaid invoice past its grace period as DEFAULTED
+     */
+    function _markAsDefaulted(uint256 _tokenId) internal {
+        require(_ownerOf(_tokenId) != address(0), "Invoice does not exist");
+
+        Invoice storage invoice = invoices[_tokenId];
+        uint256 amountUnpaid = InvoiceCollections.markDefaulted(invoice, gracePeriod);
+        totalDefaulted += amountUnpaid;
+
+        // Unpaid face value stays outstanding against the debtor's limit
+        debtors[debtorIds[invoice.debtor]].defaultedInvoices++;
+
+        // Holding vaults stop accruing the invoice's discount
+        address[] storage holders = _fractions.holders[_tokenId];
+        if (holders.length == 0) {
+            _notifyDefault(_tokenId, ownerOf(_tokenId));
+        }
+        for (uint256 i = 0; i < holders.length; i++) {
+            _notifyDefault(_tokenId, holders[i]);
+        }
+
+        emit InvoiceDefaulted(_tokenId, block.timestamp, amountUnpaid);
+    }
+
+    /**
+     * @dev Close a DEFAULTED invoice as WRITTEN_OFF
+     */
+    function _writeOffInvoice(uint256 _tokenId) internal {
+        require(_ownerOf(_tokenId) != address(0), "Invoice does not exist");
+
+        uint256 amountUnpaid = InvoiceCollections.writeOff(
+            invoices[_tokenId],
+            collections[_tokenId],
+            lateFeeBpsPerDay
+        );
+
+        emit InvoiceWrittenOff(_tokenId, amountUnpaid, block.timestamp);
+    }
+
+    /**
+     * @dev Update paid amount and status for a payment
+     * @notice Payments repay face value before late fees; payments on a
+     *         DEFAULTED invoice are recorded as recoveries, and a PAID invoice
+     *         only accepts its outstanding late fees
+     */
+    function _applyPayment(uint256 _tokenId, uint256 _amount) internal {
+        require(_ownerOf(_tokenId) != address(0), "Invoice does not exist");
+
+        Invoice storage invoice = invoices[_tokenId];
+        Collection storage collection = collections[_tokenId];
+        InvoiceStatus status = invoice.status;
+
+        InvoiceStatus newStatus = InvoiceCollections.applyPayment(
+            invoice,
+            collection,
+            debtors[debtorIds[invoice.debtor]],
+            _amount,
+            lateFeeBpsPerDay
+        );
+        totalValuePaid += _amount;
+
+        // Allocate the payment across fraction holders
+        if (_fractions.holders[_tokenId].length > 0) {
+            InvoiceFractions.allocate(_fractions, _tokenId, _amount);
+        }
+
+        if (status == InvoiceStatus.DEFAULTED) {
+            emit RecoveryReceived(_tokenId, _amount, collection.recovered);
+        }
+
+        emit InvoiceRepaid(_tokenId, _amount, invoice.paidAmount, newStatus);
+    }
+
+    /**
+     * @dev Forward a repayment from the payer to a vault and let it book the cash
+     */
+    function _payHolder(uint256 _tokenId, address _vault, uint256 _amount) internal {
+        // An issuer holds the fractions it merged back (see mergeUnfundedFractions)
+        bool isVault = hasRole(VAULT_ROLE, _vault);
+        require(isVault || _vault == invoices[_tokenId].issuer, "Invoice not held by a vault");
+        if (_amount == 0) return;
+
+        paymentToken.safeTransferFrom(msg.sender, _vault, _amount);
+        if (isVault) IInvoicePaymentReceiver(_vault).onInvoicePayment(_tokenId, _amount);
+
+        emit InvoicePaymentReceived(_tokenId, msg.sender, _vault, _amount);
+    }
+
+    /**
+     * @dev Tell a holding vault an invoice defaulted (other holders are skipped)
+     */
+    function _notifyDefault(uint256 _tokenId, address _holder) internal {
+        if (hasRole(VAULT_ROLE, _holder)) {
+            IInvoicePaymentReceiver(_holder).onInvoiceDefault(_tokenId);
+        }
+    }
+
     // Override functions required by Solidity
 
+    /**
+     * @dev Base64 JSON metadata built from the invoice (see InvoiceMetadata)
+     * @notice The stored token URI, if any, is the linked invoice document
+     */
     function tokenURI(uint256 tokenId)
         public
         view
         override(ERC721, ERC721URIStorage)
         returns (string memory)
     {
-        return super.tokenURI(tokenId);
+        _requireOwned(tokenId);
+
+        uint8 decimals = address(paymentToken) == address(0)
+            ? 6
+            : IERC20Metadata(address(paymentToken)).decimals();
+
+        return InvoiceMetadata.tokenURI(invoices[tokenId], decimals, super.tokenURI(tokenId));
     }
 
     function supportsInterface(bytes4 interfaceId)
@@ -0,0 +1,527 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "./InvoiceNFT.sol";
+import "./TrancheVault.sol";
+
+/**
+ * @title InvoicePortfolio
+ * @dev Invoice purchase checks and portfolio analytics for TrancheVault
+ * @notice Reads the invoice from InvoiceNFT, checks it can be bought and prices the
+ *         vault's position (the whole invoice or its fraction), and values the
+ *         discount accruing on the portfolio. The book keeps the active invoices, their
+ *         value-weighted yield and duration, and the rate at which they accrue discount
+ *         up to date as invoices are added, repaid, defaulted and removed, so NAV and
+ *         portfolio views never walk the invoices. Each invoice accrues its discount
+ *         linearly until the end of its maturity day; the book checkpoints the accrual
+ *         and drops the rate of invoices whose accrual ended, one day at a time.
+ *         It also carries the principal the vault has in each debtor, issuer and
+ *         maturity bucket, checked against the concentration limits on purchase.
+ *         Deployed as a linked library to keep TrancheVault under the contract size limit.
+ */
+library InvoicePortfolio {
+
+    // Accrual rates are kept per second, scaled up to keep the division exact enough
+    uint256 internal constant ACCRUAL_PRECISION = 1e18;
+
+    // Invoices stop accruing at the end of their maturity day
+    uint256 internal constant ACCRUAL_PERIOD = 1 days;
+
+    // Width of the maturity buckets concentration is measured in
+    uint256 internal constant MATURITY_BUCKET = 30 days;
+
+    struct Book {
+        uint256[] activeIds;                   // Invoices still carried, in no particular order
+        mapping(uint256 => uint256) position;  // Index in activeIds plus one (0 = not active)
+        uint256 expectedYield;                 // Discount (face value - price) of active invoices
+        uint256 weightedDuration;              // Face value x holding period, summed over active invoices
+        uint256 accrualRate;                   // Discount accrued per second by accruing invoices (scaled)
+        uint256 discountAccrued;               // Discount accrued by accruing invoices up to lastAccrual (scaled)
+        uint256 discountReceived;              // Yield already received on accruing invoices
+        uint256 lastAccrual;
+        mapping(uint256 => uint256) rateEnding; // Accrual end => rate of the invoices that stop accruing then
+        // Concentration limits in basis points of NAV (0 = no limit)
+        uint256 maxDebtorConcentration;
+        uint256 maxIssuerConcentration;
+        uint256 maxMaturityBucketConcentration;
+        // Principal carried per debtor, issuer and 30-day maturity bucket
+        mapping(address => uint256) debtorExposure;
+        mapping(address => uint256) issuerExposure;
+        mapping(uint256 => uint256) maturityBucketExposure;
+    }
+
+    /**
+     * @dev Check an invoice can be bought and book the vault's allocation for it
+     * @param b Active invoice book
+     * @param _invoiceNFT Invoice registry
+     * @param _invoiceId Invoice token ID
+     * @param _requireAcknowledgement Whether the debtor must have acknowledged the invoice
+     * @param _asset Vault asset (must be the invoice payment token)
+     * @param allocation Storage slot of the new allocation
+     */
+    function open(
+        Book storage b,
+        InvoiceNFT _invoiceNFT,
+        uint256 _invoiceId,
+        bool _requireAcknowledgement,
+        address _asset,
+        TrancheVault.InvoiceAllocation storage allocation
+    ) external {
+        InvoiceNFT.Invoice memory invoice = _invoiceNFT.getInvoice(_invoiceId);
+        require(
+            invoice.status == InvoiceNFT.InvoiceStatus.VERIFIED,
+            "Invoice not verified"
+        );
+        require(!_requireAcknowledgement || invoice.acknowledgedAt != 0, "Invoice not acknowledged by debtor");
+        require(invoice.maturityDate > block.timestamp, "Invoice already matured");
+
+        // A fractionalized invoice stays escrowed in InvoiceNFT; the vault buys only its fraction
+        bool fractional = _invoiceNFT.isFractionalized(_invoiceId);
+        require(
+            _invoiceNFT.ownerOf(_invoiceId) == (fractional ? address(_invoiceNFT) : invoice.issuer),
+            "Issuer no longer holds invoice"
+        );
+        require(address(_invoiceNFT.paymentToken()) == _asset, "Vault asset is not the payment token");
+
+        (uint256 faceValue, uint256 purchasePrice, ) = _invoiceNFT.getPosition(_invoiceId, address(this));
+        require(purchasePrice > 0, "Vault holds no fraction of invoice");
+
+        allocation.invoiceId = _invoiceId;
+        allocation.faceValue = faceValue;
+        allocation.purchasePrice = purchasePrice;
+        allocation.addedAt = block.timestamp;
+        allocation.isActive = true;
+        allocation.maturityDate = invoice.maturityDate;
+        allocation.issuer = invoice.issuer;
+        allocation.debtor = invoice.debtor;
+
+        b.activeIds.push(_invoiceId);
+        b.position[_invoiceId] = b.activeIds.length;
+        b.expectedYield += faceValue - purchasePrice;
+        b.weightedDuration += faceValue * (invoice.maturityDate - block.timestamp);
+        b.debtorExposure[invoice.debtor] += purchasePrice;
+        b.issuerExposure[invoice.issuer] += purchasePrice;
+        b.maturityBucketExposure[invoice.maturityDate / MATURITY_BUCKET] += purchasePrice;
+
+        // Start accruing the discount until the end of the maturity day
+        checkpoint(b);
+        uint256 accrualEnd = ((invoice.maturityDate + ACCRUAL_PERIOD - 1) / ACCRUAL_PERIOD) * ACCRUAL_PERIOD;
+        uint256 rate = ((faceValue - purchasePrice) * ACCRUAL_PRECISION) / (accrualEnd - block.timestamp);
+        allocation.accruing = true;
+        allocation.accrualRate = rate;
+        allocation.accrualEnd = accrualEnd;
+        b.accrualRate += rate;
+        b.rateEnding[accrualEnd] += rate;
+    }
+
+    /**
+     * @dev Take an invoice off the active book
+     * @param _allocation Allocation of the invoice leaving the portfolio
+     */
+    function close(Book storage b, TrancheVault.InvoiceAllocation storage _allocation) external {
+        _stopAccrual(b, _allocation);
+
+        uint256 invoiceId = _allocation.invoiceId;
+        uint256 index = b.position[invoiceId] - 1;
+        uint256 lastId = b.activeIds[b.activeIds.length - 1];
+
+        // Swap and pop so removal stays O(1)
+        b.activeIds[index] = lastId;
+        b.position[lastId] = index + 1;
+        b.activeIds.pop();
+        delete b.position[invoiceId];
+
+        b.expectedYield -= _allocation.faceValue - _allocation.purchasePrice;
+        b.weightedDuration -= _allocation.faceValue * (_allocation.maturityDate - _allocation.addedAt);
+    }
+
+    /**
+     * @dev Check a purchase booked by open against the vault's liquidity and concentration limits
+     * @param _allocation Allocation of the invoice being bought
+     * @param _cash Cash available to the vault
+     * @param _minIdleCash Cash that must remain idle for redemptions after the purchase
+     * @param _nav Vault NAV the limits are measured against
+     */
+    function checkLimits(
+        Book storage b,
+        TrancheVault.InvoiceAllocation storage _allocation,
+        uint256 _cash,
+        uint256 _minIdleCash,
+        uint256 _nav
+    ) external view {
+        uint256 purchasePrice = _allocation.purchasePrice;
+        require(_cash >= purchasePrice, "Insufficient vault liquidity");
+        require(_cash - purchasePrice >= _minIdleCash, "Idle cash buffer breached");
+
+        // open has already added the purchase to the exposures
+        require(
+            _withinLimit(_nav, b.maxDebtorConcentration, b.debtorExposure[_allocation.debtor]),
+            "Debtor concentration limit exceeded"
+        );
+        require(
+            _withinLimit(_nav, b.maxIssuerConcentration, b.issuerExposure[_allocation.issuer]),
+            "Issuer concentration limit exceeded"
+        );
+        require(
+            _withinLimit(
+                _nav,
+                b.maxMaturityBucketConcentration,
+                b.maturityBucketExposure[_allocation.maturityDate / MATURITY_BUCKET]
+            ),
+            "Maturity concentration limit exceeded"
+        );
+    }
+
+    /**
+     * @dev Principal that can still be added before each concentration limit is hit
+     * @param _nav Vault NAV the limits are measured against
+     * @return debtorHeadroom Remaining capacity for the debtor (max uint if unlimited)
+     * @return issuerHeadroom Remaining capacity for the issuer (max uint if unlimited)
+     * @return bucketHeadroom Remaining capacity for the maturity bucket (max uint if unlimited)
+     */
+    function headroom(Book storage b, uint256 _nav, address _debtor, address _issuer, uint256 _maturityDate)
+        external
+        view
+        returns (uint256 debtorHeadroom, uint256 issuerHeadroom, uint256 bucketHeadroom)
+    {
+        debtorHeadroom = _headroom(_nav, b.maxDebtorConcentration, b.debtorExposure[_debtor]);
+        issuerHeadroom = _headroom(_nav, b.maxIssuerConcentration, b.issuerExposure[_issuer]);
+        bucketHeadroom = _headroom(
+            _nav,
+            b.maxMaturityBucketConcentration,
+            b.maturityBucketExposure[_maturityDate / MATURITY_BUCKET]
+        );
+    }
+
+    /**
+     * @dev Set the concentration limits checked when invoices are bought
+     */
+    function setConcentrationLimits(Book storage b, uint256 _maxDebtor, uint256 _maxIssuer, uint256 _maxMaturityBucket)
+        external
+    {
+        require(
+            _maxDebtor <= 10000 && _maxIssuer <= 10000 && _maxMaturityBucket <= 10000,
+            "Invalid concentration limit"
+        );
+
+        b.maxDebtorConcentration = _maxDebtor;
+        b.maxIssuerConcentration = _maxIssuer;
+        b.maxMaturityBucketConcentration = _maxMaturityBucket;
+    }
+
+    /**
+     * @dev Split a repayment and book it on the allocation
+     * @notice Payments repay principal first, then recover written-off principal;
+     *         anything beyond that (discount, late fees) is yield. The payment that
+     *         repays the invoice in full closes its holding period, and before
+     *         maturity part of the unearned discount is rebated out of its yield.
+     *         That payment also stops the invoice accruing discount.
+     * @param _amount Amount paid to the vault
+     * @param _rebateBps Share of the unearned discount rebated on early repayment
+     * @return principalAmount Principal repaid
+     * @return recoveryAmount Written-off principal recovered
+     * @return yieldAmount Yield left after the rebate
+     * @return rebate Early repayment rebate owed
+     * @return repaidInFull Whether this payment repaid the invoice in full
+     */
+    function applyPayment(
+        Book storage b,
+        InvoiceNFT _invoiceNFT,
+        TrancheVault.InvoiceAllocation storage _allocation,
+        uint256 _amount,
+        uint256 _rebateBps
+    ) external returns (
+        uint256 principalAmount,
+        uint256 recoveryAmount,
+        uint256 yieldAmount,
+        uint256 rebate,
+        bool repaidInFull
+    ) {
+        uint256 principalOutstanding = _allocation.isActive ?
+            _allocation.purchasePrice - _allocation.principalRepaid - _allocation.writtenOff : 0;
+        principalAmount = _amount < principalOutstanding ? _amount : principalOutstanding;
+        yieldAmount = _amount - principalAmount;
+
+        uint256 unrecovered = _allocation.writtenOff > _allocation.recovered ?
+            _allocation.writtenOff - _allocation.recovered : 0;
+        recoveryAmount = yieldAmount < unrecovered ? yieldAmount : unrecovered;
+        yieldAmount -= recoveryAmount;
+
+        _allocation.principalRepaid += principalAmount;
+        _reduceExposure(b, _allocation, principalAmount);
+
+        // Payments recorded off-chain can mark the invoice PAID before the cash arrives
+        repaidInFull = _allocation.isActive &&
+            _allocation.repaidAt == 0 &&
+            principalOutstanding == principalAmount &&
+            _invoiceNFT.getInvoiceStatus(_allocation.invoiceId) == InvoiceNFT.InvoiceStatus.PAID;
+        if (repaidInFull) {
+            rebate = _earlyRepaymentRebate(_allocation, _rebateBps, yieldAmount);
+            _allocation.rebatePaid = rebate;
+            _allocation.repaidAt = block.timestamp;
+            yieldAmount -= rebate;
+        }
+
+        _allocation.yieldReceived += yieldAmount;
+        if (_allocation.accruing) {
+            b.discountReceived += yieldAmount;
+        }
+        if (repaidInFull) {
+            _stopAccrual(b, _allocation);
+        }
+    }
+
+    /**
+     * @dev Stop an invoice accruing discount, e.g. once it has defaulted
+     * @notice Does nothing if the invoice is not accruing (or not held)
+     */
+    function stopAccrual(Book storage b, TrancheVault.InvoiceAllocation storage _allocation) external {
+        _stopAccrual(b, _allocation);
+    }
+
+    /**
+     * @dev Write off principal of an allocation and release its concentration exposure
+     */
+    function writeOff(Book storage b, TrancheVault.InvoiceAllocation storage _allocation, uint256 _lossAmount)
+        external
+    {
+        _allocation.writtenOff += _lossAmount;
+        _reduceExposure(b, _allocation, _lossAmount);
+    }
+
+    /**
+     * @dev Book the discount accrued since the last checkpoint and drop the rate of
+     *      invoices whose accrual has ended
+     */
+    function checkpoint(Book storage b) public {
+        (b.accrualRate, b.discountAccrued) = _project(b);
+        b.lastAccrual = block.timestamp;
+    }
+
+    /**
+     * @dev Check an invoice is finished and can leave the book
+     * @notice Principal still carried is a loss. Beyond defaulted principal that is
+     *         principal recorded as repaid in InvoiceNFT (e.g. off-chain) that never
+     *         reached the vault; only the owner may write that off.
+     * @param _writeOffShortfall Whether principal not received in cash may be written off
+     * @return status Invoice status (PAID, DEFAULTED or WRITTEN_OFF)
+     * @return loss Principal still carried, to be written off first
+     */
+    function closing(
+        InvoiceNFT _invoiceNFT,
+        TrancheVault.InvoiceAllocation storage _allocation,
+        bool _writeOffShortfall
+    ) external view returns (InvoiceNFT.InvoiceStatus status, uint256 loss) {
+        status = _invoiceNFT.getInvoiceStatus(_allocation.invoiceId);
+        require(
+            status == InvoiceNFT.InvoiceStatus.PAID ||
+            status == InvoiceNFT.InvoiceStatus.DEFAULTED ||
+            status == InvoiceNFT.InvoiceStatus.WRITTEN_OFF,
+            "Invoice not paid or defaulted"
+        );
+
+        loss = _allocation.purchasePrice - _allocation.principalRepaid - _allocation.writtenOff;
+        require(_writeOffShortfall || loss <= writeOffable(_invoiceNFT, _allocation), "Principal not received");
+    }
+
+    /**
+     * @dev Check cash paid to the vault for an invoice outside InvoiceNFT.payInvoice
+     * @notice Capped at the payments InvoiceNFT has recorded for the vault's position
+     *         (e.g. off-chain with recordPayment) that the vault has not received in
+     *         cash yet. Recourse escrows may also pay written-off invoices, which no
+     *         longer record payments. Runs in the vault's context, so msg.sender is
+     *         the payer.
+     * @param _amount Cash being paid
+     */
+    function checkCollection(
+        InvoiceNFT _invoiceNFT,
+        TrancheVault.InvoiceAllocation storage _allocation,
+        uint256 _amount
+    ) external view {
+        require(_allocation.addedAt > 0, "Invoice not in vault");
+
+        (, , uint256 paidAmount) = _invoiceNFT.getPosition(_allocation.invoiceId, address(this));
+        uint256 collected = _allocation.principalRepaid + _allocation.recovered +
+            _allocation.yieldReceived + _allocation.rebatePaid;
+        require(
+            (paidAmount > collected && _amount <= paidAmount - collected) ||
+            _invoiceNFT.hasRole(_invoiceNFT.RECOURSE_ROLE(), msg.sender),
+            "Payment exceeds amount recorded"
+        );
+    }
+
+    /**
+     * @dev Principal of a defaulted invoice that has not been repaid or written off yet
+     * @return Amount that can still be written off (0 unless the invoice is DEFAULTED or WRITTEN_OFF)
+     */
+    function writeOffable(InvoiceNFT _invoiceNFT, TrancheVault.InvoiceAllocation storage _allocation)
+        public
+        view
+        returns (uint256)
+    {
+        InvoiceNFT.InvoiceStatus status = _invoiceNFT.getInvoiceStatus(_allocation.invoiceId);
+        if (status != InvoiceNFT.InvoiceStatus.DEFAULTED && status != InvoiceNFT.InvoiceStatus.WRITTEN_OFF) return 0;
+
+        // Payments are applied to principal first (only the vault's share if fractionalized)
+        (, , uint256 paidAmount) = _invoiceNFT.getPosition(_allocation.invoiceId, address(this));
+        uint256 unpaidPrincipal = _allocation.purchasePrice > paidAmount ? _allocation.purchasePrice - paidAmount : 0;
+
+        return unpaidPrincipal > _allocation.writtenOff ? unpaidPrincipal - _allocation.writtenOff : 0;
+    }
+
+    /**
+     * @dev Discount accrued but not yet received in cash across accruing invoices
+     * @notice Yield received ahead of an invoice's accrual schedule offsets discount
+     *         still accruing elsewhere in the portfolio
+     */
+    function accruedDiscount(Book storage b) external view returns (uint256) {
+        (, uint256 accrued) = _project(b);
+        accrued /= ACCRUAL_PRECISION;
+        return accrued > b.discountReceived ? accrued - b.discountReceived : 0;
+    }
+
+    /**
+     * @dev Accrued, not yet received discount on a single allocation
+     * @notice Accrues linearly from purchase to the end of the maturity day until the
+     *         invoice is repaid in full, defaults or leaves the book
+     */
+    function accrual(TrancheVault.InvoiceAllocation storage _allocation) external view returns (uint256) {
+        if (!_allocation.accruing) return 0;
+
+        uint256 end = block.timestamp < _allocation.accrualEnd ? block.timestamp : _allocation.accrualEnd;
+        uint256 accrued = (_allocation.accrualRate * (end - _allocation.addedAt)) / ACCRUAL_PRECISION;
+        return accrued > _allocation.yieldReceived ? accrued - _allocation.yieldReceived : 0;
+    }
+
+    /**
+     * @dev Annualized rate at which the portfolio is accruing discount right now
+     * @param _deployedPrincipal Principal the vault carries on its book
+     * @return Accrual APY in basis points, relative to deployed principal
+     */
+    function accrualAPY(Book storage b, uint256 _deployedPrincipal) external view returns (uint256) {
+        if (_deployedPrincipal == 0) return 0;
+
+        (uint256 rate, ) = _project(b);
+        return (rate * 365 days * 10000) / (ACCRUAL_PRECISION * _deployedPrincipal);
+    }
+
+    /**
+     * @dev Expected APY of the active invoices
+     * @notice Total discount over total face value, annualized over the value-weighted
+     *         average holding period: (yield / value) x (365 days / (weightedDuration / value))
+     * @return Expected APY in basis points
+     */
+    function expectedAPY(Book storage b) internal view returns (uint256) {
+        if (b.weightedDuration == 0) return 0;
+
+        return (b.expectedYield * 365 days * 10000) / b.weightedDuration;
+    }
+
+    /**
+     * @dev Page of an invoice ID list
+     * @param _ids Invoice IDs to page through
+     * @param _offset Index of the first ID to return
+     * @param _limit Maximum number of IDs to return
+     * @return page IDs from _offset, at most _limit of them
+     * @return total Length of the whole list
+     */
+    function paginate(uint256[] storage _ids, uint256 _offset, uint256 _limit)
+        external
+        view
+        returns (uint256[] memory page, uint256 total)
+    {
+        total = _ids.length;
+        if (_offset >= total) return (new uint256[](0), total);
+
+        uint256 count = total - _offset < _limit ? total - _offset : _limit;
+        page = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) {
+            page[i] = _ids[_offset + i];
+        }
+    }
+
+    /**
+     * @dev Unearned discount handed back when an invoice is repaid in full before maturity
+     * @param _yieldAmount Yield carried by the final payment; the rebate is capped at it
+     */
+    function _earlyRepaymentRebate(
+        TrancheVault.InvoiceAllocation storage _allocation,
+        uint256 _rebateBps,
+        uint256 _yieldAmount
+    ) private view returns (uint256 rebate) {
+        if (_rebateBps == 0 || block.timestamp >= _allocation.maturityDate) return 0;
+
+        // Discount for the part of the term the capital was not outstanding
+        uint256 unearned = ((_allocation.faceValue - _allocation.purchasePrice) *
+            (_allocation.maturityDate - block.timestamp)) /
+            (_allocation.maturityDate - _allocation.addedAt);
+        rebate = (unearned * _rebateBps) / 10000;
+        if (rebate > _yieldAmount) rebate = _yieldAmount;
+    }
+
+    /**
+     * @dev Release concentration exposure as an invoice's principal comes off the book
+     */
+    function _reduceExposure(Book storage b, TrancheVault.InvoiceAllocation storage _allocation, uint256 _amount)
+        private
+    {
+        b.debtorExposure[_allocation.debtor] -= _amount;
+        b.issuerExposure[_allocation.issuer] -= _amount;
+        b.maturityBucketExposure[_allocation.maturityDate / MATURITY_BUCKET] -= _amount;
+    }
+
+    /**
+     * @dev Capacity left under a basis-point limit of NAV
+     */
+    function _headroom(uint256 _nav, uint256 _limitBps, uint256 _exposure) private pure returns (uint256) {
+        if (_limitBps == 0) return type(uint256).max;
+
+        uint256 cap = (_nav * _limitBps) / 10000;
+        return cap > _exposure ? cap - _exposure : 0;
+    }
+
+    /**
+     * @dev Whether an exposure is within a basis-point limit of NAV
+     */
+    function _withinLimit(uint256 _nav, uint256 _limitBps, uint256 _exposure) private pure returns (bool) {
+        return _limitBps == 0 || _exposure <= (_nav * _limitBps) / 10000;
+    }
+
+    /**
+     * @dev Take an accruing invoice's rate, accrued discount and received yield off the book
+     */
+    function _stopAccrual(Book storage b, TrancheVault.InvoiceAllocation storage _allocation) private {
+        if (!_allocation.accruing) return;
+        checkpoint(b);
+
+        uint256 end = _allocation.accrualEnd;
+        if (block.timestamp < end) {
+            b.accrualRate -= _allocation.accrualRate;
+            b.rateEnding[end] -= _allocation.accrualRate;
+            end = block.timestamp;
+        }
+        b.discountAccrued -= _allocation.accrualRate * (end - _allocation.addedAt);
+        b.discountReceived -= _allocation.yieldReceived;
+        _allocation.accruing = false;
+    }
+
+    /**
+     * @dev Accrual rate and scaled accrued discount as of now
+     * @notice Walks the days since the last checkpoint (not the invoices), dropping
+     *         the rate of invoices whose accrual ended on each of them
+     */
+    function _project(Book storage b) private view returns (uint256 rate, uint256 accrued) {
+        rate = b.accrualRate;
+        accrued = b.discountAccrued;
+
+        uint256 from = b.lastAccrual;
+        uint256 boundary = (from / ACCRUAL_PERIOD + 1) * ACCRUAL_PERIOD;
+        while (rate > 0 && boundary <= block.timestamp) {
+            accrued += rate * (boundary - from);
+            rate -= b.rateEnding[boundary];
+            from = boundary;
+            boundary += ACCRUAL_PERIOD;
+        }
+        accrued += rate * (block.timestamp - from);
+    }
+}
@@ -3,11 +3,14 @@ pragma solidity ^0.8.24;
 
 import "@openzeppelin/contracts/access/AccessControl.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/interfaces/IERC4626.sol";
+import "./ZKKYCVerifier.sol";
 
 /**
  * @title KYCGate
  * @dev Compliance layer for KYC verification and access control
- * @notice Manages user verification, country restrictions, and risk scoring
+ * @notice Manages user verification, country restrictions, and risk scoring.
+ *         Vaults may also accept ZK-KYC proofs from ZKKYCVerifier instead of a KYC record.
  */
 contract KYCGate is AccessControl, ReentrancyGuard {
 
@@ -23,13 +26,28 @@ contract KYCGate is AccessControl, ReentrancyGuard {
         uint8 tier;             // KYC tier level (1-3, higher = more verified)
     }
 
+    // Eligibility rules a vault applies on top of basic verification
+    struct VaultPolicy {
+        uint8 minTier;              // Minimum KYC tier (0 = any verified user)
+        bool excludeHighRisk;       // Reject users from highRiskCountries
+        uint8 maxRiskScore;         // Vault-specific risk ceiling (0 = global threshold only)
+        uint8 zkProofTier;          // Tier credited to ZK-KYC proofs (0 = proofs not accepted)
+    }
+
     // User KYC data
     mapping(address => KYCData) public kycData;
 
+    // Vault eligibility policies, keyed by the vault that set them
+    mapping(address => VaultPolicy) public vaultPolicies;
+    mapping(address => mapping(uint8 => uint256)) public tierDepositLimits;  // vault => tier => max position (0 = unlimited)
+
     // Country and risk management
     mapping(bytes32 => bool) public blockedCountries;
     mapping(bytes32 => bool) public highRiskCountries;
 
+    // Privacy-preserving alternative to KYC records
+    ZKKYCVerifier public zkKYCVerifier;
+
     // Global settings
     uint8 public maxAcceptableRiskScore = 70;
     uint256 public defaultExpiryDuration = 365 days;
@@ -64,6 +82,18 @@ contract KYCGate is AccessControl, ReentrancyGuard {
 
     event RiskScoreThresholdUpdated(uint8 oldThreshold, uint8 newThreshold);
 
+    event VaultPolicyUpdated(
+        address indexed vault,
+        uint8 minTier,
+        bool excludeHighRisk,
+        uint8 maxRiskScore,
+        uint8 zkProofTier
+    );
+
+    event ZKKYCVerifierUpdated(address oldVerifier, address newVerifier);
+
+    event TierDepositLimitUpdated(address indexed vault, uint8 tier, uint256 limit);
+
     constructor() {
         _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
         _grantRole(KYC_PROVIDER_ROLE, msg.sender);
@@ -177,7 +207,7 @@ contract KYCGate is AccessControl, ReentrancyGuard {
      * @param _user Address to check
      * @return bool True if user is verified and not expired
      */
-    function isVerified(address _user) external view returns (bool) {
+    function isVerified(address _user) public view returns (bool) {
         if (!kycRequired) return true;
 
         KYCData memory data = kycData[_user];
@@ -201,6 +231,184 @@ contract KYCGate is AccessControl, ReentrancyGuard {
                data.tier >= _minTier;
     }
 
+    /**
+     * @dev Set the eligibility policy for the calling vault
+     * @param _minTier Minimum KYC tier (0-3)
+     * @param _excludeHighRisk Whether users from high-risk countries are rejected
+     * @param _maxRiskScore Maximum risk score (0 = use the global threshold)
+     * @param _zkProofTier Tier credited to holders of a valid ZK-KYC proof (0 = not accepted)
+     */
+    function setVaultPolicy(
+        uint8 _minTier,
+        bool _excludeHighRisk,
+        uint8 _maxRiskScore,
+        uint8 _zkProofTier
+    ) external {
+        require(_minTier <= 3 && _zkProofTier <= 3, "Tier must be 0-3");
+        require(_maxRiskScore <= 100, "Risk score must be 0-100");
+
+        vaultPolicies[msg.sender] = VaultPolicy({
+            minTier: _minTier,
+            excludeHighRisk: _excludeHighRisk,
+            maxRiskScore: _maxRiskScore,
+            zkProofTier: _zkProofTier
+        });
+
+        emit VaultPolicyUpdated(msg.sender, _minTier, _excludeHighRisk, _maxRiskScore, _zkProofTier);
+    }
+
+    /**
+     * @dev Set the maximum position a tier may hold in the calling vault
+     * @param _tier KYC tier (1-3)
+     * @param _limit Maximum position in vault assets (0 = unlimited)
+     */
+    function setTierDepositLimit(uint8 _tier, uint256 _limit) external {
+        require(_tier >= 1 && _tier <= 3, "Tier must be 1-3");
+        tierDepositLimits[msg.sender][_tier] = _limit;
+
+        emit TierDepositLimitUpdated(msg.sender, _tier, _limit);
+    }
+
+    /**
+     * @dev Check a user against a vault's eligibility policy
+     * @notice A KYC record is evaluated first; if it fails and the vault accepts ZK-KYC,
+     *         a valid proof from a trusted provider qualifies at the vault's zkProofTier
+     * @param _vault Vault whose policy applies
+     * @param _user Address to check
+     * @return eligible True if the user may hold the vault's shares
+     * @return reason Why the user is not eligible (empty if eligible)
+     */
+    function checkEligibility(address _vault, address _user)
+        public
+        view
+        returns (bool eligible, string memory reason)
+    {
+        if (!kycRequired) return (true, "");
+
+        VaultPolicy memory policy = vaultPolicies[_vault];
+        (eligible, reason) = _checkKYCRecord(_user, policy);
+        if (eligible) return (true, "");
+
+        if (policy.zkProofTier > 0 && hasValidZKProof(_user)) {
+            if (policy.zkProofTier < policy.minTier) {
+                return (false, "ZK proof tier below vault minimum");
+            }
+            return (true, "");
+        }
+    }
+
+    /**
+     * @dev Revert with the reason a user fails a vault's eligibility policy
+     * @param _vault Vault whose policy applies
+     * @param _user Address to check
+     */
+    function requireEligible(address _vault, address _user) external view {
+        (bool eligible, string memory reason) = checkEligibility(_vault, _user);
+        require(eligible, reason);
+    }
+
+    /**
+     * @dev Basic compliance for a vault: a valid KYC record, or a ZK proof if the vault accepts them
+     * @notice Unlike checkEligibility this ignores tier, country and risk policy, so
+     *         existing holders can always exit
+     */
+    function isCompliant(address _vault, address _user) public view returns (bool) {
+        if (isVerified(_user)) return true;
+        return vaultPolicies[_vault].zkProofTier > 0 && hasValidZKProof(_user);
+    }
+
+    /**
+     * @dev Revert unless the owner and controller of a redemption request on the calling vault are compliant
+     * @notice Shares go into redemption escrow under basic compliance only, so holders
+     *         a tightened vault policy no longer admits can still exit
+     */
+    function checkRedeemRequest(address _owner, address _controller) external view {
+        require(isCompliant(msg.sender, _owner), "Owner not KYC verified");
+        require(isCompliant(msg.sender, _controller), "Controller not KYC verified");
+    }
+
+    /**
+     * @dev Check if user holds an unexpired ZK-KYC proof from a still-trusted provider
+     */
+    function hasValidZKProof(address _user) public view returns (bool) {
+        if (address(zkKYCVerifier) == address(0)) return false;
+
+        ZKKYCVerifier.ZKProof memory proof = zkKYCVerifier.getZKProof(_user);
+        return proof.isValid &&
+               proof.expiresAt > block.timestamp &&
+               zkKYCVerifier.isProviderTrusted(proof.providerHash);
+    }
+
+    /**
+     * @dev Check if user satisfies a vault's eligibility policy
+     */
+    function isEligible(address _vault, address _user) external view returns (bool eligible) {
+        (eligible, ) = checkEligibility(_vault, _user);
+    }
+
+    /**
+     * @dev Maximum position a user may hold in a vault based on their tier
+     * @notice ZK-verified users without a KYC record are limited at the vault's zkProofTier
+     * @return Limit in vault assets (0 = unlimited)
+     */
+    function getDepositLimit(address _vault, address _user) public view returns (uint256) {
+        uint8 tier = kycData[_user].tier;
+        if (!isVerified(_user) && hasValidZKProof(_user)) {
+            tier = vaultPolicies[_vault].zkProofTier;
+        }
+        return tierDepositLimits[_vault][tier];
+    }
+
+    /**
+     * @dev Revert if a holder's position in the calling vault exceeds their tier limit
+     * @notice The position is only valued (through the vault's convertToAssets) when a limit applies
+     * @param _user Position holder
+     * @param _shares Vault shares the holder ends up with
+     */
+    function checkDepositLimit(address _user, uint256 _shares) external view {
+        uint256 limit = getDepositLimit(msg.sender, _user);
+        require(
+            limit == 0 || IERC4626(msg.sender).convertToAssets(_shares) <= limit,
+            "Exceeds tier deposit limit"
+        );
+    }
+
+    /**
+     * @dev Set the ZK-KYC verifier whose proofs vaults may accept
+     * @param _zkKYCVerifier ZKKYCVerifier address (zero to disable ZK-KYC)
+     */
+    function setZKKYCVerifier(address _zkKYCVerifier) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        address oldVerifier = address(zkKYCVerifier);
+        zkKYCVerifier = ZKKYCVerifier(_zkKYCVerifier);
+
+        emit ZKKYCVerifierUpdated(oldVerifier, _zkKYCVerifier);
+    }
+
+    /**
+     * @dev Evaluate a user's KYC record against a vault policy
+     */
+    function _checkKYCRecord(address _user, VaultPolicy memory _policy)
+        internal
+        view
+        returns (bool, string memory)
+    {
+        KYCData storage data = kycData[_user];
+
+        if (!data.isVerified) return (false, "Not KYC verified");
+        if (data.expiresAt <= block.timestamp) return (false, "KYC expired");
+        if (data.riskScore > maxAcceptableRiskScore) return (false, "Risk score too high");
+        if (blockedCountries[data.countryHash]) return (false, "Country is sanctioned");
+        if (data.tier < _policy.minTier) return (false, "KYC tier below vault minimum");
+        if (_policy.excludeHighRisk && highRiskCountries[data.countryHash]) {
+            return (false, "High-risk country excluded by vault");
+        }
+        if (_policy.maxRiskScore > 0 && data.riskScore > _policy.maxRiskScore) {
+            return (false, "Risk score above vault maximum");
+        }
+
+        return (true, "");
+    }
+
     /**
      * @dev Get user KYC data
      * @param _user Address to query
@@ -0,0 +1,117 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "./TrancheVault.sol";
+
+/**
+ * @title MockYieldStrategy
+ * @dev Mock idle cash strategy for testing
+ * @notice Stands in for a lending market: the vault's cash earns a fixed APY paid
+ *         out of a yield reserve that must be funded up front (e.g. by minting
+ *         MockUSDC to this contract). Assets are capped at the tokens actually held,
+ *         and withdrawals at an optional liquidity cap to simulate a market short of cash.
+ */
+contract MockYieldStrategy is IVaultStrategy, Ownable {
+    using SafeERC20 for IERC20;
+
+    address public immutable vault;
+    address public immutable asset;
+
+    uint256 public apy;          // Basis points a year
+    uint256 public principal;    // Vault cash plus interest compounded so far
+    uint256 public lastAccrual;
+    uint256 public liquidityCap; // Most the vault can withdraw (0 = no cap)
+
+    event APYUpdated(uint256 oldAPY, uint256 newAPY);
+
+    event LiquidityCapUpdated(uint256 liquidityCap);
+
+    modifier onlyVault() {
+        require(msg.sender == vault, "Caller is not the vault");
+        _;
+    }
+
+    constructor(address _vault, uint256 _apy) Ownable(msg.sender) {
+        require(_vault != address(0), "Invalid vault address");
+        require(_apy <= 10000, "Invalid APY");
+
+        vault = _vault;
+        asset = TrancheVault(_vault).asset();
+        apy = _apy;
+        lastAccrual = block.timestamp;
+    }
+
+    /**
+     * @dev Vault cash plus interest, capped at the tokens held
+     */
+    function totalAssets() public view returns (uint256) {
+        uint256 owed = principal + _pendingInterest();
+        uint256 held = IERC20(asset).balanceOf(address(this));
+        return owed < held ? owed : held;
+    }
+
+    /**
+     * @dev Everything held, up to the liquidity cap
+     */
+    function maxWithdraw() public view returns (uint256) {
+        uint256 assets = totalAssets();
+        return liquidityCap > 0 && liquidityCap < assets ? liquidityCap : assets;
+    }
+
+    /**
+     * @dev Pull cash from the vault
+     */
+    function deposit(uint256 _amount) external onlyVault {
+        _accrue();
+        principal += _amount;
+        IERC20(asset).safeTransferFrom(vault, address(this), _amount);
+    }
+
+    /**
+     * @dev Send cash back to the vault
+     */
+    function withdraw(uint256 _amount) external onlyVault {
+        _accrue();
+        require(_amount <= maxWithdraw(), "Insufficient strategy liquidity");
+        principal = principal > _amount ? principal - _amount : 0;
+        IERC20(asset).safeTransfer(vault, _amount);
+    }
+
+    /**
+     * @dev Change the simulated lending rate
+     */
+    function setAPY(uint256 _apy) external onlyOwner {
+        require(_apy <= 10000, "Invalid APY");
+        _accrue();
+
+        emit APYUpdated(apy, _apy);
+        apy = _apy;
+    }
+
+    /**
+     * @dev Limit how much the vault can withdraw
+     * @param _liquidityCap Most the vault can withdraw (0 = no cap)
+     */
+    function setLiquidityCap(uint256 _liquidityCap) external onlyOwner {
+        liquidityCap = _liquidityCap;
+
+        emit LiquidityCapUpdated(_liquidityCap);
+    }
+
+    /**
+     * @dev Interest earned since the last accrual
+     */
+    function _pendingInterest() internal view returns (uint256) {
+        return (principal * apy * (block.timestamp - lastAccrual)) / (365 days * 10000);
+    }
+
+    /**
+     * @dev Compound pending interest into principal
+     */
+    function _accrue() internal {
+        principal += _pendingInterest();
+        lastAccrual = block.timestamp;
+    }
+}
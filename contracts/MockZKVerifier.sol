@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "./ZKKYCVerifier.sol";
+
+/**
+ * @title MockZKVerifier
+ * @dev Mock ZK proof verifier for testing
+ * @notice Accepts any proof until it is switched to reject them, so ZKKYCVerifier
+ *         can be exercised without generating Groth16 proofs
+ */
+contract MockZKVerifier is IZKVerifier, Ownable {
+
+    bool public acceptProofs = true;
+
+    constructor() Ownable(msg.sender) {}
+
+    /**
+     * @dev Accept or reject every proof from now on
+     */
+    function setAcceptProofs(bool _accept) external onlyOwner {
+        acceptProofs = _accept;
+    }
+
+    function verifyProof(bytes calldata, bytes32[] calldata) external view returns (bool) {
+        return acceptProofs;
+    }
+}
@@ -0,0 +1,62 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/**
+ * @title RateCurve
+ * @dev Kinked utilization rate curve for TrancheVault target APY
+ * @notice The rate rises gently from the base rate up to the kink (the optimal
+ *         utilization) and steeply above it, so a vault short of cash pays more to
+ *         attract deposits. Utilization is capital deployed in invoices over the
+ *         vault's deployed capital plus idle cash. Deployed as a linked library to
+ *         keep TrancheVault under the contract size limit.
+ */
+library RateCurve {
+
+    struct Curve {
+        uint256 baseRate;  // APY at 0% utilization, in basis points
+        uint256 slope1;    // APY added between 0% utilization and the kink
+        uint256 slope2;    // APY added between the kink and 100% utilization
+        uint256 kink;      // Optimal utilization in basis points (0 = curve not set)
+    }
+
+    /**
+     * @dev Utilization in basis points
+     * @param _deployed Capital deployed in invoices
+     * @param _idle Cash available to the vault
+     */
+    function utilization(uint256 _deployed, uint256 _idle) internal pure returns (uint256) {
+        if (_deployed == 0) return 0;
+        return (_deployed * 10000) / (_deployed + _idle);
+    }
+
+    /**
+     * @dev Rate on the curve at a utilization
+     * @param _utilization Utilization in basis points
+     * @param _fixedRate Rate returned while the curve is not set
+     * @return APY in basis points
+     */
+    function rate(Curve storage c, uint256 _utilization, uint256 _fixedRate) external view returns (uint256) {
+        if (c.kink == 0) return _fixedRate;
+        if (_utilization <= c.kink) {
+            return c.baseRate + (c.slope1 * _utilization) / c.kink;
+        }
+        return c.baseRate + c.slope1 + (c.slope2 * (_utilization - c.kink)) / (10000 - c.kink);
+    }
+
+    /**
+     * @dev Replace the curve
+     * @param _kink Optimal utilization in basis points (0 = curve not set)
+     */
+    function update(Curve storage c, uint256 _baseRate, uint256 _slope1, uint256 _kink, uint256 _slope2)
+        external
+    {
+        uint256 maxRate = _baseRate + _slope1 + _slope2;
+        require(_kink < 10000, "Invalid kink");
+        require(_kink == 0 || (maxRate > 0 && maxRate <= 10000), "Invalid APY");
+
+        c.baseRate = _baseRate;
+        c.slope1 = _slope1;
+        c.slope2 = _slope2;
+        c.kink = _kink;
+    }
+}
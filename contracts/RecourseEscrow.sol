@@ -0,0 +1,487 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "./InvoiceNFT.sol";
+import "./TrancheVault.sol";
+
+/**
+ * @title RecourseEscrow
+ * @dev Issuer collateral for invoices factored with recourse
+ * @notice An issuer turns an invoice into a recourse invoice by posting collateral in
+ *         the payment token before it is funded, or by minting it through
+ *         mintWithCollateral. Once the invoice defaults anyone can open the buyback
+ *         window: the issuer either buys the invoice back for the amount due
+ *         (collateral counts towards the price) or the collateral is slashed. Both paths
+ *         pay through InvoiceNFT.payInvoice, so the vaults holding the invoice book the
+ *         cash as a recovery; once the invoice is written off the cash goes to the vaults
+ *         through TrancheVault.collectPayment instead. Collateral is released once the
+ *         debtor repays in full or the invoice is cancelled.
+ *         The buyback is an obligation for the full amount due: whatever the slashed
+ *         collateral does not cover stays owed by the issuer as a shortfall. Until it
+ *         is paid the issuer cannot post new collateral, and collateral this contract
+ *         would otherwise return to the issuer pays the shortfall first.
+ */
+contract RecourseEscrow is Ownable, ReentrancyGuard {
+    using SafeERC20 for IERC20;
+
+    enum RecourseStatus {
+        NONE,           // Non-recourse invoice
+        LOCKED,         // Collateral posted, invoice outstanding
+        BUYBACK_DUE,    // Invoice defaulted, issuer must buy back before the deadline
+        BOUGHT_BACK,    // Issuer repurchased the invoice
+        SLASHED,        // Collateral paid to the invoice holders
+        RELEASED        // Collateral returned to the issuer
+    }
+
+    struct Recourse {
+        address issuer;
+        uint256 collateral;        // Collateral posted, net of withdrawals before verification
+        uint256 postedAt;
+        uint256 buybackDeadline;   // Set when the buyback window opens
+        uint256 paidOut;           // Collateral applied to the invoice (buyback or slash)
+        uint256 released;          // Collateral returned to the issuer
+        RecourseStatus status;
+    }
+
+    InvoiceNFT public invoiceNFT;
+
+    uint256 public buybackWindow = 14 days;
+
+    mapping(uint256 => Recourse) public recourses;
+    mapping(address => uint256[]) private issuerInvoices;
+    mapping(address => uint256) public lockedCollateral;     // Per issuer, across open recourse invoices
+    mapping(address => uint256) public releasedCollateral;   // Per issuer, lifetime collateral returned
+
+    // Amount due on slashed invoices beyond their collateral, still owed by the issuer
+    mapping(uint256 => uint256) public buybackShortfall;
+    mapping(address => uint256) public issuerShortfall;      // Per issuer, across slashed invoices
+    mapping(address => uint256[]) private shortfallInvoices;
+
+    event CollateralPosted(
+        uint256 indexed tokenId,
+        address indexed issuer,
+        uint256 amount,
+        uint256 totalCollateral,
+        uint256 timestamp
+    );
+
+    event CollateralWithdrawn(uint256 indexed tokenId, address indexed issuer, uint256 amount, uint256 timestamp);
+
+    event BuybackWindowOpened(uint256 indexed tokenId, uint256 amountDue, uint256 deadline, uint256 timestamp);
+
+    event InvoiceBoughtBack(
+        uint256 indexed tokenId,
+        address indexed issuer,
+        uint256 price,
+        uint256 collateralApplied,
+        uint256 timestamp
+    );
+
+    event CollateralSlashed(uint256 indexed tokenId, uint256 amount, uint256 refunded, uint256 timestamp);
+
+    event CollateralReleased(uint256 indexed tokenId, address indexed issuer, uint256 amount, uint256 timestamp);
+
+    event ShortfallRecorded(uint256 indexed tokenId, address indexed issuer, uint256 amount, uint256 timestamp);
+
+    event ShortfallPaid(uint256 indexed tokenId, address indexed payer, uint256 amount, uint256 remaining, uint256 timestamp);
+
+    event BuybackWindowUpdated(uint256 oldWindow, uint256 newWindow);
+
+    constructor(address _invoiceNFT) Ownable(msg.sender) {
+        require(_invoiceNFT != address(0), "Invalid InvoiceNFT address");
+        invoiceNFT = InvoiceNFT(_invoiceNFT);
+    }
+
+    /**
+     * @dev Post (or top up) recourse collateral on an invoice that is not funded yet
+     * @notice Pulled from the issuer in the payment token; approve this contract first.
+     *         Posting again after withdrawing everything locks the invoice again.
+     * @param _tokenId Invoice token ID
+     * @param _amount Collateral to add
+     */
+    function postCollateral(uint256 _tokenId, uint256 _amount) external nonReentrant {
+        _postCollateral(_tokenId, _amount);
+    }
+
+    /**
+     * @dev Mint an invoice and lock its recourse collateral in one transaction
+     * @notice The issuer signs a mint request for InvoiceNFT.mintInvoiceWithSig and
+     *         sends it here itself, having approved this contract for the collateral
+     * @param _request Mint request signed by the caller
+     * @param _signature Issuer signature over the mint request
+     * @param _collateral Collateral to lock
+     * @return tokenId The ID of the newly minted invoice NFT
+     */
+    function mintWithCollateral(
+        InvoiceNFT.MintRequest calldata _request,
+        bytes calldata _signature,
+        uint256 _collateral
+    ) external nonReentrant returns (uint256 tokenId) {
+        require(msg.sender == _request.issuer, "Caller is not invoice issuer");
+
+        tokenId = invoiceNFT.mintInvoiceWithSig(_request, _signature);
+        _postCollateral(tokenId, _collateral);
+    }
+
+    /**
+     * @dev Take collateral back while the invoice terms can still change
+     * @notice Only before verification: vaults price verified invoices with the
+     *         collateral they see, so it stays locked from then on
+     * @param _tokenId Invoice token ID
+     * @param _amount Collateral to withdraw
+     */
+    function withdrawCollateral(uint256 _tokenId, uint256 _amount) external nonReentrant {
+        Recourse storage recourse = recourses[_tokenId];
+        require(msg.sender == recourse.issuer, "Caller is not invoice issuer");
+        require(recourse.status == RecourseStatus.LOCKED, "Collateral not locked");
+        require(_amount > 0 && _amount <= recourse.collateral, "Invalid amount");
+        require(issuerShortfall[msg.sender] == 0, "Issuer owes a buyback shortfall");
+
+        InvoiceNFT.InvoiceStatus status = invoiceNFT.getInvoiceStatus(_tokenId);
+        require(
+            status == InvoiceNFT.InvoiceStatus.PENDING || status == InvoiceNFT.InvoiceStatus.ACKNOWLEDGED,
+            "Invoice already verified"
+        );
+
+        recourse.collateral -= _amount;
+        lockedCollateral[msg.sender] -= _amount;
+        recourse.released += _amount;
+        releasedCollateral[msg.sender] += _amount;
+        if (recourse.collateral == 0) {
+            recourse.status = RecourseStatus.RELEASED;
+        }
+
+        invoiceNFT.paymentToken().safeTransfer(msg.sender, _amount);
+
+        emit CollateralWithdrawn(_tokenId, msg.sender, _amount, block.timestamp);
+    }
+
+    /**
+     * @dev Start the issuer's buyback window on a defaulted recourse invoice
+     * @notice Permissionless so investors (or a keeper) can enforce the obligation
+     * @param _tokenId Invoice token ID
+     */
+    function openBuybackWindow(uint256 _tokenId) external {
+        Recourse storage recourse = recourses[_tokenId];
+        require(recourse.status == RecourseStatus.LOCKED, "Collateral not locked");
+        require(_isDefaulted(invoiceNFT.getInvoiceStatus(_tokenId)), "Invoice not defaulted");
+
+        recourse.status = RecourseStatus.BUYBACK_DUE;
+        recourse.buybackDeadline = block.timestamp + buybackWindow;
+
+        emit BuybackWindowOpened(
+            _tokenId,
+            invoiceNFT.getAmountDue(_tokenId),
+            recourse.buybackDeadline,
+            block.timestamp
+        );
+    }
+
+    /**
+     * @dev Issuer buys an overdue, defaulted or written-off invoice back for the full amount due
+     * @notice The collateral is applied first; the issuer pays the rest and any
+     *         excess collateral is refunded. The cash reaches the holding vaults
+     *         through InvoiceNFT.payInvoice and the invoice ends PAID, unless it was
+     *         already written off.
+     * @param _tokenId Invoice token ID
+     */
+    function buyback(uint256 _tokenId) external nonReentrant {
+        Recourse storage recourse = recourses[_tokenId];
+        require(msg.sender == recourse.issuer, "Caller is not invoice issuer");
+        require(
+            recourse.status == RecourseStatus.LOCKED ||
+            (recourse.status == RecourseStatus.BUYBACK_DUE && block.timestamp <= recourse.buybackDeadline),
+            "Buyback not available"
+        );
+
+        InvoiceNFT.InvoiceStatus status = invoiceNFT.getInvoiceStatus(_tokenId);
+        require(
+            status == InvoiceNFT.InvoiceStatus.OVERDUE || _isDefaulted(status),
+            "Invoice not overdue or defaulted"
+        );
+
+        uint256 price = invoiceNFT.getAmountDue(_tokenId);
+        uint256 collateral = recourse.collateral;
+        uint256 applied = collateral < price ? collateral : price;
+
+        recourse.status = RecourseStatus.BOUGHT_BACK;
+        _settle(recourse, applied);
+
+        IERC20 token = invoiceNFT.paymentToken();
+        if (price > applied) {
+            token.safeTransferFrom(msg.sender, address(this), price - applied);
+        }
+        _payInvoice(token, _tokenId, status, price);
+        _refund(token, msg.sender, collateral - applied);
+
+        emit InvoiceBoughtBack(_tokenId, msg.sender, price, applied, block.timestamp);
+    }
+
+    /**
+     * @dev Pay the collateral to the invoice holders once the buyback window lapsed
+     * @notice Permissionless. Collateral beyond the amount due is refunded to the issuer.
+     *         Works whether or not the invoice has been written off since it defaulted.
+     * @param _tokenId Invoice token ID
+     */
+    function slashCollateral(uint256 _tokenId) external nonReentrant {
+        Recourse storage recourse = recourses[_tokenId];
+        require(recourse.status == RecourseStatus.BUYBACK_DUE, "Buyback window not open");
+        require(block.timestamp > recourse.buybackDeadline, "Buyback window still open");
+        InvoiceNFT.InvoiceStatus status = invoiceNFT.getInvoiceStatus(_tokenId);
+        require(_isDefaulted(status), "Invoice not defaulted");
+
+        uint256 amountDue = invoiceNFT.getAmountDue(_tokenId);
+        uint256 collateral = recourse.collateral;
+        uint256 slashed = collateral < amountDue ? collateral : amountDue;
+
+        recourse.status = RecourseStatus.SLASHED;
+        _settle(recourse, slashed);
+
+        IERC20 token = invoiceNFT.paymentToken();
+        if (slashed > 0) {
+            _payInvoice(token, _tokenId, status, slashed);
+        }
+        if (amountDue > slashed) {
+            buybackShortfall[_tokenId] = amountDue - slashed;
+            issuerShortfall[recourse.issuer] += amountDue - slashed;
+            shortfallInvoices[recourse.issuer].push(_tokenId);
+
+            emit ShortfallRecorded(_tokenId, recourse.issuer, amountDue - slashed, block.timestamp);
+        }
+        _refund(token, recourse.issuer, collateral - slashed);
+
+        emit CollateralSlashed(_tokenId, slashed, collateral - slashed, block.timestamp);
+    }
+
+    /**
+     * @dev Pay towards the buyback shortfall on a slashed invoice
+     * @notice Anyone may pay, usually the issuer. The cash reaches the holding vaults
+     *         like a buyback; the shortfall shrinks if the debtor repays part in the meantime.
+     * @param _tokenId Invoice token ID
+     * @param _amount Maximum amount to pay
+     */
+    function payShortfall(uint256 _tokenId, uint256 _amount) external nonReentrant {
+        uint256 owed = Math.min(buybackShortfall[_tokenId], invoiceNFT.getAmountDue(_tokenId));
+        uint256 amount = Math.min(_amount, owed);
+        require(amount > 0, "No shortfall to pay");
+
+        IERC20 token = invoiceNFT.paymentToken();
+        token.safeTransferFrom(msg.sender, address(this), amount);
+        _payShortfall(token, _tokenId, amount);
+    }
+
+    /**
+     * @dev Return the collateral once the debtor has repaid in full or the invoice was cancelled
+     * @notice Permissionless; the collateral always goes back to the issuer
+     * @param _tokenId Invoice token ID
+     */
+    function releaseCollateral(uint256 _tokenId) external nonReentrant {
+        Recourse storage recourse = recourses[_tokenId];
+        require(
+            recourse.status == RecourseStatus.LOCKED || recourse.status == RecourseStatus.BUYBACK_DUE,
+            "Collateral not locked"
+        );
+        require(_isReleasable(_tokenId), "Invoice still outstanding");
+
+        uint256 amount = recourse.collateral;
+        recourse.status = RecourseStatus.RELEASED;
+        _settle(recourse, 0);
+
+        _refund(invoiceNFT.paymentToken(), recourse.issuer, amount);
+
+        emit CollateralReleased(_tokenId, recourse.issuer, amount, block.timestamp);
+    }
+
+    /**
+     * @dev Update how long an issuer has to buy back a defaulted invoice
+     */
+    function updateBuybackWindow(uint256 _window) external onlyOwner {
+        require(_window >= 1 days && _window <= 90 days, "Invalid buyback window");
+
+        uint256 oldWindow = buybackWindow;
+        buybackWindow = _window;
+
+        emit BuybackWindowUpdated(oldWindow, _window);
+    }
+
+    /**
+     * @dev Recourse terms of an invoice
+     */
+    function getRecourse(uint256 _tokenId) external view returns (Recourse memory) {
+        return recourses[_tokenId];
+    }
+
+    /**
+     * @dev Invoices an issuer has posted collateral on
+     */
+    function getIssuerInvoices(address _issuer) external view returns (uint256[] memory) {
+        return issuerInvoices[_issuer];
+    }
+
+    /**
+     * @dev Whether an invoice is backed by issuer collateral
+     */
+    function isRecourse(uint256 _tokenId) external view returns (bool) {
+        RecourseStatus status = recourses[_tokenId].status;
+        return status == RecourseStatus.LOCKED || status == RecourseStatus.BUYBACK_DUE;
+    }
+
+    /**
+     * @dev Lock collateral from the caller against an invoice it issued
+     */
+    function _postCollateral(uint256 _tokenId, uint256 _amount) internal {
+        require(_amount > 0, "Collateral must be positive");
+        require(issuerShortfall[msg.sender] == 0, "Issuer owes a buyback shortfall");
+
+        InvoiceNFT.Invoice memory invoice = invoiceNFT.getInvoice(_tokenId);
+        require(msg.sender == invoice.issuer, "Caller is not invoice issuer");
+        require(
+            invoice.status == InvoiceNFT.InvoiceStatus.PENDING ||
+            invoice.status == InvoiceNFT.InvoiceStatus.ACKNOWLEDGED ||
+            invoice.status == InvoiceNFT.InvoiceStatus.VERIFIED,
+            "Invoice already funded"
+        );
+
+        Recourse storage recourse = recourses[_tokenId];
+        if (recourse.status == RecourseStatus.NONE) {
+            recourse.issuer = msg.sender;
+            recourse.postedAt = block.timestamp;
+            issuerInvoices[msg.sender].push(_tokenId);
+        }
+        // Not funded yet, so RELEASED here means every withdrawal came before funding
+        if (recourse.status == RecourseStatus.NONE || recourse.status == RecourseStatus.RELEASED) {
+            recourse.status = RecourseStatus.LOCKED;
+        }
+        require(recourse.status == RecourseStatus.LOCKED, "Recourse already settled");
+
+        recourse.collateral += _amount;
+        lockedCollateral[msg.sender] += _amount;
+
+        invoiceNFT.paymentToken().safeTransferFrom(msg.sender, address(this), _amount);
+
+        emit CollateralPosted(_tokenId, msg.sender, _amount, recourse.collateral, block.timestamp);
+    }
+
+    /**
+     * @dev Return collateral to an issuer, paying its buyback shortfalls first
+     */
+    function _refund(IERC20 _token, address _issuer, uint256 _amount) internal {
+        uint256[] storage unpaid = shortfallInvoices[_issuer];
+        while (_amount > 0 && unpaid.length > 0) {
+            uint256 tokenId = unpaid[unpaid.length - 1];
+            uint256 owed = Math.min(buybackShortfall[tokenId], invoiceNFT.getAmountDue(tokenId));
+            uint256 paid = Math.min(_amount, owed);
+
+            _payShortfall(_token, tokenId, paid);
+            _amount -= paid;
+            if (buybackShortfall[tokenId] == 0) {
+                unpaid.pop();
+            }
+        }
+
+        if (_amount > 0) {
+            _token.safeTransfer(_issuer, _amount);
+        }
+    }
+
+    /**
+     * @dev Pay part of a buyback shortfall to the holding vaults
+     * @notice Any shortfall beyond the amount still due on the invoice is dropped:
+     *         the debtor has repaid that part since the collateral was slashed
+     */
+    function _payShortfall(IERC20 _token, uint256 _tokenId, uint256 _amount) internal {
+        address issuer = recourses[_tokenId].issuer;
+        uint256 shortfall = buybackShortfall[_tokenId];
+        uint256 remaining = Math.min(shortfall, invoiceNFT.getAmountDue(_tokenId)) - _amount;
+
+        buybackShortfall[_tokenId] = remaining;
+        issuerShortfall[issuer] -= shortfall - remaining;
+
+        if (_amount > 0) {
+            _payInvoice(_token, _tokenId, invoiceNFT.getInvoiceStatus(_tokenId), _amount);
+        }
+
+        emit ShortfallPaid(_tokenId, msg.sender, _amount, remaining, block.timestamp);
+    }
+
+    /**
+     * @dev Repaid in full by the debtor, or cancelled (burned) by the issuer
+     */
+    function _isReleasable(uint256 _tokenId) internal view returns (bool) {
+        try invoiceNFT.getInvoiceStatus(_tokenId) returns (InvoiceNFT.InvoiceStatus status) {
+            return status == InvoiceNFT.InvoiceStatus.PAID;
+        } catch {
+            return true;
+        }
+    }
+
+    /**
+     * @dev Defaulted, whether or not it has been written off since
+     */
+    function _isDefaulted(InvoiceNFT.InvoiceStatus _status) internal pure returns (bool) {
+        return _status == InvoiceNFT.InvoiceStatus.DEFAULTED || _status == InvoiceNFT.InvoiceStatus.WRITTEN_OFF;
+    }
+
+    /**
+     * @dev Unlock an invoice's collateral: part applied to the invoice, the rest returned
+     */
+    function _settle(Recourse storage _recourse, uint256 _paidOut) internal {
+        _recourse.paidOut = _paidOut;
+        _recourse.released += _recourse.collateral - _paidOut;
+        lockedCollateral[_recourse.issuer] -= _recourse.collateral;
+        releasedCollateral[_recourse.issuer] += _recourse.collateral - _paidOut;
+    }
+
+    /**
+     * @dev Pay an invoice from this contract's balance; InvoiceNFT routes it to the holders
+     * @notice A written-off invoice no longer accepts payments, so the cash is split
+     *         across the holding vaults here (pro rata for fractions, remainder to the
+     *         last holder) and each books it as a recovery. A fraction the issuer kept
+     *         (see InvoiceNFT.mergeUnfundedFractions) is paid back to the issuer.
+     */
+    function _payInvoice(IERC20 _token, uint256 _tokenId, InvoiceNFT.InvoiceStatus _status, uint256 _amount)
+        internal
+    {
+        if (_status != InvoiceNFT.InvoiceStatus.WRITTEN_OFF) {
+            _token.forceApprove(address(invoiceNFT), _amount);
+            invoiceNFT.payInvoice(_tokenId, _amount);
+            return;
+        }
+
+        address[] memory holders = invoiceNFT.getFractionHolders(_tokenId);
+        if (holders.length == 0) {
+            _payVault(_token, _tokenId, invoiceNFT.ownerOf(_tokenId), _amount);
+            return;
+        }
+
+        address issuer = invoiceNFT.getInvoice(_tokenId).issuer;
+        uint256 remaining = _amount;
+        for (uint256 i = 0; i < holders.length; i++) {
+            uint256 share = i == holders.length - 1 ? remaining :
+                (_amount * invoiceNFT.getFraction(_tokenId, holders[i]).shareBps) / 10000;
+            remaining -= share;
+            if (holders[i] == issuer) {
+                _token.safeTransfer(issuer, share);
+            } else {
+                _payVault(_token, _tokenId, holders[i], share);
+            }
+        }
+    }
+
+    /**
+     * @dev Pay a holding vault directly for a written-off invoice
+     * @notice Needs RECOURSE_ROLE on InvoiceNFT: vaults only take cash InvoiceNFT has
+     *         not recorded from recourse escrows
+     */
+    function _payVault(IERC20 _token, uint256 _tokenId, address _vault, uint256 _amount) internal {
+        require(invoiceNFT.hasRole(invoiceNFT.VAULT_ROLE(), _vault), "Invoice not held by a vault");
+        if (_amount == 0) return;
+
+        _token.forceApprove(_vault, _amount);
+        TrancheVault(_vault).collectPayment(_tokenId, _amount);
+    }
+}
@@ -0,0 +1,202 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/**
+ * @title RedemptionQueue
+ * @dev Epoch-based redemption queue bookkeeping for TrancheVault (ERC-7540 style)
+ * @notice Every processed epoch fills the same fraction of all pending shares, so the
+ *         queue is served pro rata. Per-controller state is settled lazily against
+ *         cumulative indices, keeping every operation O(1).
+ */
+library RedemptionQueue {
+
+    uint256 internal constant RAY = 1e27;
+
+    struct Request {
+        uint256 pendingShares;       // Shares still waiting in the queue
+        uint256 claimableShares;     // Shares already redeemed, assets not yet claimed
+        uint256 claimableAssets;     // Assets reserved for this controller
+        uint256 claimedAssets;       // Lifetime assets claimed
+        uint256 baseFactor;          // remainingFactor when pendingShares was last settled
+        uint256 baseAssetsPerShare;  // assetsPerShare when pendingShares was last settled
+        uint256 cycle;               // Queue cycle of the pending shares
+    }
+
+    struct Queue {
+        uint256 epoch;               // Current open epoch
+        uint256 lastProcessedAt;
+        uint256 pendingShares;       // Total shares waiting across all controllers
+        uint256 reservedAssets;      // Assets set aside for claimable requests
+        uint256 remainingFactor;     // Product of (1 - fill ratio) over the current cycle, in RAY
+        uint256 assetsPerShare;      // Assets paid per originally queued share this cycle, in RAY
+        uint256 cycle;               // Incremented whenever the queue is fully drained
+        mapping(uint256 => uint256) cycleFinalAssetsPerShare;
+        mapping(address => Request) requests;
+    }
+
+    /**
+     * @dev Add shares to a controller's pending request
+     */
+    function request(Queue storage q, address _controller, uint256 _shares) external {
+        Request storage r = q.requests[_controller];
+        _settle(q, r);
+
+        r.pendingShares += _shares;
+        q.pendingShares += _shares;
+    }
+
+    /**
+     * @dev Remove a controller's remaining pending shares from the queue
+     * @return shares Shares to hand back to the controller
+     */
+    function cancel(Queue storage q, address _controller) external returns (uint256 shares) {
+        Request storage r = q.requests[_controller];
+        _settle(q, r);
+
+        shares = r.pendingShares;
+        r.pendingShares = 0;
+        q.pendingShares -= shares;
+    }
+
+    /**
+     * @dev Size the next epoch fill: as much of the queue as the available cash covers
+     * @param _epochDuration Minimum time between fills
+     * @param _pendingAssets Current value of all pending shares
+     * @param _cash Cash available for redemptions
+     * @return shares Shares to redeem this epoch
+     * @return assets Assets to reserve for them
+     */
+    function quoteFill(Queue storage q, uint256 _epochDuration, uint256 _pendingAssets, uint256 _cash)
+        external
+        view
+        returns (uint256 shares, uint256 assets)
+    {
+        require(block.timestamp >= q.lastProcessedAt + _epochDuration, "Redemption epoch still open");
+        require(q.pendingShares > 0, "No pending redemptions");
+
+        assets = _cash < _pendingAssets ? _cash : _pendingAssets;
+        shares = assets == _pendingAssets ?
+            q.pendingShares :
+            (q.pendingShares * assets) / _pendingAssets;
+        require(shares > 0, "No liquidity for redemptions");
+    }
+
+    /**
+     * @dev Close the current epoch by filling part of the queue
+     * @param _shares Shares redeemed (burned by the vault) this epoch
+     * @param _assets Assets reserved for those shares
+     */
+    function fill(Queue storage q, uint256 _shares, uint256 _assets) external {
+        require(_shares > 0 && _shares <= q.pendingShares, "Invalid fill amount");
+
+        q.assetsPerShare += (q.remainingFactor * _assets) / q.pendingShares;
+
+        if (_shares == q.pendingShares) {
+            // Queue drained: freeze this cycle and start a fresh one
+            q.cycleFinalAssetsPerShare[q.cycle] = q.assetsPerShare;
+            q.cycle++;
+            q.remainingFactor = RAY;
+            q.assetsPerShare = 0;
+        } else {
+            q.remainingFactor = (q.remainingFactor * (q.pendingShares - _shares)) / q.pendingShares;
+        }
+
+        q.pendingShares -= _shares;
+        q.reservedAssets += _assets;
+        q.epoch++;
+        q.lastProcessedAt = block.timestamp;
+    }
+
+    /**
+     * @dev Claim redeemed shares for their reserved assets
+     * @return assets Assets released to the controller
+     */
+    function claimShares(Queue storage q, address _controller, uint256 _shares)
+        external
+        returns (uint256 assets)
+    {
+        Request storage r = q.requests[_controller];
+        _settle(q, r);
+        require(_shares > 0 && _shares <= r.claimableShares, "Exceeds claimable shares");
+
+        assets = (r.claimableAssets * _shares) / r.claimableShares;
+        _release(q, r, _shares, assets);
+    }
+
+    /**
+     * @dev Claim an amount of reserved assets
+     * @return shares Redeemed shares consumed by the claim
+     */
+    function claimAssets(Queue storage q, address _controller, uint256 _assets)
+        external
+        returns (uint256 shares)
+    {
+        Request storage r = q.requests[_controller];
+        _settle(q, r);
+        require(_assets > 0 && _assets <= r.claimableAssets, "Exceeds claimable assets");
+
+        shares = _assets == r.claimableAssets ?
+            r.claimableShares :
+            (r.claimableShares * _assets + r.claimableAssets - 1) / r.claimableAssets;
+        _release(q, r, shares, _assets);
+    }
+
+    /**
+     * @dev Controller request as it would look after settling against the latest epoch
+     */
+    function getRequest(Queue storage q, address _controller)
+        external
+        view
+        returns (Request memory r)
+    {
+        r = q.requests[_controller];
+        if (r.pendingShares == 0) return r;
+
+        (uint256 filledShares, uint256 filledAssets) = _filled(q, r);
+        r.pendingShares -= filledShares;
+        r.claimableShares += filledShares;
+        r.claimableAssets += filledAssets;
+    }
+
+    function _settle(Queue storage q, Request storage r) private {
+        if (r.pendingShares > 0) {
+            (uint256 filledShares, uint256 filledAssets) = _filled(q, r);
+            r.pendingShares -= filledShares;
+            r.claimableShares += filledShares;
+            r.claimableAssets += filledAssets;
+        }
+
+        if (q.remainingFactor == 0) q.remainingFactor = RAY;
+
+        r.baseFactor = q.remainingFactor;
+        r.baseAssetsPerShare = q.assetsPerShare;
+        r.cycle = q.cycle;
+    }
+
+    function _filled(Queue storage q, Request memory r)
+        private
+        view
+        returns (uint256 filledShares, uint256 filledAssets)
+    {
+        uint256 remaining;
+        uint256 endAssetsPerShare;
+
+        if (r.cycle < q.cycle) {
+            remaining = 0;
+            endAssetsPerShare = q.cycleFinalAssetsPerShare[r.cycle];
+        } else {
+            remaining = (r.pendingShares * q.remainingFactor) / r.baseFactor;
+            endAssetsPerShare = q.assetsPerShare;
+        }
+
+        filledShares = r.pendingShares - remaining;
+        filledAssets = (r.pendingShares * (endAssetsPerShare - r.baseAssetsPerShare)) / r.baseFactor;
+    }
+
+    function _release(Queue storage q, Request storage r, uint256 _shares, uint256 _assets) private {
+        r.claimableShares -= _shares;
+        r.claimableAssets -= _assets;
+        r.claimedAssets += _assets;
+        q.reservedAssets -= _assets;
+    }
+}
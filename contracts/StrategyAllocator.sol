@@ -0,0 +1,195 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "./TrancheVault.sol";
+
+/**
+ * @title StrategyAllocator
+ * @dev Moves TrancheVault idle cash in and out of its strategy
+ * @notice Runs in the vault's context. Cash reserved for claimable redemptions is
+ *         never lent out. The vault carries the cash it lent (the strategy principal)
+ *         at cost, or less if the strategy lost value; gains above it count towards NAV
+ *         only once harvested and booked as yield. Recalls never exceed what the
+ *         strategy lets the vault withdraw. Deployed as a linked library to keep
+ *         TrancheVault under the contract size limit.
+ */
+library StrategyAllocator {
+    using SafeERC20 for IERC20;
+
+    event StrategyDeposit(address indexed strategy, uint256 amount, uint256 timestamp);
+
+    event StrategyWithdrawal(address indexed strategy, uint256 amount, uint256 timestamp);
+
+    event StrategyHarvested(address indexed strategy, uint256 gain, uint256 timestamp);
+
+    /**
+     * @dev Cash not reserved for claimable redemptions, including cash lent to the strategy
+     * @param _strategy Current strategy (zero if none)
+     * @param _asset Vault asset
+     * @param _reserved Cash reserved for claimable redemptions
+     * @param _principal Cash lent to the strategy and not yet recalled
+     */
+    function available(IVaultStrategy _strategy, address _asset, uint256 _reserved, uint256 _principal)
+        external
+        view
+        returns (uint256)
+    {
+        uint256 cash = IERC20(_asset).balanceOf(address(this)) - _reserved;
+        if (address(_strategy) == address(0)) return cash;
+
+        uint256 lent = _strategy.totalAssets();
+        return cash + (lent < _principal ? lent : _principal);
+    }
+
+    /**
+     * @dev Cash the vault can pay out right now: unreserved cash plus the principal
+     *      the strategy would let it withdraw
+     * @param _reserved Cash reserved for claimable redemptions
+     * @param _principal Cash lent to the strategy and not yet recalled
+     */
+    function liquid(IVaultStrategy _strategy, address _asset, uint256 _reserved, uint256 _principal)
+        external
+        view
+        returns (uint256)
+    {
+        uint256 cash = IERC20(_asset).balanceOf(address(this)) - _reserved;
+        return address(_strategy) != address(0) ? cash + _withdrawable(_strategy, _principal) : cash;
+    }
+
+    /**
+     * @dev Recall everything from the old strategy and check the new one serves this vault
+     * @param _old Current strategy (zero if none)
+     * @param _new Replacement strategy (zero to keep all cash in the vault)
+     * @param _asset Vault asset
+     * @param _principal Cash lent to the old strategy
+     * @return gain Cash recalled above the principal, to be booked as yield
+     */
+    function migrate(IVaultStrategy _old, IVaultStrategy _new, address _asset, uint256 _principal)
+        external
+        returns (uint256 gain)
+    {
+        if (address(_new) != address(0)) {
+            require(
+                _new.vault() == address(this) && _new.asset() == _asset,
+                "Strategy not for this vault"
+            );
+        }
+
+        if (address(_old) != address(0)) {
+            uint256 lent = _old.totalAssets();
+            if (lent > 0) _withdraw(_old, lent);
+            if (lent > _principal) gain = lent - _principal;
+        }
+    }
+
+    /**
+     * @dev Lend or recall cash so the strategy holds _target of the vault's principal
+     * @notice Gains above the principal stay in the strategy until harvested
+     * @param _reserved Cash reserved for claimable redemptions
+     * @param _principal Cash lent to the strategy
+     * @return Principal lent after the rebalance
+     */
+    function rebalance(
+        IVaultStrategy _strategy,
+        address _asset,
+        uint256 _target,
+        uint256 _reserved,
+        uint256 _principal
+    ) external returns (uint256) {
+        require(address(_strategy) != address(0), "No strategy set");
+
+        if (_target < _principal) {
+            uint256 amount = _principal - _target;
+            require(amount <= _strategy.maxWithdraw(), "Strategy cannot return that much");
+
+            _withdraw(_strategy, amount);
+        } else if (_target > _principal) {
+            uint256 amount = _target - _principal;
+            require(amount <= IERC20(_asset).balanceOf(address(this)) - _reserved, "Insufficient idle cash");
+
+            IERC20(_asset).forceApprove(address(_strategy), amount);
+            _strategy.deposit(amount);
+
+            emit StrategyDeposit(address(_strategy), amount, block.timestamp);
+        }
+        return _target;
+    }
+
+    /**
+     * @dev Recall what the strategy earned above the principal
+     * @notice Limited to what the strategy lets the vault withdraw; the rest is
+     *         harvested later
+     * @param _principal Cash lent to the strategy
+     * @return gain Cash recalled, to be booked as yield
+     */
+    function harvest(IVaultStrategy _strategy, uint256 _principal) external returns (uint256 gain) {
+        require(address(_strategy) != address(0), "No strategy set");
+
+        uint256 lent = _strategy.totalAssets();
+        if (lent <= _principal) return 0;
+
+        gain = lent - _principal;
+        uint256 max = _strategy.maxWithdraw();
+        if (gain > max) gain = max;
+        if (gain == 0) return 0;
+
+        _withdraw(_strategy, gain);
+
+        emit StrategyHarvested(address(_strategy), gain, block.timestamp);
+    }
+
+    /**
+     * @dev Recall principal from the strategy so that _amount is on hand beyond reserved redemptions
+     * @notice Recalls only what the strategy lets the vault withdraw and carries on
+     *         if the withdrawal fails, so callers work with the cash that arrived
+     * @param _reserved Cash reserved for claimable redemptions
+     * @param _principal Cash lent to the strategy
+     * @return principal Principal still lent after the recall
+     * @return cash Unreserved cash on hand after the recall
+     */
+    function pull(
+        IVaultStrategy _strategy,
+        address _asset,
+        uint256 _amount,
+        uint256 _reserved,
+        uint256 _principal
+    ) external returns (uint256 principal, uint256 cash) {
+        principal = _principal;
+        cash = IERC20(_asset).balanceOf(address(this)) - _reserved;
+        if (address(_strategy) == address(0) || cash >= _amount) return (principal, cash);
+
+        uint256 amount = _amount - cash;
+        uint256 withdrawable = _withdrawable(_strategy, _principal);
+        if (amount > withdrawable) amount = withdrawable;
+        if (amount == 0) return (principal, cash);
+
+        try _strategy.withdraw(amount) {
+            emit StrategyWithdrawal(address(_strategy), amount, block.timestamp);
+        } catch {
+            return (principal, cash);
+        }
+
+        // Measure what arrived: a strategy may return less than asked
+        uint256 received = IERC20(_asset).balanceOf(address(this)) - _reserved - cash;
+        principal -= received < principal ? received : principal;
+        cash += received;
+    }
+
+    /**
+     * @dev Principal the strategy would let the vault withdraw now
+     */
+    function _withdrawable(IVaultStrategy _strategy, uint256 _principal) private view returns (uint256) {
+        uint256 max = _strategy.maxWithdraw();
+        return max < _principal ? max : _principal;
+    }
+
+    /**
+     * @dev Recall cash from the strategy
+     */
+    function _withdraw(IVaultStrategy _strategy, uint256 _amount) private {
+        _strategy.withdraw(_amount);
+
+        emit StrategyWithdrawal(address(_strategy), _amount, block.timestamp);
+    }
+}
@@ -0,0 +1,300 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "./TrancheVault.sol";
+
+/**
+ * @title TranchePool
+ * @dev Pool-level waterfall linking a senior and a junior TrancheVault
+ * @notice Junior absorbs losses first; senior is paid its target APY before junior earns yield
+ */
+contract TranchePool is Ownable {
+
+    TrancheVault public seniorVault;
+    TrancheVault public juniorVault;
+
+    // Value owed between the tranches that has not been settled in cash yet.
+    // Positive = junior owes senior, negative = senior owes junior.
+    int256 public netSeniorClaim;
+
+    // Senior coupon accrued at targetAPY but not yet paid out of realized yield.
+    // Unpaid coupon carries forward with no time limit: realized yield in either
+    // tranche pays it before the junior tranche earns anything (see pendingSeniorYield).
+    uint256 public seniorYieldOwed;
+    uint256 public lastAccrualTime;
+
+    // Senior principal deployed in invoices and senior target APY at the last
+    // checkpoint; the coupon accrues on these until the next one
+    uint256 public seniorAccrualBase;
+    uint256 public seniorAccrualRate;
+
+    // Waterfall statistics (losses are net of recoveries)
+    uint256 public totalSeniorLoss;
+    uint256 public totalJuniorLoss;
+    uint256 public totalSeniorYield;
+    uint256 public totalJuniorYield;
+
+    struct LossAllocation {
+        uint256 seniorLoss;
+        uint256 juniorLoss;
+    }
+
+    // Per holding vault: a fractionalized invoice can be written off in both tranches
+    mapping(address => mapping(uint256 => LossAllocation)) public lossAllocations;
+
+    event LossAllocated(
+        uint256 indexed invoiceId,
+        address indexed vault,
+        uint256 seniorLoss,
+        uint256 juniorLoss,
+        uint256 timestamp
+    );
+
+    event RecoveryAllocated(
+        uint256 indexed invoiceId,
+        address indexed vault,
+        uint256 toSenior,
+        uint256 toJunior,
+        uint256 timestamp
+    );
+
+    event YieldAllocated(
+        address indexed vault,
+        uint256 amount,
+        uint256 toSenior,
+        uint256 toJunior,
+        uint256 timestamp
+    );
+
+    event TrancheClaimSettled(
+        address indexed from,
+        address indexed to,
+        uint256 amount,
+        uint256 timestamp
+    );
+
+    modifier onlyTranche() {
+        require(
+            msg.sender == address(seniorVault) || msg.sender == address(juniorVault),
+            "Caller is not a tranche vault"
+        );
+        _;
+    }
+
+    constructor(address _seniorVault, address _juniorVault) Ownable(msg.sender) {
+        require(_seniorVault != address(0), "Invalid senior vault address");
+        require(_juniorVault != address(0), "Invalid junior vault address");
+        require(TrancheVault(_seniorVault).isSenior(), "Senior vault is not senior");
+        require(!TrancheVault(_juniorVault).isSenior(), "Junior vault is not junior");
+        require(
+            TrancheVault(_seniorVault).asset() == TrancheVault(_juniorVault).asset(),
+            "Tranches must share an asset"
+        );
+
+        seniorVault = TrancheVault(_seniorVault);
+        juniorVault = TrancheVault(_juniorVault);
+        _accrueSeniorYield();
+    }
+
+    /**
+     * @dev Checkpoint the senior coupon and snapshot the deployed principal and rate it accrues on
+     * @notice The vaults call it whenever they mint or burn shares and whenever their
+     *         deployed principal changes (purchases, repayments and write-offs)
+     */
+    function accrueSeniorYield() external onlyTranche {
+        _accrueSeniorYield();
+    }
+
+    /**
+     * @dev Split a loss on a defaulted invoice between the tranches
+     * @notice Called by the vault holding the invoice before it writes down its own assets
+     * @param _invoiceId Invoice that defaulted
+     * @param _lossAmount Loss booked by the calling vault
+     */
+    function allocateLoss(uint256 _invoiceId, uint256 _lossAmount) external onlyTranche {
+        _accrueSeniorYield();
+
+        uint256 juniorLoss = Math.min(_lossAmount, juniorVault.totalAssets());
+        uint256 seniorLoss = _lossAmount - juniorLoss;
+
+        // The holding vault writes down the full amount itself; shift the part
+        // the other tranche has to carry through the inter-tranche claim.
+        if (msg.sender == address(seniorVault)) {
+            netSeniorClaim += int256(juniorLoss);
+        } else {
+            netSeniorClaim -= int256(seniorLoss);
+        }
+
+        LossAllocation storage allocation = lossAllocations[msg.sender][_invoiceId];
+        allocation.seniorLoss += seniorLoss;
+        allocation.juniorLoss += juniorLoss;
+
+        totalSeniorLoss += seniorLoss;
+        totalJuniorLoss += juniorLoss;
+
+        emit LossAllocated(_invoiceId, msg.sender, seniorLoss, juniorLoss, block.timestamp);
+    }
+
+    /**
+     * @dev Split a recovery on a written-off invoice, restoring senior losses first
+     * @notice Called by the vault holding the invoice before it receives the cash;
+     *         anything above the recorded losses stays with that vault
+     * @param _invoiceId Invoice the recovery relates to
+     * @param _amount Amount recovered by the calling vault
+     */
+    function allocateRecovery(uint256 _invoiceId, uint256 _amount) external onlyTranche {
+        _accrueSeniorYield();
+
+        LossAllocation storage allocation = lossAllocations[msg.sender][_invoiceId];
+        uint256 toSenior = Math.min(_amount, allocation.seniorLoss);
+        uint256 toJunior = Math.min(_amount - toSenior, allocation.juniorLoss);
+
+        // The holding vault keeps the full cash; shift the counterpart's share
+        if (msg.sender == address(seniorVault)) {
+            netSeniorClaim -= int256(toJunior);
+        } else {
+            netSeniorClaim += int256(toSenior);
+        }
+
+        allocation.seniorLoss -= toSenior;
+        allocation.juniorLoss -= toJunior;
+
+        totalSeniorLoss -= toSenior;
+        totalJuniorLoss -= toJunior;
+
+        emit RecoveryAllocated(_invoiceId, msg.sender, toSenior, toJunior, block.timestamp);
+    }
+
+    /**
+     * @dev Split realized yield: senior up to its accrued target coupon, junior the rest
+     * @notice The calling vault already holds the cash and forwards the counterpart share
+     * @param _amount Yield received by the calling vault
+     * @return toSenior Portion of the yield belonging to the senior tranche
+     * @return toJunior Portion of the yield belonging to the junior tranche
+     */
+    function allocateYield(uint256 _amount)
+        external
+        onlyTranche
+        returns (uint256 toSenior, uint256 toJunior)
+    {
+        _accrueSeniorYield();
+
+        toSenior = Math.min(_amount, seniorYieldOwed);
+        toJunior = _amount - toSenior;
+        seniorYieldOwed -= toSenior;
+
+        totalSeniorYield += toSenior;
+        totalJuniorYield += toJunior;
+
+        emit YieldAllocated(msg.sender, _amount, toSenior, toJunior, block.timestamp);
+    }
+
+    /**
+     * @dev Record a cash payment that reduces the calling vault's inter-tranche debt
+     * @param _cash Idle cash the calling vault can spend on the debt
+     * @return amount Amount the calling vault must transfer to its counterpart
+     */
+    function recordClaimSettlement(uint256 _cash) external onlyTranche returns (uint256 amount) {
+        amount = Math.min(trancheDebt(msg.sender), _cash);
+        require(amount > 0, "Nothing to settle");
+
+        if (msg.sender == address(juniorVault)) {
+            netSeniorClaim -= int256(amount);
+        } else {
+            netSeniorClaim += int256(amount);
+        }
+
+        emit TrancheClaimSettled(msg.sender, counterpartOf(msg.sender), amount, block.timestamp);
+    }
+
+    /**
+     * @dev Signed NAV adjustment for a tranche from unsettled inter-tranche claims
+     *      and the pending senior coupon
+     * @notice The coupon is paid out of yield as it is realized, so the senior tranche
+     *         is credited with it up to the discount accrued in both vaults. Each vault
+     *         already counts its own accrued discount; the difference moves between the
+     *         tranches here.
+     * @param _vault Tranche vault address
+     * @return Positive if the vault is owed value, negative if it owes value
+     */
+    function trancheAdjustment(address _vault) external view returns (int256) {
+        if (_vault != address(seniorVault) && _vault != address(juniorVault)) return 0;
+
+        uint256 seniorDiscount = seniorVault.getAccruedDiscount();
+        uint256 coupon = Math.min(pendingSeniorYield(), seniorDiscount + juniorVault.getAccruedDiscount());
+        int256 seniorAdjustment = netSeniorClaim + int256(coupon) - int256(seniorDiscount);
+
+        return _vault == address(seniorVault) ? seniorAdjustment : -seniorAdjustment;
+    }
+
+    /**
+     * @dev Amount a tranche currently owes to its counterpart
+     * @param _vault Tranche vault address
+     */
+    function trancheDebt(address _vault) public view returns (uint256) {
+        if (_vault == address(juniorVault) && netSeniorClaim > 0) {
+            return uint256(netSeniorClaim);
+        }
+        if (_vault == address(seniorVault) && netSeniorClaim < 0) {
+            return uint256(-netSeniorClaim);
+        }
+        return 0;
+    }
+
+    /**
+     * @dev Get the other tranche of the pool
+     * @param _vault Tranche vault address
+     */
+    function counterpartOf(address _vault) public view returns (address) {
+        if (_vault == address(seniorVault)) return address(juniorVault);
+        if (_vault == address(juniorVault)) return address(seniorVault);
+        return address(0);
+    }
+
+    /**
+     * @dev Senior coupon owed including accrual since the last checkpoint
+     * @notice Accrues at the senior target APY on the senior principal deployed in
+     *         invoices at the last checkpoint, so idle cash and the coupon itself earn
+     *         no coupon. Coupon not yet paid out of realized yield is carried forward
+     *         until yield pays it; senior NAV is credited with it only up to the
+     *         discount accruing in both vaults (see trancheAdjustment), and it stops
+     *         growing while the senior vault has nothing deployed.
+     */
+    function pendingSeniorYield() public view returns (uint256) {
+        uint256 elapsed = block.timestamp - lastAccrualTime;
+        return seniorYieldOwed + (seniorAccrualBase * seniorAccrualRate * elapsed) / (365 days * 10000);
+    }
+
+    /**
+     * @dev Get waterfall state for dashboards
+     * @return seniorAssets Senior tranche NAV
+     * @return juniorAssets Junior tranche NAV (first-loss buffer)
+     * @return subordination Junior share of pool NAV in basis points
+     * @return seniorYieldDue Senior coupon accrued but not yet paid
+     * @return claim Unsettled inter-tranche claim (positive = junior owes senior)
+     */
+    function getWaterfallState() external view returns (
+        uint256 seniorAssets,
+        uint256 juniorAssets,
+        uint256 subordination,
+        uint256 seniorYieldDue,
+        int256 claim
+    ) {
+        seniorAssets = seniorVault.totalAssets();
+        juniorAssets = juniorVault.totalAssets();
+        uint256 poolAssets = seniorAssets + juniorAssets;
+        subordination = poolAssets > 0 ? (juniorAssets * 10000) / poolAssets : 0;
+        seniorYieldDue = pendingSeniorYield();
+        claim = netSeniorClaim;
+    }
+
+    function _accrueSeniorYield() internal {
+        seniorYieldOwed = pendingSeniorYield();
+        lastAccrualTime = block.timestamp;
+
+        seniorAccrualBase = seniorVault.deployedPrincipal();
+        seniorAccrualRate = seniorVault.targetAPY();
+    }
+}
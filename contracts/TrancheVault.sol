@@ -3,29 +3,68 @@ pragma solidity ^0.8.24;
 
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/token/ERC721/utils/ERC721Holder.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "./InvoiceNFT.sol";
 import "./KYCGate.sol";
+import "./TranchePool.sol";
+import "./RedemptionQueue.sol";
+import "./VaultFees.sol";
+import "./InvoicePortfolio.sol";
+import "./RateCurve.sol";
+import "./StrategyAllocator.sol";
+
+/**
+ * @title IVaultStrategy
+ * @dev Implemented by strategies that earn yield on a vault's idle cash
+ * @notice A strategy serves a single vault. The cash the vault lent counts towards its
+ *         NAV; what the strategy earns on top does once the vault harvests it.
+ *         maxWithdraw is what the vault could recall right now.
+ */
+interface IVaultStrategy {
+    function vault() external view returns (address);
+    function asset() external view returns (address);
+    function totalAssets() external view returns (uint256);
+    function maxWithdraw() external view returns (uint256);
+    function deposit(uint256 amount) external;
+    function withdraw(uint256 amount) external;
+}
 
 /**
  * @title TrancheVault
  * @dev ERC-4626 vault for pooling invoices into tranches
- * @notice Senior and junior tranches for different risk/return profiles
+ * @notice Senior and junior tranches for different risk/return profiles.
+ *         Deposits are synchronous; redemptions are asynchronous (ERC-7540 style):
+ *         requestRedeem queues shares, processRedemptions fills the queue pro rata
+ *         from idle cash, and redeem/withdraw claim what has been filled.
  */
-contract TrancheVault is ERC4626, Ownable, ReentrancyGuard {
+contract TrancheVault is ERC4626, ERC721Holder, Ownable, ReentrancyGuard, IInvoicePaymentReceiver {
+    using SafeERC20 for IERC20;
+    using RedemptionQueue for RedemptionQueue.Queue;
+    using VaultFees for VaultFees.State;
+    using RateCurve for RateCurve.Curve;
+    using InvoicePortfolio for InvoicePortfolio.Book;
 
     InvoiceNFT public invoiceNFT;
     KYCGate public kycGate;
+    TranchePool public tranchePool;  // Senior/junior waterfall (optional)
+    IVaultStrategy public strategy;  // Earns yield on idle cash (optional)
+    uint256 public strategyPrincipal; // Cash lent to the strategy and not yet recalled
 
     bool public isSenior;           // true = senior tranche, false = junior
-    uint256 public targetAPY;       // Target APY in basis points (e.g., 800 = 8%)
+    uint256 public fixedTargetAPY;  // Target APY in basis points while no rate curve is set (e.g., 800 = 8%)
     uint256 public totalInvoiceValue;
     uint256 public totalInvoiceDiscountedValue;
+    uint256 public deployedPrincipal;   // Purchase price of invoices still carried on the book
 
     uint256[] public invoiceIds;
     mapping(uint256 => bool) public containsInvoice;
 
+    // Active invoices with their yield, accrual and concentration aggregates (see InvoicePortfolio)
+    InvoicePortfolio.Book internal portfolio;
+
     uint256 public totalYieldDistributed;
     uint256 public lastDistributionTime;
     uint256 public epochCounter;
@@ -35,16 +74,54 @@ contract TrancheVault is ERC4626, Ownable, ReentrancyGuard {
     uint256 public depositCap;               // Maximum total deposits (0 = unlimited)
     bool public depositsEnabled = true;
     bool public withdrawalsEnabled = true;
+    uint256 public redemptionEpochDuration = 1 days;  // Minimum time between queue fills
+    bool public requireAcknowledgement;      // Only buy invoices the debtor has acknowledged
+    uint256 public minIdleCashBps;           // Share of NAV kept in cash for redemptions
+
+    // Utilization-based target APY (see RateCurve)
+    RateCurve.Curve public rateCurve;
+
+    RedemptionQueue.Queue internal redemptionQueue;
+
+    // Management and performance fees, paid in shares (see VaultFees)
+    VaultFees.State public fees;
+
+    // Share transfer compliance
+    mapping(address => bool) public transferExempt;      // Protocol contracts allowed to hold shares without KYC
+    mapping(address => bool) public complianceOfficers;  // May force transfers for recovery/enforcement
 
     // Performance tracking
     uint256 public totalDefaultLoss;
     uint256 public cumulativeYield;
+    uint256 public totalRecovered;    // Cash recovered on written-off invoices
+    uint256 public totalPrincipalRepaid;
+    uint256 public realizedYield;        // Net yield on invoices repaid in full
+    uint256 public realizedCapitalTime;  // Sum of purchase price x seconds held for those invoices
+
+    // Early repayment terms: share of the unearned discount handed back when an
+    // invoice is repaid in full before maturity (0 = keep the whole discount)
+    enum RebateRecipient { DEBTOR, ISSUER }
+    uint256 public earlyRepaymentRebateBps;
+    RebateRecipient public rebateRecipient;
 
     struct InvoiceAllocation {
         uint256 invoiceId;
         uint256 faceValue;
+        uint256 purchasePrice;    // discountedValue paid to the issuer
         uint256 addedAt;
         bool isActive;
+        uint256 principalRepaid;  // Debtor repayments applied to principal
+        uint256 writtenOff;       // Principal written off after default
+        uint256 recovered;        // Cash recovered after write-off
+        uint256 maturityDate;
+        uint256 yieldReceived;    // Repayments above the purchase price, net of rebates
+        address issuer;
+        address debtor;
+        uint256 repaidAt;         // When the invoice was repaid in full (0 = not yet)
+        uint256 rebatePaid;       // Unearned discount returned on early repayment
+        bool accruing;            // Discount still accruing into NAV (see InvoicePortfolio)
+        uint256 accrualRate;      // Discount accrued per second, scaled by InvoicePortfolio.ACCRUAL_PRECISION
+        uint256 accrualEnd;       // End of the maturity day, when the discount is fully accrued
     }
 
     mapping(uint256 => InvoiceAllocation) public allocations;
@@ -62,19 +139,107 @@ contract TrancheVault is ERC4626, Ownable, ReentrancyGuard {
         string reason
     );
 
+    event InvoiceSettled(
+        uint256 indexed invoiceId,
+        InvoiceNFT.InvoiceStatus status,
+        uint256 yieldEarned,
+        uint256 loss,
+        address indexed settledBy,
+        uint256 timestamp
+    );
+
     event YieldDistributed(
         uint256 amount,
+        uint256 fees,
         uint256 timestamp,
         uint256 epoch,
         uint256 newSharePrice
     );
 
+    event InvoicePaymentBooked(
+        uint256 indexed invoiceId,
+        uint256 principalAmount,
+        uint256 yieldAmount,
+        uint256 timestamp
+    );
+
     event LossRecorded(
         uint256 indexed invoiceId,
         uint256 lossAmount,
         uint256 timestamp
     );
 
+    event RecoveryRecorded(
+        uint256 indexed invoiceId,
+        uint256 amount,
+        uint256 totalRecovered,
+        uint256 timestamp
+    );
+
+    event EarlyRepaymentRebatePaid(
+        uint256 indexed invoiceId,
+        address indexed recipient,
+        uint256 amount,
+        uint256 timestamp
+    );
+
+    event EarlyRepaymentTermsUpdated(uint256 rebateBps, RebateRecipient recipient);
+
+    event FeesAccrued(address indexed recipient, uint256 shares, uint256 assets, uint256 timestamp);
+
+    event FeesUpdated(uint256 managementFeeBps, uint256 performanceFeeBps, address recipient);
+
+    event RateCurveUpdated(uint256 baseRate, uint256 slope1, uint256 kink, uint256 slope2);
+
+    event IdleCashBufferUpdated(uint256 minIdleCashBps);
+
+    event TranchePoolUpdated(address oldPool, address newPool);
+
+    event StrategyUpdated(address oldStrategy, address newStrategy);
+
+    event TrancheClaimPaid(address indexed to, uint256 amount, uint256 timestamp);
+
+    event RedeemRequest(
+        address indexed controller,
+        address indexed owner,
+        uint256 indexed requestId,
+        address sender,
+        uint256 shares
+    );
+
+    event RedeemRequestCancelled(address indexed controller, uint256 shares);
+
+    event RedemptionEpochProcessed(
+        uint256 indexed epoch,
+        uint256 sharesRedeemed,
+        uint256 assetsReserved,
+        uint256 sharesStillPending,
+        uint256 timestamp
+    );
+
+    event RedemptionEpochDurationUpdated(uint256 oldDuration, uint256 newDuration);
+
+    event TransferExemptionUpdated(address indexed account, bool exempt);
+
+    event ComplianceOfficerUpdated(address indexed officer, bool enabled);
+
+    event ForcedTransfer(
+        address indexed officer,
+        address indexed from,
+        address indexed to,
+        uint256 shares,
+        string reason,
+        uint256 timestamp
+    );
+
+    event AcknowledgementRequirementUpdated(bool required);
+
+    event ConcentrationLimitsUpdated(
+        uint256 maxDebtorConcentration,
+        uint256 maxIssuerConcentration,
+        uint256 maxMaturityBucketConcentration
+    );
+
     event VaultParametersUpdated(
         uint256 minDeposit,
         uint256 depositCap,
@@ -99,10 +264,24 @@ contract TrancheVault is ERC4626, Ownable, ReentrancyGuard {
         invoiceNFT = InvoiceNFT(_invoiceNFT);
         kycGate = KYCGate(_kycGate);
         isSenior = _isSenior;
-        targetAPY = _targetAPY;
+        fixedTargetAPY = _targetAPY;
         lastDistributionTime = block.timestamp;
     }
 
+    /**
+     * @dev Net asset value: unreserved cash plus invoices carried at cost plus the
+     *      discount accrued on them so far, adjusted for the tranche waterfall
+     */
+    function totalAssets() public view virtual override returns (uint256) {
+        int256 nav = int256(_availableCash() + deployedPrincipal + getAccruedDiscount());
+
+        if (address(tranchePool) != address(0)) {
+            nav += tranchePool.trancheAdjustment(address(this));
+        }
+
+        return nav > 0 ? uint256(nav) : 0;
+    }
+
     /**
      * @dev Deposit assets with KYC check
      */
@@ -113,14 +292,9 @@ contract TrancheVault is ERC4626, Ownable, ReentrancyGuard {
         nonReentrant
         returns (uint256)
     {
-        require(depositsEnabled, "Deposits are currently disabled");
-        require(kycGate.isVerified(receiver), "Receiver not KYC verified");
-        require(assets >= minDeposit, "Below minimum deposit");
-
-        if (depositCap > 0) {
-            require(totalAssets() + assets <= depositCap, "Deposit exceeds cap");
-        }
+        _requireDepositAllowed(receiver, assets);
 
+        _accrueFees();
         return super.deposit(assets, receiver);
     }
 
@@ -134,87 +308,254 @@ contract TrancheVault is ERC4626, Ownable, ReentrancyGuard {
         nonReentrant
         returns (uint256)
     {
-        require(depositsEnabled, "Deposits are currently disabled");
-        require(kycGate.isVerified(receiver), "Receiver not KYC verified");
+        _accrueFees();
+        _requireDepositAllowed(receiver, previewMint(shares));
 
-        uint256 assets = previewMint(shares);
-        require(assets >= minDeposit, "Below minimum deposit");
+        return super.mint(shares, receiver);
+    }
 
-        if (depositCap > 0) {
-            require(totalAssets() + assets <= depositCap, "Deposit exceeds cap");
+    /**
+     * @dev Queue shares for asynchronous redemption
+     * @notice Shares move into vault escrow and keep sharing gains and losses until filled
+     * @param shares Shares to redeem
+     * @param controller Address that will claim the redemption
+     * @param owner Current owner of the shares
+     * @return requestId Always 0: requests are aggregated per controller
+     */
+    function requestRedeem(uint256 shares, address controller, address owner)
+        external
+        nonReentrant
+        returns (uint256 requestId)
+    {
+        require(withdrawalsEnabled, "Withdrawals are currently disabled");
+        require(shares > 0, "Shares must be positive");
+        kycGate.checkRedeemRequest(owner, controller);
+
+        if (msg.sender != owner) {
+            _spendAllowance(owner, msg.sender, shares);
         }
 
-        return super.mint(shares, receiver);
+        // Escrow outside the transfer policy; checkRedeemRequest has applied basic compliance
+        super._update(owner, address(this), shares);
+        redemptionQueue.request(controller, shares);
+
+        emit RedeemRequest(controller, owner, 0, msg.sender, shares);
+        return 0;
+    }
+
+    /**
+     * @dev Take back shares that have not been filled yet
+     * @return shares Shares returned to the caller
+     */
+    function cancelRedeemRequest() external nonReentrant returns (uint256 shares) {
+        shares = redemptionQueue.cancel(msg.sender);
+        require(shares > 0, "No pending request");
+
+        _transfer(address(this), msg.sender, shares);
+
+        emit RedeemRequestCancelled(msg.sender, shares);
     }
 
     /**
-     * @dev Redeem shares with KYC check
+     * @dev Close the current redemption epoch and fill the queue pro rata from idle cash
+     * @notice Callable by anyone once redemptionEpochDuration has passed
      */
-    function redeem(uint256 shares, address receiver, address owner)
+    function processRedemptions() external nonReentrant {
+        _accrueFees();
+
+        // Fill from the cash actually recalled if the strategy cannot return it all
+        uint256 pendingAssets = convertToAssets(redemptionQueue.pendingShares);
+        (uint256 shares, uint256 assets) = redemptionQueue.quoteFill(
+            redemptionEpochDuration,
+            pendingAssets,
+            _pullFromStrategy(pendingAssets)
+        );
+
+        // Reserve the assets before burning so the burn sees the NAV they leave behind
+        uint256 epoch = redemptionQueue.epoch;
+        redemptionQueue.fill(shares, assets);
+        _burn(address(this), shares);
+
+        emit RedemptionEpochProcessed(
+            epoch,
+            shares,
+            assets,
+            redemptionQueue.pendingShares,
+            block.timestamp
+        );
+    }
+
+    /**
+     * @dev Claim filled redemption shares for assets
+     * @param shares Filled shares to claim
+     * @param receiver Address receiving the assets
+     * @param controller Controller of the request (must be the caller)
+     */
+    function redeem(uint256 shares, address receiver, address controller)
         public
         virtual
         override
         nonReentrant
-        returns (uint256)
+        returns (uint256 assets)
     {
-        require(withdrawalsEnabled, "Withdrawals are currently disabled");
-        require(kycGate.isVerified(receiver), "Receiver not KYC verified");
+        _requireClaimant(receiver, controller);
 
-        return super.redeem(shares, receiver, owner);
+        assets = redemptionQueue.claimShares(controller, shares);
+        _payClaim(receiver, controller, assets, shares);
     }
 
     /**
-     * @dev Withdraw assets with KYC check
+     * @dev Claim assets from filled redemptions
+     * @param assets Assets to claim
+     * @param receiver Address receiving the assets
+     * @param controller Controller of the request (must be the caller)
      */
-    function withdraw(uint256 assets, address receiver, address owner)
+    function withdraw(uint256 assets, address receiver, address controller)
         public
         virtual
         override
         nonReentrant
-        returns (uint256)
+        returns (uint256 shares)
     {
-        require(withdrawalsEnabled, "Withdrawals are currently disabled");
-        require(kycGate.isVerified(receiver), "Receiver not KYC verified");
+        _requireClaimant(receiver, controller);
+
+        shares = redemptionQueue.claimAssets(controller, assets);
+        _payClaim(receiver, controller, assets, shares);
+    }
+
+    /**
+     * @dev Claimable assets for a controller
+     */
+    function maxWithdraw(address controller) public view virtual override returns (uint256) {
+        return redemptionQueue.getRequest(controller).claimableAssets;
+    }
+
+    /**
+     * @dev Claimable shares for a controller
+     */
+    function maxRedeem(address controller) public view virtual override returns (uint256) {
+        return redemptionQueue.getRequest(controller).claimableShares;
+    }
+
+    /**
+     * @dev Redemptions are asynchronous, so there is no synchronous preview
+     */
+    function previewRedeem(uint256) public view virtual override returns (uint256) {
+        revert("Async redemption: use requestRedeem");
+    }
+
+    /**
+     * @dev Redemptions are asynchronous, so there is no synchronous preview
+     */
+    function previewWithdraw(uint256) public view virtual override returns (uint256) {
+        revert("Async redemption: use requestRedeem");
+    }
+
+    /**
+     * @dev Shares still waiting in the queue for a controller
+     */
+    function pendingRedeemRequest(uint256, address controller) external view returns (uint256) {
+        return redemptionQueue.getRequest(controller).pendingShares;
+    }
 
-        return super.withdraw(assets, receiver, owner);
+    /**
+     * @dev Filled shares a controller can claim
+     */
+    function claimableRedeemRequest(uint256, address controller) external view returns (uint256) {
+        return redemptionQueue.getRequest(controller).claimableShares;
     }
 
     /**
-     * @dev Add invoice to vault portfolio
+     * @dev Full redemption status for a controller
+     * @return pendingShares Shares queued and not filled yet
+     * @return claimableShares Shares filled and waiting to be claimed
+     * @return claimableAssets Assets reserved for the claimable shares
+     * @return claimedAssets Lifetime assets claimed
+     */
+    function getRedeemRequest(address controller) external view returns (
+        uint256 pendingShares,
+        uint256 claimableShares,
+        uint256 claimableAssets,
+        uint256 claimedAssets
+    ) {
+        RedemptionQueue.Request memory r = redemptionQueue.getRequest(controller);
+        return (r.pendingShares, r.claimableShares, r.claimableAssets, r.claimedAssets);
+    }
+
+    /**
+     * @dev Queue-wide redemption status
+     * @return epoch Current open epoch
+     * @return pendingShares Shares waiting across all controllers
+     * @return reservedAssets Cash set aside for claimable redemptions
+     * @return nextProcessingTime Earliest time the epoch can be processed
+     */
+    function getRedemptionQueueState() external view returns (
+        uint256 epoch,
+        uint256 pendingShares,
+        uint256 reservedAssets,
+        uint256 nextProcessingTime
+    ) {
+        return (
+            redemptionQueue.epoch,
+            redemptionQueue.pendingShares,
+            redemptionQueue.reservedAssets,
+            redemptionQueue.lastProcessedAt + redemptionEpochDuration
+        );
+    }
+
+    /**
+     * @dev Buy a verified invoice into the vault portfolio
+     * @notice Pays discountedValue to the issuer, takes custody of the invoice NFT
+     *         and marks it FUNDED. The issuer must have approved this vault on InvoiceNFT.
+     *         For a fractionalized invoice the vault buys only its fraction; the NFT
+     *         stays escrowed in InvoiceNFT. The purchase must leave the idle cash
+     *         buffer (minIdleCashBps of NAV) in the vault for redemptions.
      * @param _invoiceId Invoice token ID to add
      */
     function addInvoice(uint256 _invoiceId) external onlyOwner nonReentrant {
         require(!containsInvoice[_invoiceId], "Invoice already in vault");
 
-        InvoiceNFT.Invoice memory invoice = invoiceNFT.getInvoice(_invoiceId);
-        require(
-            invoice.status == InvoiceNFT.InvoiceStatus.VERIFIED,
-            "Invoice not verified"
+        InvoiceAllocation storage allocation = allocations[_invoiceId];
+        portfolio.open(invoiceNFT, _invoiceId, requireAcknowledgement, asset(), allocation);
+        uint256 faceValue = allocation.faceValue;
+        uint256 purchasePrice = allocation.purchasePrice;
+
+        uint256 nav = totalAssets();
+        portfolio.checkLimits(
+            allocation,
+            StrategyAllocator.liquid(strategy, asset(), redemptionQueue.reservedAssets, strategyPrincipal),
+            (nav * minIdleCashBps) / 10000,
+            nav
         );
-        require(invoice.maturityDate > block.timestamp, "Invoice already matured");
 
         invoiceIds.push(_invoiceId);
         containsInvoice[_invoiceId] = true;
-        totalInvoiceValue += invoice.faceValue;
-        totalInvoiceDiscountedValue += invoice.discountedValue;
+        totalInvoiceValue += faceValue;
+        totalInvoiceDiscountedValue += purchasePrice;
+        deployedPrincipal += purchasePrice;
 
-        allocations[_invoiceId] = InvoiceAllocation({
-            invoiceId: _invoiceId,
-            faceValue: invoice.faceValue,
-            addedAt: block.timestamp,
-            isActive: true
-        });
+        // Escrow the NFT, move the invoice to FUNDED and pay the issuer
+        if (!invoiceNFT.isFractionalized(_invoiceId)) {
+            invoiceNFT.safeTransferFrom(allocation.issuer, address(this), _invoiceId);
+        }
+        invoiceNFT.markAsFunded(_invoiceId);
+        _pullFromStrategy(purchasePrice);
+        IERC20(asset()).safeTransfer(allocation.issuer, purchasePrice);
+        _accrueSeniorYield();
 
         emit InvoiceAdded(
             _invoiceId,
-            invoice.faceValue,
-            invoice.discountedValue,
+            faceValue,
+            purchasePrice,
             block.timestamp
         );
     }
 
     /**
      * @dev Remove invoice from vault (when paid or defaulted)
+     * @notice Principal the vault never received in cash (e.g. a payment recorded
+     *         off-chain) is written off through the waterfall; cash that arrives
+     *         later is booked as a recovery
      * @param _invoiceId Invoice token ID to remove
      * @param _reason Reason for removal
      */
@@ -223,48 +564,139 @@ contract TrancheVault is ERC4626, Ownable, ReentrancyGuard {
         onlyOwner
         nonReentrant
     {
-        require(containsInvoice[_invoiceId], "Invoice not in vault");
+        _closeInvoice(_invoiceId, true);
 
-        InvoiceNFT.Invoice memory invoice = invoiceNFT.getInvoice(_invoiceId);
+        emit InvoiceRemoved(_invoiceId, block.timestamp, _reason);
+    }
 
-        containsInvoice[_invoiceId] = false;
-        allocations[_invoiceId].isActive = false;
+    /**
+     * @dev Settle a PAID, DEFAULTED or WRITTEN_OFF invoice; anyone may call
+     * @notice Lets keepers take finished invoices off the book without the owner.
+     *         Defaulted principal not yet written off goes through the waterfall as
+     *         a loss; yield was booked as repayments arrived. Reverts while principal
+     *         recorded as repaid in InvoiceNFT has not reached the vault in cash
+     *         (see collectPayment).
+     * @param _invoiceId Invoice token ID to settle
+     */
+    function settle(uint256 _invoiceId) external nonReentrant {
+        InvoiceNFT.InvoiceStatus status = _closeInvoice(_invoiceId, false);
+        InvoiceAllocation storage allocation = allocations[_invoiceId];
 
-        // Adjust totals
-        if (totalInvoiceValue >= invoice.faceValue) {
-            totalInvoiceValue -= invoice.faceValue;
-        }
-        if (totalInvoiceDiscountedValue >= invoice.discountedValue) {
-            totalInvoiceDiscountedValue -= invoice.discountedValue;
-        }
+        emit InvoiceSettled(
+            _invoiceId,
+            status,
+            allocation.yieldReceived,
+            allocation.writtenOff - allocation.recovered,
+            msg.sender,
+            block.timestamp
+        );
+    }
 
-        emit InvoiceRemoved(_invoiceId, block.timestamp, _reason);
+    /**
+     * @dev Book a debtor repayment routed here by InvoiceNFT.payInvoice
+     * @notice The cash has already arrived. Payments repay principal first, then
+     *         recover written-off principal; anything beyond that (discount, late
+     *         fees) is yield. Recoveries may arrive after the invoice was removed.
+     *         The payment that repays the invoice in full closes its holding period,
+     *         and before maturity it pays out the early repayment rebate.
+     * @param _tokenId Invoice token ID
+     * @param _amount Amount paid
+     */
+    function onInvoicePayment(uint256 _tokenId, uint256 _amount) external nonReentrant {
+        require(msg.sender == address(invoiceNFT), "Caller is not InvoiceNFT");
+
+        _bookPayment(_tokenId, _amount);
     }
 
     /**
-     * @dev Distribute yield to vault (when invoices are paid)
+     * @dev Stop accruing discount on an invoice InvoiceNFT has just marked DEFAULTED
+     * @param _tokenId Invoice token ID
+     */
+    function onInvoiceDefault(uint256 _tokenId) external nonReentrant {
+        require(msg.sender == address(invoiceNFT), "Caller is not InvoiceNFT");
+
+        portfolio.stopAccrual(allocations[_tokenId]);
+    }
+
+    /**
+     * @dev Pay cash for an invoice that was collected outside InvoiceNFT.payInvoice
+     * @notice For payments recorded off-chain with InvoiceNFT.recordPayment, up to the
+     *         amount recorded but not yet received, and for recourse escrows (RECOURSE_ROLE)
+     *         paying written-off invoices. The cash is split into principal, recovery
+     *         and yield the same way as onInvoicePayment.
+     * @param _invoiceId Invoice token ID
+     * @param _amount Amount paid
+     */
+    function collectPayment(uint256 _invoiceId, uint256 _amount) external nonReentrant {
+        require(_amount > 0, "Payment amount must be positive");
+        InvoicePortfolio.checkCollection(invoiceNFT, allocations[_invoiceId], _amount);
+
+        IERC20(asset()).safeTransferFrom(msg.sender, address(this), _amount);
+
+        _bookPayment(_invoiceId, _amount);
+    }
+
+    /**
+     * @dev Distribute external yield to vault (e.g. payments settled off-chain)
+     * @notice Invoice repayments made through InvoiceNFT.payInvoice are booked
+     *         automatically; cash for a specific invoice goes through collectPayment
      * @param _amount Amount of yield to distribute
      */
     function distributeYield(uint256 _amount) external onlyOwner nonReentrant {
         require(_amount > 0, "Yield amount must be positive");
 
         // Transfer yield from sender to vault
-        IERC20(asset()).transferFrom(msg.sender, address(this), _amount);
+        IERC20(asset()).safeTransferFrom(msg.sender, address(this), _amount);
 
-        totalYieldDistributed += _amount;
-        cumulativeYield += _amount;
-        lastDistributionTime = block.timestamp;
-        epochCounter++;
+        _distributeYield(_amount);
+    }
 
-        uint256 newSharePrice = convertToAssets(10**decimals());
+    /**
+     * @dev Split an invoice payment that has arrived into principal, recovery and yield
+     */
+    function _bookPayment(uint256 _tokenId, uint256 _amount) internal {
+        InvoiceAllocation storage allocation = allocations[_tokenId];
+        require(allocation.addedAt > 0, "Invoice not in vault");
+
+        (
+            uint256 principalAmount,
+            uint256 recoveryAmount,
+            uint256 yieldAmount,
+            uint256 rebate,
+            bool repaidInFull
+        ) = portfolio.applyPayment(invoiceNFT, allocation, _amount, earlyRepaymentRebateBps);
+
+        if (principalAmount > 0) {
+            deployedPrincipal -= principalAmount;
+            totalPrincipalRepaid += principalAmount;
+            _accrueSeniorYield();
+        }
+
+        if (recoveryAmount > 0) {
+            _bookRecovery(_tokenId, recoveryAmount);
+        }
 
-        emit YieldDistributed(_amount, block.timestamp, epochCounter, newSharePrice);
+        if (rebate > 0) {
+            _payEarlyRepaymentRebate(_tokenId, allocation, rebate);
+        }
+
+        if (yieldAmount > 0) {
+            _distributeYield(yieldAmount);
+        }
+
+        // Close the holding period so realized APY uses the time actually outstanding
+        if (repaidInFull) {
+            realizedYield += allocation.yieldReceived;
+            realizedCapitalTime += allocation.purchasePrice * (block.timestamp - allocation.addedAt);
+        }
+
+        emit InvoicePaymentBooked(_tokenId, principalAmount, yieldAmount, block.timestamp);
     }
 
     /**
-     * @dev Record loss from defaulted invoice
+     * @dev Write off part of a defaulted invoice's principal against vault assets
      * @param _invoiceId Invoice that defaulted
-     * @param _lossAmount Amount of loss
+     * @param _lossAmount Amount of principal to write off
      */
     function recordLoss(uint256 _invoiceId, uint256 _lossAmount)
         external
@@ -273,55 +705,154 @@ contract TrancheVault is ERC4626, Ownable, ReentrancyGuard {
     {
         require(containsInvoice[_invoiceId], "Invoice not in vault");
         require(_lossAmount > 0, "Loss amount must be positive");
+        require(_lossAmount <= getWriteOffableAmount(_invoiceId), "Loss exceeds unpaid principal");
 
-        totalDefaultLoss += _lossAmount;
+        _writeOff(_invoiceId, _lossAmount);
+    }
 
-        emit LossRecorded(_invoiceId, _lossAmount, block.timestamp);
+    /**
+     * @dev Write off all remaining unpaid principal of a defaulted invoice
+     * @notice Permissionless so share price drops as soon as the default is on-chain
+     * @param _invoiceId Invoice that defaulted
+     */
+    function writeOffDefaulted(uint256 _invoiceId) external nonReentrant {
+        require(containsInvoice[_invoiceId], "Invoice not in vault");
+
+        uint256 lossAmount = getWriteOffableAmount(_invoiceId);
+        require(lossAmount > 0, "Nothing to write off");
+
+        _writeOff(_invoiceId, lossAmount);
     }
 
     /**
-     * @dev Calculate expected APY based on current portfolio
-     * @return Expected APY in basis points
+     * @dev Record cash recovered on a written-off invoice (collections, insurance, etc.)
+     * @notice The cash is pulled from the caller; the waterfall restores senior losses first
+     * @param _invoiceId Invoice the recovery relates to
+     * @param _amount Amount recovered
      */
-    function getExpectedAPY() external view returns (uint256) {
-        if (totalInvoiceValue == 0 || invoiceIds.length == 0) {
-            return 0;
-        }
+    function recordRecovery(uint256 _invoiceId, uint256 _amount)
+        external
+        onlyOwner
+        nonReentrant
+    {
+        require(allocations[_invoiceId].writtenOff > 0, "Invoice not written off");
+        require(_amount > 0, "Recovery amount must be positive");
 
-        uint256 totalExpectedYield = 0;
-        uint256 totalDuration = 0;
-        uint256 activeInvoices = 0;
+        _bookRecovery(_invoiceId, _amount);
 
-        for (uint256 i = 0; i < invoiceIds.length; i++) {
-            if (!allocations[invoiceIds[i]].isActive) continue;
+        IERC20(asset()).safeTransferFrom(msg.sender, address(this), _amount);
+    }
 
-            InvoiceNFT.Invoice memory invoice = invoiceNFT.getInvoice(invoiceIds[i]);
+    /**
+     * @dev Principal of a defaulted invoice that has not been repaid or written off yet
+     * @param _invoiceId Invoice token ID
+     * @return Amount that can still be written off (0 unless the invoice is DEFAULTED or WRITTEN_OFF)
+     */
+    function getWriteOffableAmount(uint256 _invoiceId) public view returns (uint256) {
+        if (!containsInvoice[_invoiceId]) return 0;
 
-            if (invoice.status != InvoiceNFT.InvoiceStatus.PAID &&
-                invoice.status != InvoiceNFT.InvoiceStatus.DEFAULTED) {
+        return InvoicePortfolio.writeOffable(invoiceNFT, allocations[_invoiceId]);
+    }
 
-                uint256 yieldAmount = invoice.faceValue - invoice.discountedValue;
-                uint256 duration = invoice.maturityDate > invoice.issuedAt ?
-                    invoice.maturityDate - invoice.issuedAt : 90 days;
+    /**
+     * @dev Pay down what this vault owes its counterpart tranche from idle cash
+     * @notice Callable by anyone; moves cash only up to the recorded debt
+     * @return paid Amount transferred to the counterpart vault
+     */
+    function settleTrancheClaim() external nonReentrant returns (uint256 paid) {
+        require(address(tranchePool) != address(0), "No tranche pool set");
 
-                totalExpectedYield += yieldAmount;
-                totalDuration += duration;
-                activeInvoices++;
-            }
-        }
+        paid = tranchePool.recordClaimSettlement(_pullFromStrategy(tranchePool.trancheDebt(address(this))));
 
-        if (activeInvoices == 0 || totalDuration == 0) {
-            return 0;
-        }
+        address counterpart = tranchePool.counterpartOf(address(this));
+        IERC20(asset()).safeTransfer(counterpart, paid);
 
-        uint256 avgDuration = totalDuration / activeInvoices;
-        if (avgDuration == 0) return 0;
+        emit TrancheClaimPaid(counterpart, paid, block.timestamp);
+    }
 
-        // APY = (totalYield / totalValue) * (365 days / avgDuration) * 10000
-        uint256 apy = (totalExpectedYield * 365 days * 10000) /
-                      (totalInvoiceValue * avgDuration);
+    /**
+     * @dev Discount accrued but not yet received in cash across active invoices
+     * @notice Included in totalAssets so the share price moves continuously instead
+     *         of stepping up when repayments arrive. The waterfall still splits the
+     *         yield with the counterpart tranche when the cash is realized. Read from
+     *         the running accrual InvoicePortfolio keeps, whatever the number of invoices.
+     */
+    function getAccruedDiscount() public view returns (uint256) {
+        return portfolio.accruedDiscount();
+    }
+
+    /**
+     * @dev Accrued, not yet received discount on a single invoice
+     * @notice Accrues linearly from purchase to the end of the maturity day; stops
+     *         once the vault books the payment that repays the invoice in full, or
+     *         the invoice defaults or is removed
+     * @param _invoiceId Invoice token ID
+     */
+    function getInvoiceAccrual(uint256 _invoiceId) external view returns (uint256) {
+        return InvoicePortfolio.accrual(allocations[_invoiceId]);
+    }
+
+    /**
+     * @dev Annualized rate at which the portfolio is accruing discount right now
+     * @notice Comparable with getExpectedAPY; matured invoices no longer accrue
+     * @return Accrual APY in basis points, relative to deployed principal
+     */
+    function getAccrualAPY() external view returns (uint256) {
+        return portfolio.accrualAPY(deployedPrincipal);
+    }
+
+    /**
+     * @dev Principal that can still be added before each concentration limit is hit
+     * @notice Lets the risk team check a prospective invoice before proposing it
+     * @param _debtor Invoice debtor
+     * @param _issuer Invoice issuer
+     * @param _maturityDate Invoice maturity (bucketed into 30-day windows)
+     * @return debtorHeadroom Remaining capacity for the debtor (max uint if unlimited)
+     * @return issuerHeadroom Remaining capacity for the issuer (max uint if unlimited)
+     * @return bucketHeadroom Remaining capacity for the maturity bucket (max uint if unlimited)
+     */
+    function getConcentrationHeadroom(address _debtor, address _issuer, uint256 _maturityDate)
+        public
+        view
+        returns (uint256 debtorHeadroom, uint256 issuerHeadroom, uint256 bucketHeadroom)
+    {
+        return portfolio.headroom(totalAssets(), _debtor, _issuer, _maturityDate);
+    }
+
+    /**
+     * @dev Concentration limits in basis points of NAV (0 = no limit)
+     */
+    function getConcentrationLimits() external view returns (
+        uint256 maxDebtor,
+        uint256 maxIssuer,
+        uint256 maxMaturityBucket
+    ) {
+        return (portfolio.maxDebtorConcentration, portfolio.maxIssuerConcentration, portfolio.maxMaturityBucketConcentration);
+    }
 
-        return apy;
+    /**
+     * @dev Calculate expected APY based on current portfolio
+     * @notice Uses the face value and price this vault holds, so fractions of an
+     *         invoice count only for the vault's share, over its holding period.
+     *         Read from aggregates kept by addInvoice/removeInvoice; an invoice
+     *         counts until it is removed.
+     * @return Expected APY in basis points
+     */
+    function getExpectedAPY() public view returns (uint256) {
+        return portfolio.expectedAPY();
+    }
+
+    /**
+     * @dev Annualized yield actually earned on invoices repaid in full
+     * @notice Weighted by purchase price over the time each invoice was really held,
+     *         so early repayments and rebates are reflected. Losses on defaulted
+     *         invoices are reported separately in totalDefaultLoss.
+     * @return Realized APY in basis points
+     */
+    function getRealizedAPY() external view returns (uint256) {
+        if (realizedCapitalTime == 0) return 0;
+
+        return (realizedYield * 365 days * 10000) / realizedCapitalTime;
     }
 
     /**
@@ -334,49 +865,49 @@ contract TrancheVault is ERC4626, Ownable, ReentrancyGuard {
         uint256 totalYield,
         uint256 totalLoss,
         uint256 sharePrice,
-        uint256 expectedAPY
+        uint256 expectedAPY,
+        uint256 totalFees,
+        uint256 netAPY
     ) {
         tvl = totalAssets();
         invoiceCount = invoiceIds.length;
         activeInvoiceValue = totalInvoiceValue;
         totalYield = totalYieldDistributed;
         totalLoss = totalDefaultLoss;
-        sharePrice = totalSupply() > 0 ? convertToAssets(10**decimals()) : 10**decimals();
-        expectedAPY = this.getExpectedAPY();
+        sharePrice = getSharePrice();
+        expectedAPY = getExpectedAPY();
+        totalFees = fees.totalManagementFees + fees.totalPerformanceFees;
+        netAPY = fees.netAPY(expectedAPY, targetAPY());
     }
 
     /**
-     * @dev Get all invoice IDs in vault
+     * @dev Page through every invoice the vault has bought, in purchase order
+     * @param _offset Index of the first ID to return
+     * @param _limit Maximum number of IDs to return
+     * @return ids Invoice IDs
+     * @return total Number of invoices ever bought
      */
-    function getAllInvoiceIds() external view returns (uint256[] memory) {
-        return invoiceIds;
+    function getInvoiceIds(uint256 _offset, uint256 _limit)
+        external
+        view
+        returns (uint256[] memory ids, uint256 total)
+    {
+        return InvoicePortfolio.paginate(invoiceIds, _offset, _limit);
     }
 
     /**
-     * @dev Get active invoice IDs only
+     * @dev Page through the invoices still active in the vault (unordered)
+     * @param _offset Index of the first ID to return
+     * @param _limit Maximum number of IDs to return
+     * @return ids Invoice IDs
+     * @return total Number of active invoices
      */
-    function getActiveInvoiceIds() external view returns (uint256[] memory) {
-        uint256 activeCount = 0;
-
-        // Count active invoices
-        for (uint256 i = 0; i < invoiceIds.length; i++) {
-            if (allocations[invoiceIds[i]].isActive) {
-                activeCount++;
-            }
-        }
-
-        // Create array of active IDs
-        uint256[] memory activeIds = new uint256[](activeCount);
-        uint256 index = 0;
-
-        for (uint256 i = 0; i < invoiceIds.length; i++) {
-            if (allocations[invoiceIds[i]].isActive) {
-                activeIds[index] = invoiceIds[i];
-                index++;
-            }
-        }
-
-        return activeIds;
+    function getActiveInvoiceIds(uint256 _offset, uint256 _limit)
+        external
+        view
+        returns (uint256[] memory ids, uint256 total)
+    {
+        return InvoicePortfolio.paginate(portfolio.activeIds, _offset, _limit);
     }
 
     /**
@@ -402,20 +933,509 @@ contract TrancheVault is ERC4626, Ownable, ReentrancyGuard {
     }
 
     /**
-     * @dev Update target APY
+     * @dev Set the fee schedule; fees due under the old schedule are charged first
+     * @param _managementFeeBps Annual management fee on totalAssets in basis points (max 5%); cash
+     *        reserved for queued redemptions is not charged
+     * @param _performanceFeeBps Performance fee on yield above targetAPY in basis points (max 50%)
+     * @param _recipient Receives fee shares; must be transfer exempt so it can hold shares without KYC
+     */
+    function updateFees(uint256 _managementFeeBps, uint256 _performanceFeeBps, address _recipient)
+        external
+        onlyOwner
+    {
+        require(
+            _managementFeeBps <= VaultFees.MAX_MANAGEMENT_FEE && _performanceFeeBps <= VaultFees.MAX_PERFORMANCE_FEE,
+            "Fee too high"
+        );
+        require(transferExempt[_recipient], "Fee recipient not transfer exempt");
+
+        _accrueFees();
+        fees.managementFeeBps = _managementFeeBps;
+        fees.performanceFeeBps = _performanceFeeBps;
+        fees.recipient = _recipient;
+
+        emit FeesUpdated(_managementFeeBps, _performanceFeeBps, _recipient);
+    }
+
+    /**
+     * @dev Link this vault to its senior/junior waterfall pool
+     * @param _tranchePool TranchePool address (zero to detach)
+     */
+    function setTranchePool(address _tranchePool) external onlyOwner {
+        if (_tranchePool != address(0)) {
+            require(
+                TranchePool(_tranchePool).counterpartOf(address(this)) != address(0),
+                "Vault not part of pool"
+            );
+        } else {
+            require(
+                address(tranchePool) == address(0) ||
+                tranchePool.netSeniorClaim() == 0,
+                "Unsettled tranche claim"
+            );
+        }
+
+        address oldPool = address(tranchePool);
+        tranchePool = TranchePool(_tranchePool);
+
+        emit TranchePoolUpdated(oldPool, _tranchePool);
+    }
+
+    /**
+     * @dev Switch the idle cash strategy; everything lent to the old one is recalled first
+     * @param _strategy Strategy serving this vault (zero to keep all cash in the vault)
+     */
+    function setStrategy(address _strategy) external onlyOwner nonReentrant {
+        uint256 gain = StrategyAllocator.migrate(strategy, IVaultStrategy(_strategy), asset(), strategyPrincipal);
+
+        address oldStrategy = address(strategy);
+        strategy = IVaultStrategy(_strategy);
+        strategyPrincipal = 0;
+
+        emit StrategyUpdated(oldStrategy, _strategy);
+
+        if (gain > 0) {
+            _distributeYield(gain);
+        }
+    }
+
+    /**
+     * @dev Book what the strategy earned above the principal as yield
+     * @notice Callable by anyone. The gain is recalled to the vault and goes through
+     *         the waterfall and fees like invoice yield; until then NAV carries the
+     *         strategy at the principal lent (or less after a loss).
+     * @return gain Yield recalled from the strategy
+     */
+    function harvestStrategy() external nonReentrant returns (uint256 gain) {
+        gain = StrategyAllocator.harvest(strategy, strategyPrincipal);
+        require(gain > 0, "No strategy gain to harvest");
+
+        _distributeYield(gain);
+    }
+
+    /**
+     * @dev Move cash between the vault and the strategy so the strategy holds _target of principal
+     * @notice Cash is also recalled automatically when addInvoice, processRedemptions or
+     *         settleTrancheClaim need it; cash reserved for redemptions is never lent.
+     *         Gains above the principal stay lent until harvested (see harvestStrategy).
+     * @param _target Principal the strategy should hold for this vault
+     */
+    function rebalanceStrategy(uint256 _target) external onlyOwner nonReentrant {
+        strategyPrincipal = StrategyAllocator.rebalance(
+            strategy,
+            asset(),
+            _target,
+            redemptionQueue.reservedAssets,
+            strategyPrincipal
+        );
+    }
+
+    /**
+     * @dev Update concentration limits enforced when invoices are added
+     * @param _maxDebtor Max principal per debtor in basis points of NAV (0 = no limit)
+     * @param _maxIssuer Max principal per issuer in basis points of NAV (0 = no limit)
+     * @param _maxMaturityBucket Max principal per 30-day maturity bucket in basis points of NAV (0 = no limit)
+     */
+    function updateConcentrationLimits(
+        uint256 _maxDebtor,
+        uint256 _maxIssuer,
+        uint256 _maxMaturityBucket
+    ) external onlyOwner {
+        portfolio.setConcentrationLimits(_maxDebtor, _maxIssuer, _maxMaturityBucket);
+
+        emit ConcentrationLimitsUpdated(_maxDebtor, _maxIssuer, _maxMaturityBucket);
+    }
+
+    /**
+     * @dev Set who may hold this vault's shares (e.g. tier 2+ only for junior)
+     * @param _minTier Minimum KYC tier (0 = any verified user)
+     * @param _excludeHighRisk Whether users from high-risk countries are rejected
+     * @param _maxRiskScore Maximum risk score (0 = KYCGate global threshold)
+     * @param _zkProofTier Tier credited to ZK-KYC proof holders (0 = proofs not accepted)
+     */
+    function updateEligibilityPolicy(
+        uint8 _minTier,
+        bool _excludeHighRisk,
+        uint8 _maxRiskScore,
+        uint8 _zkProofTier
+    ) external onlyOwner {
+        kycGate.setVaultPolicy(_minTier, _excludeHighRisk, _maxRiskScore, _zkProofTier);
+    }
+
+    /**
+     * @dev Cap the position a KYC tier may hold in this vault
+     * @param _tier KYC tier (1-3)
+     * @param _limit Maximum position in assets (0 = unlimited)
+     */
+    function updateTierDepositLimit(uint8 _tier, uint256 _limit) external onlyOwner {
+        kycGate.setTierDepositLimit(_tier, _limit);
+    }
+
+    /**
+     * @dev Require debtor acknowledgement before the vault buys an invoice
+     */
+    function setRequireAcknowledgement(bool _required) external onlyOwner {
+        requireAcknowledgement = _required;
+
+        emit AcknowledgementRequirementUpdated(_required);
+    }
+
+    /**
+     * @dev Allow or disallow a protocol contract to send/receive shares without KYC
+     * @param _account Contract address (e.g. a pool, escrow or DEX pair)
+     * @param _exempt Whether the account skips the KYC check on transfers
+     */
+    function setTransferExempt(address _account, bool _exempt) external onlyOwner {
+        require(_account != address(0), "Invalid account address");
+        transferExempt[_account] = _exempt;
+
+        emit TransferExemptionUpdated(_account, _exempt);
+    }
+
+    /**
+     * @dev Grant or revoke the compliance officer role
+     */
+    function setComplianceOfficer(address _officer, bool _enabled) external onlyOwner {
+        require(_officer != address(0), "Invalid officer address");
+        complianceOfficers[_officer] = _enabled;
+
+        emit ComplianceOfficerUpdated(_officer, _enabled);
+    }
+
+    /**
+     * @dev Move shares out of an account without its consent (court order, lost keys, sanctions)
+     * @notice The sender is not KYC checked so shares can be recovered from revoked or
+     *         sanctioned holders; the recipient must still be verified or exempt.
+     *         Shares escrowed by the vault for queued redemptions cannot be moved.
+     * @param _from Account to take shares from
+     * @param _to Account receiving the shares
+     * @param _shares Amount of shares to move
+     * @param _reason Reference for the compliance action
+     */
+    function forcedTransfer(address _from, address _to, uint256 _shares, string memory _reason)
+        external
+        nonReentrant
+    {
+        require(msg.sender == owner() || complianceOfficers[msg.sender], "Caller is not compliance officer");
+        require(_shares > 0, "Shares must be positive");
+        require(_from != address(this), "Cannot move escrowed shares");
+        require(_isTransferAllowed(_to), "Recipient not KYC verified");
+
+        ERC20._update(_from, _to, _shares);
+
+        emit ForcedTransfer(msg.sender, _from, _to, _shares, _reason, block.timestamp);
+    }
+
+    /**
+     * @dev Set the rebate handed back when an invoice is repaid in full before maturity
+     * @param _rebateBps Share of the unearned (not yet accrued) discount to rebate, in basis points
+     * @param _recipient Whether the debtor or the issuer receives the rebate
+     */
+    function updateEarlyRepaymentTerms(uint256 _rebateBps, RebateRecipient _recipient) external onlyOwner {
+        require(_rebateBps <= 10000, "Invalid rebate");
+
+        earlyRepaymentRebateBps = _rebateBps;
+        rebateRecipient = _recipient;
+
+        emit EarlyRepaymentTermsUpdated(_rebateBps, _recipient);
+    }
+
+    /**
+     * @dev Update minimum time between redemption queue fills
+     */
+    function updateRedemptionEpochDuration(uint256 _duration) external onlyOwner {
+        require(_duration <= 30 days, "Epoch too long");
+
+        uint256 oldDuration = redemptionEpochDuration;
+        redemptionEpochDuration = _duration;
+
+        emit RedemptionEpochDurationUpdated(oldDuration, _duration);
+    }
+
+    /**
+     * @dev Update the fixed target APY used while no rate curve is set
      */
     function updateTargetAPY(uint256 _newTargetAPY) external onlyOwner {
         require(_newTargetAPY > 0 && _newTargetAPY <= 10000, "Invalid APY");
-        targetAPY = _newTargetAPY;
+        fixedTargetAPY = _newTargetAPY;
+    }
+
+    /**
+     * @dev Derive the target APY from utilization
+     * @param _baseRate APY at 0% utilization in basis points
+     * @param _slope1 APY added between 0% utilization and the kink
+     * @param _kink Optimal utilization in basis points (0 = back to the fixed target APY)
+     * @param _slope2 APY added between the kink and 100% utilization
+     */
+    function updateRateCurve(uint256 _baseRate, uint256 _slope1, uint256 _kink, uint256 _slope2)
+        external
+        onlyOwner
+    {
+        _accrueFees();
+        rateCurve.update(_baseRate, _slope1, _kink, _slope2);
+
+        emit RateCurveUpdated(_baseRate, _slope1, _kink, _slope2);
+    }
+
+    /**
+     * @dev Set the share of NAV addInvoice must leave in cash for redemptions
+     * @param _minIdleCashBps Idle cash buffer in basis points of NAV (0 = none)
+     */
+    function updateIdleCashBuffer(uint256 _minIdleCashBps) external onlyOwner {
+        require(_minIdleCashBps <= 10000, "Invalid buffer");
+        minIdleCashBps = _minIdleCashBps;
+
+        emit IdleCashBufferUpdated(_minIdleCashBps);
+    }
+
+    /**
+     * @dev Target APY in basis points: read off the rate curve at current
+     *      utilization, or the fixed target APY while no curve is set
+     * @notice Used as the senior coupon by TranchePool and as the performance fee hurdle
+     */
+    function targetAPY() public view returns (uint256) {
+        return rateCurve.rate(getUtilization(), fixedTargetAPY);
+    }
+
+    /**
+     * @dev Capital deployed in invoices as a share of deployed capital plus idle cash
+     * @return Utilization in basis points
+     */
+    function getUtilization() public view returns (uint256) {
+        return RateCurve.utilization(deployedPrincipal, _availableCash());
     }
 
     /**
      * @dev Get current share price
      */
-    function getSharePrice() external view returns (uint256) {
+    function getSharePrice() public view returns (uint256) {
         return totalSupply() > 0 ? convertToAssets(10**decimals()) : 10**decimals();
     }
 
+    /**
+     * @dev Share transfers require both sides to be KYC verified or exempt;
+     *      mints and burns are gated by deposit/redeem instead
+     */
+    function _update(address _from, address _to, uint256 _value) internal virtual override {
+        if (_from != address(0) && _to != address(0)) {
+            require(_isTransferAllowed(_from), "Sender not KYC verified");
+            require(_isTransferAllowed(_to), "Recipient not KYC verified");
+        }
+
+        super._update(_from, _to, _value);
+
+        // Mints and burns move utilization: checkpoint the senior coupon on the new rate
+        if (_from == address(0) || _to == address(0)) {
+            _accrueSeniorYield();
+        }
+
+        // Tier limits cap the position a holder can build by deposit or transfer;
+        // shares coming back out of redemption escrow are not new exposure
+        if (_to != address(0) && _to != address(this) && _from != address(this) && !transferExempt[_to]) {
+            kycGate.checkDepositLimit(_to, balanceOf(_to));
+        }
+    }
+
+    /**
+     * @dev Whether an account may send or receive vault shares under this vault's policy
+     */
+    function _isTransferAllowed(address _account) internal view returns (bool) {
+        return _account == address(this) ||
+            transferExempt[_account] ||
+            kycGate.isEligible(address(this), _account);
+    }
+
+    /**
+     * @dev Deposit gate shared by deposit and mint
+     */
+    function _requireDepositAllowed(address _receiver, uint256 _assets) internal view {
+        require(depositsEnabled, "Deposits are currently disabled");
+        kycGate.requireEligible(address(this), _receiver);
+        require(_assets >= minDeposit, "Below minimum deposit");
+
+        if (depositCap > 0) {
+            require(totalAssets() + _assets <= depositCap, "Deposit exceeds cap");
+        }
+    }
+
+    /**
+     * @dev Only the controller may claim, and only to a compliant receiver
+     */
+    function _requireClaimant(address _receiver, address _controller) internal view {
+        require(msg.sender == _controller, "Caller is not controller");
+        require(kycGate.isCompliant(address(this), _receiver), "Receiver not KYC verified");
+    }
+
+    /**
+     * @dev Send claimed redemption assets to the receiver
+     */
+    function _payClaim(address _receiver, address _controller, uint256 _assets, uint256 _shares) internal {
+        IERC20(asset()).safeTransfer(_receiver, _assets);
+
+        emit Withdraw(msg.sender, _receiver, _controller, _assets, _shares);
+    }
+
+    /**
+     * @dev Recognize yield already held by the vault and route it through the waterfall
+     */
+    function _distributeYield(uint256 _amount) internal {
+        uint256 retained = _amount;
+
+        if (address(tranchePool) != address(0)) {
+            (uint256 toSenior, uint256 toJunior) = tranchePool.allocateYield(_amount);
+            uint256 outgoing = isSenior ? toJunior : toSenior;
+
+            if (outgoing > 0) {
+                IERC20(asset()).safeTransfer(tranchePool.counterpartOf(address(this)), outgoing);
+                retained -= outgoing;
+            }
+        }
+
+        totalYieldDistributed += retained;
+        cumulativeYield += retained;
+        lastDistributionTime = block.timestamp;
+        epochCounter++;
+
+        uint256 feeAssets = _accrueFees();
+        uint256 newSharePrice = convertToAssets(10**decimals());
+
+        emit YieldDistributed(retained, feeAssets, block.timestamp, epochCounter, newSharePrice);
+    }
+
+    /**
+     * @dev Charge fees accrued since the last call by minting shares to the fee recipient
+     * @return feeAssets Value of the shares minted
+     */
+    function _accrueFees() internal returns (uint256 feeAssets) {
+        // Keeps the days NAV reads walk to those since the last fee accrual
+        portfolio.checkpoint();
+
+        uint256 feeShares;
+        (feeShares, feeAssets) = fees.accrue(totalAssets(), totalSupply(), 10**decimals(), targetAPY());
+
+        if (feeShares > 0) {
+            _mint(fees.recipient, feeShares);
+
+            emit FeesAccrued(fees.recipient, feeShares, feeAssets, block.timestamp);
+        }
+    }
+
+    /**
+     * @dev Cash not reserved for claimable redemptions, including principal lent to the strategy
+     */
+    function _availableCash() internal view returns (uint256) {
+        return StrategyAllocator.available(strategy, asset(), redemptionQueue.reservedAssets, strategyPrincipal);
+    }
+
+    /**
+     * @dev Take a finished invoice off the book
+     * @param _writeOffShortfall Whether principal not received in cash may be written off
+     * @return status Invoice status (PAID, DEFAULTED or WRITTEN_OFF)
+     */
+    function _closeInvoice(uint256 _invoiceId, bool _writeOffShortfall)
+        internal
+        returns (InvoiceNFT.InvoiceStatus status)
+    {
+        require(containsInvoice[_invoiceId], "Invoice not in vault");
+
+        InvoiceAllocation storage allocation = allocations[_invoiceId];
+        uint256 loss;
+        (status, loss) = InvoicePortfolio.closing(invoiceNFT, allocation, _writeOffShortfall);
+
+        // Principal still carried must go through the waterfall before it leaves the book
+        if (loss > 0) {
+            _writeOff(_invoiceId, loss);
+        }
+
+        containsInvoice[_invoiceId] = false;
+        allocation.isActive = false;
+        portfolio.close(allocation);
+
+        // Adjust totals
+        if (totalInvoiceValue >= allocation.faceValue) {
+            totalInvoiceValue -= allocation.faceValue;
+        }
+        if (totalInvoiceDiscountedValue >= allocation.purchasePrice) {
+            totalInvoiceDiscountedValue -= allocation.purchasePrice;
+        }
+    }
+
+    /**
+     * @dev Recall cash from the strategy so that _amount is on hand beyond reserved redemptions
+     * @return cash Unreserved cash on hand afterwards (less than _amount if the strategy fell short)
+     */
+    function _pullFromStrategy(uint256 _amount) internal returns (uint256 cash) {
+        (strategyPrincipal, cash) = StrategyAllocator.pull(
+            strategy,
+            asset(),
+            _amount,
+            redemptionQueue.reservedAssets,
+            strategyPrincipal
+        );
+    }
+
+    /**
+     * @dev Send the early repayment rebate to the debtor or the issuer
+     */
+    function _payEarlyRepaymentRebate(
+        uint256 _invoiceId,
+        InvoiceAllocation storage _allocation,
+        uint256 _rebate
+    ) internal {
+        address recipient = rebateRecipient == RebateRecipient.DEBTOR ? _allocation.debtor : _allocation.issuer;
+        IERC20(asset()).safeTransfer(recipient, _rebate);
+
+        emit EarlyRepaymentRebatePaid(_invoiceId, recipient, _rebate, block.timestamp);
+    }
+
+    /**
+     * @dev Principal of an invoice still carried on the book
+     */
+    function _carryingValue(InvoiceAllocation storage _allocation) internal view returns (uint256) {
+        return _allocation.purchasePrice - _allocation.principalRepaid - _allocation.writtenOff;
+    }
+
+    /**
+     * @dev Book cash recovered on written-off principal; the waterfall restores senior losses first
+     */
+    function _bookRecovery(uint256 _invoiceId, uint256 _amount) internal {
+        if (address(tranchePool) != address(0)) {
+            tranchePool.allocateRecovery(_invoiceId, _amount);
+        }
+
+        InvoiceAllocation storage allocation = allocations[_invoiceId];
+        allocation.recovered += _amount;
+        totalRecovered += _amount;
+
+        emit RecoveryRecorded(_invoiceId, _amount, allocation.recovered, block.timestamp);
+    }
+
+    /**
+     * @dev Book a principal write-off and split it through the waterfall
+     */
+    function _writeOff(uint256 _invoiceId, uint256 _lossAmount) internal {
+        // Let the pool shift the junior/senior split before our own write-down
+        if (address(tranchePool) != address(0)) {
+            tranchePool.allocateLoss(_invoiceId, _lossAmount);
+        }
+
+        portfolio.writeOff(allocations[_invoiceId], _lossAmount);
+        deployedPrincipal -= _lossAmount;
+        totalDefaultLoss += _lossAmount;
+        _accrueSeniorYield();
+
+        emit LossRecorded(_invoiceId, _lossAmount, block.timestamp);
+    }
+
+    /**
+     * @dev Checkpoint the senior coupon after deployed principal or utilization changed
+     */
+    function _accrueSeniorYield() internal {
+        if (address(tranchePool) != address(0)) {
+            tranchePool.accrueSeniorYield();
+        }
+    }
+
     /**
      * @dev Get user's position value
      */
@@ -0,0 +1,103 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/**
+ * @title VaultFees
+ * @dev Management and performance fee accounting for TrancheVault
+ * @notice The management fee accrues per second on the vault's totalAssets: idle
+ *         cash not reserved for queued redemptions, cash lent to the strategy and
+ *         invoice principal at cost plus accrued discount, adjusted for the tranche
+ *         waterfall. The performance fee is a share of the price gain above a hurdle
+ *         that grows from the high-water mark at the vault's target APY, so investors
+ *         keep the target yield before any performance fee. The mark only moves when
+ *         the price clears the hurdle; a period that ends below it leaves the mark
+ *         where it was and the hurdle keeps growing from it. The hurdle rate is
+ *         snapshotted at each accrual and applies to the period that follows it.
+ *         Fees are paid by minting shares to the recipient, which dilutes holders by
+ *         exactly the fee value.
+ */
+library VaultFees {
+
+    uint256 internal constant MAX_MANAGEMENT_FEE = 500;    // 5% of NAV a year
+    uint256 internal constant MAX_PERFORMANCE_FEE = 5000;  // 50% of yield above the hurdle
+
+    struct State {
+        address recipient;            // Receives the fee shares
+        uint256 managementFeeBps;     // Annual fee on NAV (totalAssets)
+        uint256 performanceFeeBps;    // Share of gains above the hurdle
+        uint256 highWaterMark;        // Share price (assets per whole share) after the last assessment
+        uint256 lastAccrual;
+        uint256 totalManagementFees;  // Lifetime fees, in assets
+        uint256 totalPerformanceFees;
+        uint256 hurdleAPY;            // Target APY at the last accrual, the hurdle for the period since
+        uint256 hurdlePrice;          // High-water mark grown at the hurdle rate since it was set
+    }
+
+    /**
+     * @dev Assess fees for the time since the last accrual
+     * @param _nav Vault NAV before fees
+     * @param _supply Share supply before fees
+     * @param _unit One whole share (10 ** decimals)
+     * @param _hurdleAPY Current target APY in basis points, the hurdle for the next period
+     * @return feeShares Shares to mint to the recipient
+     * @return feeAssets Value of the fee shares
+     */
+    function accrue(State storage s, uint256 _nav, uint256 _supply, uint256 _unit, uint256 _hurdleAPY)
+        external
+        returns (uint256 feeShares, uint256 feeAssets)
+    {
+        uint256 elapsed = block.timestamp - s.lastAccrual;
+        s.lastAccrual = block.timestamp;
+
+        // The rate in force over the elapsed period, not the one it ended with
+        uint256 hurdleAPY = s.hurdleAPY;
+        s.hurdleAPY = _hurdleAPY;
+
+        // Nothing to charge on an empty vault; the mark restarts with the next deposit
+        if (_supply == 0 || _nav == 0) {
+            s.highWaterMark = 0;
+            return (0, 0);
+        }
+
+        uint256 managementFee = (_nav * s.managementFeeBps * elapsed) / (365 days * 10000);
+        uint256 price = ((_nav - managementFee) * _unit) / _supply;
+        uint256 performanceFee = 0;
+
+        if (s.highWaterMark == 0) {
+            s.highWaterMark = price;
+            s.hurdlePrice = price;
+        } else {
+            uint256 hurdle = s.hurdlePrice + (s.highWaterMark * hurdleAPY * elapsed) / (365 days * 10000);
+            if (price > hurdle) {
+                performanceFee = (((price - hurdle) * _supply) / _unit * s.performanceFeeBps) / 10000;
+                s.highWaterMark = price - (performanceFee * _unit) / _supply;
+                hurdle = s.highWaterMark;
+            }
+            s.hurdlePrice = hurdle;
+        }
+
+        feeAssets = managementFee + performanceFee;
+        if (feeAssets == 0) return (0, 0);
+
+        s.totalManagementFees += managementFee;
+        s.totalPerformanceFees += performanceFee;
+
+        // Shares worth feeAssets once minted: fee / (nav - fee) of the existing supply
+        feeShares = (feeAssets * _supply) / (_nav - feeAssets);
+    }
+
+    /**
+     * @dev Expected APY left to investors after fees
+     * @param _grossAPY Portfolio APY in basis points before fees
+     * @param _hurdleAPY Target APY the performance fee starts above
+     */
+    function netAPY(State storage s, uint256 _grossAPY, uint256 _hurdleAPY) external view returns (uint256) {
+        if (_grossAPY <= s.managementFeeBps) return 0;
+
+        uint256 apy = _grossAPY - s.managementFeeBps;
+        if (apy > _hurdleAPY) {
+            apy -= ((apy - _hurdleAPY) * s.performanceFeeBps) / 10000;
+        }
+        return apy;
+    }
+}
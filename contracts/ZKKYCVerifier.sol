@@ -86,6 +86,36 @@ contract ZKKYCVerifier is Ownable, ReentrancyGuard {
         bytes32 _providerHash,
         uint256 _expiresAt
     ) external nonReentrant {
+        _submitZKProof(_proof, _nullifier, _commitment, _providerHash, _expiresAt);
+    }
+
+    /**
+     * @dev Submit ZK proof with default expiry
+     * @param _proof The ZK proof bytes
+     * @param _nullifier Unique nullifier
+     * @param _commitment Commitment to KYC data
+     * @param _providerHash Hash of KYC provider
+     */
+    function submitZKProofWithDefaultExpiry(
+        bytes calldata _proof,
+        bytes32 _nullifier,
+        bytes32 _commitment,
+        bytes32 _providerHash
+    ) external nonReentrant {
+        uint256 expiresAt = block.timestamp + proofValidityDuration;
+        _submitZKProof(_proof, _nullifier, _commitment, _providerHash, expiresAt);
+    }
+
+    /**
+     * @dev Verify a proof and record it for msg.sender
+     */
+    function _submitZKProof(
+        bytes calldata _proof,
+        bytes32 _nullifier,
+        bytes32 _commitment,
+        bytes32 _providerHash,
+        uint256 _expiresAt
+    ) internal {
         require(_nullifier != bytes32(0), "Invalid nullifier");
         require(_commitment != bytes32(0), "Invalid commitment");
         require(!usedNullifiers[_nullifier], "Nullifier already used");
@@ -139,23 +169,6 @@ contract ZKKYCVerifier is Ownable, ReentrancyGuard {
         );
     }
 
-    /**
-     * @dev Submit ZK proof with default expiry
-     * @param _proof The ZK proof bytes
-     * @param _nullifier Unique nullifier
-     * @param _commitment Commitment to KYC data
-     * @param _providerHash Hash of KYC provider
-     */
-    function submitZKProofWithDefaultExpiry(
-        bytes calldata _proof,
-        bytes32 _nullifier,
-        bytes32 _commitment,
-        bytes32 _providerHash
-    ) external {
-        uint256 expiresAt = block.timestamp + proofValidityDuration;
-        this.submitZKProof(_proof, _nullifier, _commitment, _providerHash, expiresAt);
-    }
-
     /**
      * @dev Check if user has valid ZK proof
      * @param _user Address to check
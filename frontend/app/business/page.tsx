@@ -1,11 +1,45 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { useAccount, useWriteContract, useReadContract, useWaitForTransactionReceipt } from 'wagmi';
-import { parseUnits, keccak256, toBytes } from 'viem';
-import { CONTRACTS, ABIS } from '@/lib/contracts';
+import { useAccount, useWriteContract, useReadContract, useReadContracts, useWaitForTransactionReceipt, useSignTypedData } from 'wagmi';
+import { parseUnits, formatUnits, keccak256, toBytes, isAddress, parseAbi } from 'viem';
+import { CONTRACTS, ABIS, CHAIN_ID, RECOURSE_STATUS, RecourseStatus } from '@/lib/contracts';
 import { uploadToIPFS, isIPFSDemoMode } from '@/lib/ipfs';
 
+// Gasless minting: the relayer submits issuer-signed mint requests and pays the gas
+const RELAYER_URL = process.env.NEXT_PUBLIC_RELAYER_URL;
+
+// EIP-712 mint request (must match InvoiceNFT.MINT_REQUEST_TYPEHASH)
+const MINT_REQUEST_TYPES = {
+  MintRequest: [
+    { name: 'faceValue', type: 'uint256' },
+    { name: 'maturityDate', type: 'uint256' },
+    { name: 'debtor', type: 'address' },
+    { name: 'invoiceHash', type: 'bytes32' },
+    { name: 'debtorName', type: 'string' },
+    { name: 'discountRate', type: 'uint256' },
+    { name: 'issuer', type: 'address' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+} as const;
+
+// Typed getRecourse ABI for the batched recourse reads
+const GET_RECOURSE_ABI = parseAbi([
+  'struct Recourse { address issuer; uint256 collateral; uint256 postedAt; uint256 buybackDeadline; uint256 paidOut; uint256 released; uint8 status; }',
+  'function getRecourse(uint256 tokenId) view returns (Recourse)',
+]);
+
+interface Recourse {
+  issuer: string;
+  collateral: bigint;
+  postedAt: bigint;
+  buybackDeadline: bigint;
+  paidOut: bigint;
+  released: bigint;
+  status: number;
+}
+
 export default function BusinessPage() {
   const { address, isConnected } = useAccount();
   const [isKYCVerified, setIsKYCVerified] = useState(false);
@@ -15,11 +49,15 @@ export default function BusinessPage() {
     debtorAddress: '',
     debtorName: '',
     discountRate: '',
+    collateral: '',
   });
   const [pdfFile, setPdfFile] = useState<File | null>(null);
   const [ipfsHash, setIpfsHash] = useState('');
   const [uploadingPDF, setUploadingPDF] = useState(false);
   const [myInvoices, setMyInvoices] = useState<any[]>([]);
+  const [useRelayer, setUseRelayer] = useState(!!RELAYER_URL);
+  const [isRelaying, setIsRelaying] = useState(false);
+  const [recourseForm, setRecourseForm] = useState({ tokenId: '', amount: '' });
 
   // Check KYC status
   const { data: kycStatus } = useReadContract({
@@ -40,6 +78,104 @@ export default function BusinessPage() {
   // Invoice Minting
   const { writeContract: mintInvoice, data: mintHash, isPending: isMintPending } = useWriteContract();
   const { isSuccess: isMintSuccess } = useWaitForTransactionReceipt({ hash: mintHash });
+  const { signTypedDataAsync } = useSignTypedData();
+
+  // Debtor registry: new debtors are registered on mint with no credit limit, and an
+  // invoice is only verified once its debtor has enough available credit
+  const debtorLookup = isAddress(formData.debtorAddress) ? formData.debtorAddress : undefined;
+  const { data: debtorRecord } = useReadContract({
+    address: CONTRACTS.invoiceNFT as `0x${string}`,
+    abi: ABIS.invoiceNFT,
+    functionName: 'getDebtor',
+    args: debtorLookup ? [debtorLookup] : undefined,
+  }) as { data: { debtorId: bigint; name: string; paidInvoices: bigint; defaultedInvoices: bigint; isActive: boolean } | undefined };
+
+  const { data: availableCredit } = useReadContract({
+    address: CONTRACTS.invoiceNFT as `0x${string}`,
+    abi: ABIS.invoiceNFT,
+    functionName: 'getAvailableCredit',
+    args: debtorLookup ? [debtorLookup] : undefined,
+  }) as { data: bigint | undefined };
+
+  // Vault custody approvals (vaults pull the invoice NFT when they fund it)
+  const { data: seniorApproved, refetch: refetchSeniorApproval } = useReadContract({
+    address: CONTRACTS.invoiceNFT as `0x${string}`,
+    abi: ABIS.invoiceNFT,
+    functionName: 'isApprovedForAll',
+    args: address ? [address, CONTRACTS.seniorVault] : undefined,
+  });
+
+  const { data: juniorApproved, refetch: refetchJuniorApproval } = useReadContract({
+    address: CONTRACTS.invoiceNFT as `0x${string}`,
+    abi: ABIS.invoiceNFT,
+    functionName: 'isApprovedForAll',
+    args: address ? [address, CONTRACTS.juniorVault] : undefined,
+  });
+
+  const { writeContract: approveVault, data: approveVaultHash, isPending: isApprovePending } = useWriteContract();
+  const { isSuccess: isApproveVaultSuccess } = useWaitForTransactionReceipt({ hash: approveVaultHash });
+
+  // Recourse collateral posted through RecourseEscrow
+  const { data: lockedCollateral, refetch: refetchLocked } = useReadContract({
+    address: CONTRACTS.recourseEscrow as `0x${string}`,
+    abi: ABIS.recourseEscrow,
+    functionName: 'lockedCollateral',
+    args: address ? [address] : undefined,
+  }) as { data: bigint | undefined; refetch: () => void };
+
+  const { data: releasedCollateral, refetch: refetchReleased } = useReadContract({
+    address: CONTRACTS.recourseEscrow as `0x${string}`,
+    abi: ABIS.recourseEscrow,
+    functionName: 'releasedCollateral',
+    args: address ? [address] : undefined,
+  }) as { data: bigint | undefined; refetch: () => void };
+
+  const { data: recourseIds, refetch: refetchRecourseIds } = useReadContract({
+    address: CONTRACTS.recourseEscrow as `0x${string}`,
+    abi: ABIS.recourseEscrow,
+    functionName: 'getIssuerInvoices',
+    args: address ? [address] : undefined,
+  }) as { data: readonly bigint[] | undefined; refetch: () => void };
+
+  const { data: recourseResults, refetch: refetchRecourses } = useReadContracts({
+    contracts: (recourseIds || []).map((tokenId) => ({
+      address: CONTRACTS.recourseEscrow as `0x${string}`,
+      abi: GET_RECOURSE_ABI,
+      functionName: 'getRecourse',
+      args: [tokenId],
+    })),
+  }) as { data: { result?: unknown }[] | undefined; refetch: () => void };
+
+  // Buyback shortfalls: amount due on slashed invoices that the collateral did not cover
+  const { data: issuerShortfall, refetch: refetchShortfall } = useReadContract({
+    address: CONTRACTS.recourseEscrow as `0x${string}`,
+    abi: ABIS.recourseEscrow,
+    functionName: 'issuerShortfall',
+    args: address ? [address] : undefined,
+  }) as { data: bigint | undefined; refetch: () => void };
+
+  const { data: shortfallResults, refetch: refetchShortfalls } = useReadContracts({
+    contracts: (recourseIds || []).map((tokenId) => ({
+      address: CONTRACTS.recourseEscrow as `0x${string}`,
+      abi: parseAbi(['function buybackShortfall(uint256 tokenId) view returns (uint256)']),
+      functionName: 'buybackShortfall',
+      args: [tokenId],
+    })),
+  }) as { data: { result?: unknown }[] | undefined; refetch: () => void };
+
+  const { data: mintNonce, refetch: refetchMintNonce } = useReadContract({
+    address: CONTRACTS.invoiceNFT as `0x${string}`,
+    abi: ABIS.invoiceNFT,
+    functionName: 'mintNonces',
+    args: address ? [address] : undefined,
+  }) as { data: bigint | undefined; refetch: () => void };
+
+  const { writeContract: approveCollateral, data: approveCollateralHash, isPending: isApproveCollateralPending } = useWriteContract();
+  const { writeContract: writeRecourse, data: recourseHash, isPending: isRecoursePending } = useWriteContract();
+  const { isSuccess: isRecourseSuccess } = useWaitForTransactionReceipt({ hash: recourseHash });
+  const { isSuccess: isApproveCollateralSuccess } = useWaitForTransactionReceipt({ hash: approveCollateralHash });
+  const { writeContract: mintRecourse, data: recourseMintHash, isPending: isRecourseMintPending } = useWriteContract();
+  const { isSuccess: isRecourseMintSuccess } = useWaitForTransactionReceipt({ hash: recourseMintHash });
 
   // Get user's invoices
   const { data: balance } = useReadContract({
@@ -56,16 +192,39 @@ export default function BusinessPage() {
   }, [isKYCSuccess]);
 
   useEffect(() => {
-    if (isMintSuccess) {
-      alert('✅ Invoice minted successfully!');
-      // Refresh invoices list
-      fetchMyInvoices();
-      // Reset form
-      setFormData({ faceValue: '', maturityDays: '', debtorAddress: '', debtorName: '', discountRate: '' });
-      setPdfFile(null);
-      setIpfsHash('');
+    if (isApproveVaultSuccess) {
+      refetchSeniorApproval();
+      refetchJuniorApproval();
+    }
+  }, [isApproveVaultSuccess, refetchSeniorApproval, refetchJuniorApproval]);
+
+  useEffect(() => {
+    if (isRecourseSuccess || isRecourseMintSuccess) {
+      refetchLocked();
+      refetchReleased();
+      refetchRecourseIds();
+      refetchRecourses();
+      refetchShortfall();
+      refetchShortfalls();
+    }
+  }, [isRecourseSuccess, isRecourseMintSuccess, refetchLocked, refetchReleased, refetchRecourseIds, refetchRecourses, refetchShortfall, refetchShortfalls]);
+
+  const onMinted = () => {
+    alert('✅ Invoice minted successfully!');
+    // Refresh invoices list
+    fetchMyInvoices();
+    // Reset form
+    setFormData({ faceValue: '', maturityDays: '', debtorAddress: '', debtorName: '', discountRate: '', collateral: '' });
+    setPdfFile(null);
+    setIpfsHash('');
+  };
+
+  useEffect(() => {
+    if (isMintSuccess || isRecourseMintSuccess) {
+      onMinted();
+      refetchMintNonce();
     }
-  }, [isMintSuccess]);
+  }, [isMintSuccess, isRecourseMintSuccess]);
 
   // Fetch user's invoices
   const fetchMyInvoices = async () => {
@@ -104,6 +263,56 @@ export default function BusinessPage() {
     });
   };
 
+  const handleApproveVault = (vault: string) => {
+    approveVault({
+      address: CONTRACTS.invoiceNFT as `0x${string}`,
+      abi: ABIS.invoiceNFT,
+      functionName: 'setApprovalForAll',
+      args: [vault as `0x${string}`, true],
+    });
+  };
+
+  const handleApproveCollateral = (amount: string) => {
+    if (!amount) return;
+
+    approveCollateral({
+      address: CONTRACTS.mockUSDC as `0x${string}`,
+      abi: ABIS.mockUSDC,
+      functionName: 'approve',
+      args: [CONTRACTS.recourseEscrow as `0x${string}`, parseUnits(amount, 6)],
+    });
+  };
+
+  const handlePostCollateral = () => {
+    if (!recourseForm.tokenId || !recourseForm.amount) return;
+
+    writeRecourse({
+      address: CONTRACTS.recourseEscrow as `0x${string}`,
+      abi: ABIS.recourseEscrow,
+      functionName: 'postCollateral',
+      args: [BigInt(recourseForm.tokenId), parseUnits(recourseForm.amount, 6)],
+    });
+  };
+
+  const handleRecourseAction = (functionName: 'buyback' | 'releaseCollateral', tokenId: bigint) => {
+    writeRecourse({
+      address: CONTRACTS.recourseEscrow as `0x${string}`,
+      abi: ABIS.recourseEscrow,
+      functionName,
+      args: [tokenId],
+    });
+  };
+
+  // Pays the whole shortfall; approve at least that amount first
+  const handlePayShortfall = (tokenId: bigint, amount: bigint) => {
+    writeRecourse({
+      address: CONTRACTS.recourseEscrow as `0x${string}`,
+      abi: ABIS.recourseEscrow,
+      functionName: 'payShortfall',
+      args: [tokenId, amount],
+    });
+  };
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -162,6 +371,17 @@ export default function BusinessPage() {
     const invoiceHash = keccak256(toBytes(`${address}-${Date.now()}-${formData.debtorName}`));
     const discountRate = BigInt(formData.discountRate);
 
+    // Recourse invoices are minted through RecourseEscrow, which locks the collateral
+    if (formData.collateral) {
+      mintWithCollateral(faceValue, maturityDate, invoiceHash, discountRate);
+      return;
+    }
+
+    if (useRelayer && RELAYER_URL) {
+      relayMint(faceValue, maturityDate, invoiceHash, discountRate);
+      return;
+    }
+
     mintInvoice({
       address: CONTRACTS.invoiceNFT as `0x${string}`,
       abi: ABIS.invoiceNFT,
@@ -170,6 +390,90 @@ export default function BusinessPage() {
     });
   };
 
+  // Build the EIP-712 mint request from the form and sign it
+  const signMintRequest = async (
+    faceValue: bigint,
+    maturityDate: bigint,
+    invoiceHash: `0x${string}`,
+    discountRate: bigint,
+    nonce: bigint
+  ) => {
+    const request = {
+      faceValue,
+      maturityDate,
+      debtor: formData.debtorAddress as `0x${string}`,
+      invoiceHash,
+      debtorName: formData.debtorName,
+      discountRate,
+      issuer: address as `0x${string}`,
+      nonce,
+      deadline: BigInt(Math.floor(Date.now() / 1000) + 60 * 60), // 1 hour
+    };
+
+    const signature = await signTypedDataAsync({
+      domain: {
+        name: 'InvoiceNFT',
+        version: '1',
+        chainId: CHAIN_ID,
+        verifyingContract: CONTRACTS.invoiceNFT as `0x${string}`,
+      },
+      types: MINT_REQUEST_TYPES,
+      primaryType: 'MintRequest',
+      message: request,
+    });
+
+    return { request, signature };
+  };
+
+  // Sign the mint request and submit it with the collateral (approve the collateral first)
+  const mintWithCollateral = async (faceValue: bigint, maturityDate: bigint, invoiceHash: `0x${string}`, discountRate: bigint) => {
+    if (!address || mintNonce === undefined) return;
+
+    try {
+      const { request, signature } = await signMintRequest(faceValue, maturityDate, invoiceHash, discountRate, mintNonce);
+      mintRecourse({
+        address: CONTRACTS.recourseEscrow as `0x${string}`,
+        abi: ABIS.recourseEscrow,
+        functionName: 'mintWithCollateral',
+        args: [request, signature, parseUnits(formData.collateral, 6)],
+      });
+    } catch (error) {
+      console.error('Recourse mint failed:', error);
+      alert(`Recourse mint failed: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  // Sign the mint request and hand it to the relayer (no MNT needed)
+  const relayMint = async (faceValue: bigint, maturityDate: bigint, invoiceHash: `0x${string}`, discountRate: bigint) => {
+    if (!address) return;
+
+    setIsRelaying(true);
+    try {
+      const { nonce } = await fetch(`${RELAYER_URL}/nonce/${address}`).then((res) => res.json());
+      const { request, signature } = await signMintRequest(faceValue, maturityDate, invoiceHash, discountRate, BigInt(nonce));
+
+      const response = await fetch(`${RELAYER_URL}/relay/mint`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          request: Object.fromEntries(Object.entries(request).map(([key, value]) => [key, value.toString()])),
+          signature,
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error);
+      }
+      onMinted();
+    } catch (error) {
+      console.error('Relayed mint failed:', error);
+      alert(`Relayed mint failed: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setIsRelaying(false);
+    }
+  };
+
   const preview = calculatePreview();
 
   if (!isConnected) {
@@ -211,6 +515,37 @@ export default function BusinessPage() {
         )}
       </div>
 
+      {/* Vault Funding Approval */}
+      <div className="bg-gray-800/50 backdrop-blur-sm rounded-lg p-6 border border-gray-700 mb-8">
+        <h2 className="text-2xl font-semibold text-white mb-2">Vault Funding</h2>
+        <p className="text-gray-400 text-sm mb-4">
+          When a vault funds your invoice it pays you the discounted value in USDC and takes custody of the invoice NFT.
+          Approve the vaults once so they can complete the purchase.
+        </p>
+
+        <div className="grid grid-cols-2 gap-4">
+          {[
+            { name: 'Senior Vault', vault: CONTRACTS.seniorVault, approved: !!seniorApproved },
+            { name: 'Junior Vault', vault: CONTRACTS.juniorVault, approved: !!juniorApproved },
+          ].map(({ name, vault, approved }) => (
+            <div key={vault} className="flex items-center justify-between bg-gray-700/50 rounded-lg p-3">
+              <span className="text-white">{name}</span>
+              {approved ? (
+                <span className="text-green-400 text-sm">✅ Approved</span>
+              ) : (
+                <button
+                  onClick={() => handleApproveVault(vault)}
+                  disabled={isApprovePending}
+                  className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white text-sm py-1 px-4 rounded-lg transition"
+                >
+                  Approve
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
       {/* Invoice Minting Form */}
       <div className="bg-gray-800/50 backdrop-blur-sm rounded-lg p-6 border border-gray-700 mb-8">
         <h2 className="text-2xl font-semibold text-white mb-6">Mint Invoice NFT</h2>
@@ -247,6 +582,27 @@ export default function BusinessPage() {
               placeholder="0x..."
               className="w-full bg-gray-700 text-white rounded-lg p-3 border border-gray-600 focus:border-blue-500 outline-none font-mono text-sm"
             />
+            {debtorRecord && (
+              debtorRecord.debtorId === BigInt(0) ? (
+                <p className="text-sm text-yellow-400 mt-1">
+                  New debtor - it is registered with your invoice, which waits for the admin to set a credit limit before verification
+                </p>
+              ) : (
+                <>
+                  <p className="text-sm text-gray-400 mt-1">
+                    {debtorRecord.name} (ID #{debtorRecord.debtorId.toString()}
+                    {!debtorRecord.isActive && ', suspended'}) · Available credit: $
+                    {availableCredit !== undefined ? parseFloat(formatUnits(availableCredit, 6)).toLocaleString() : '...'}
+                    {' · '}{debtorRecord.paidInvoices.toString()} paid / {debtorRecord.defaultedInvoices.toString()} defaulted
+                  </p>
+                  {availableCredit !== undefined && parseFloat(formatUnits(availableCredit, 6)) < parseFloat(formData.faceValue) && (
+                    <p className="text-sm text-yellow-400 mt-1">
+                      Not enough credit - the invoice will wait for the admin to raise the debtor limit before verification
+                    </p>
+                  )}
+                </>
+              )
+            )}
           </div>
 
           <div>
@@ -294,6 +650,29 @@ export default function BusinessPage() {
             )}
           </div>
 
+          <div>
+            <label className="block text-gray-300 mb-2">Recourse Collateral (USDC, optional)</label>
+            <div className="flex gap-3">
+              <input
+                type="number"
+                value={formData.collateral}
+                onChange={(e) => setFormData({ ...formData, collateral: e.target.value })}
+                placeholder="0"
+                className="flex-1 bg-gray-700 text-white rounded-lg p-3 border border-gray-600 focus:border-blue-500 outline-none"
+              />
+              <button
+                onClick={() => handleApproveCollateral(formData.collateral)}
+                disabled={isApproveCollateralPending || !formData.collateral}
+                className="bg-gray-600 hover:bg-gray-500 disabled:bg-gray-600 text-white text-sm py-2 px-4 rounded-lg transition"
+              >
+                {isApproveCollateralSuccess ? '✅ Approved' : 'Approve'}
+              </button>
+            </div>
+            <p className="text-gray-400 text-sm mt-1">
+              Locked in the recourse escrow when the invoice is minted. Leave empty for a non-recourse invoice.
+            </p>
+          </div>
+
           {/* Preview */}
           {preview && (
             <div className="bg-blue-900/20 border border-blue-500/30 rounded-lg p-4">
@@ -323,16 +702,161 @@ export default function BusinessPage() {
             </div>
           )}
 
+          {RELAYER_URL && (
+            <label className="flex items-center gap-2 text-gray-300 text-sm">
+              <input
+                type="checkbox"
+                checked={useRelayer}
+                onChange={(e) => setUseRelayer(e.target.checked)}
+              />
+              Gasless mint (sign only, the relayer pays the gas)
+            </label>
+          )}
+
           <button
             onClick={handleMintInvoice}
-            disabled={!isKYCVerified || isMintPending}
+            disabled={!isKYCVerified || isMintPending || isRelaying || isRecourseMintPending}
             className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white font-bold py-3 px-6 rounded-lg transition"
           >
-            {isMintPending ? 'Minting...' : 'Mint Invoice NFT'}
+            {isMintPending || isRelaying || isRecourseMintPending ? 'Minting...' : 'Mint Invoice NFT'}
           </button>
         </div>
       </div>
 
+      {/* Recourse Collateral */}
+      <div className="bg-gray-800/50 backdrop-blur-sm rounded-lg p-6 border border-gray-700 mb-8">
+        <h2 className="text-2xl font-semibold text-white mb-2">Recourse Collateral</h2>
+        <p className="text-gray-400 text-sm mb-4">
+          Post USDC collateral on an invoice before it is funded to offer it with recourse. If the invoice defaults
+          you must buy it back within the buyback window; otherwise the collateral is paid to the vaults that funded it
+          and the rest of the amount due stays owed as a shortfall. While you owe a shortfall you cannot post new
+          collateral, and collateral released to you goes towards the shortfall first.
+        </p>
+
+        <div className="grid grid-cols-3 gap-4 mb-4">
+          <div className="bg-gray-700/50 rounded-lg p-3">
+            <p className="text-gray-400 text-sm">Collateral Locked</p>
+            <p className="text-white text-xl font-semibold">
+              ${lockedCollateral !== undefined ? parseFloat(formatUnits(lockedCollateral, 6)).toLocaleString() : '0'}
+            </p>
+          </div>
+          <div className="bg-gray-700/50 rounded-lg p-3">
+            <p className="text-gray-400 text-sm">Collateral Released</p>
+            <p className="text-white text-xl font-semibold">
+              ${releasedCollateral !== undefined ? parseFloat(formatUnits(releasedCollateral, 6)).toLocaleString() : '0'}
+            </p>
+          </div>
+          <div className="bg-gray-700/50 rounded-lg p-3">
+            <p className="text-gray-400 text-sm">Buyback Shortfall Owed</p>
+            <p className={`text-xl font-semibold ${issuerShortfall ? 'text-red-400' : 'text-white'}`}>
+              ${issuerShortfall !== undefined ? parseFloat(formatUnits(issuerShortfall, 6)).toLocaleString() : '0'}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex gap-3 mb-4">
+          <input
+            type="number"
+            value={recourseForm.tokenId}
+            onChange={(e) => setRecourseForm({ ...recourseForm, tokenId: e.target.value })}
+            placeholder="Invoice ID"
+            className="w-1/3 bg-gray-700 text-white rounded-lg p-3 border border-gray-600 focus:border-blue-500 outline-none"
+          />
+          <input
+            type="number"
+            value={recourseForm.amount}
+            onChange={(e) => setRecourseForm({ ...recourseForm, amount: e.target.value })}
+            placeholder="Collateral (USDC)"
+            className="flex-1 bg-gray-700 text-white rounded-lg p-3 border border-gray-600 focus:border-blue-500 outline-none"
+          />
+          <button
+            onClick={() => handleApproveCollateral(recourseForm.amount)}
+            disabled={isApproveCollateralPending || !recourseForm.amount}
+            className="bg-gray-600 hover:bg-gray-500 disabled:bg-gray-600 text-white text-sm py-2 px-4 rounded-lg transition"
+          >
+            {isApproveCollateralSuccess ? '✅ Approved' : 'Approve'}
+          </button>
+          <button
+            onClick={handlePostCollateral}
+            disabled={isRecoursePending || !recourseForm.tokenId || !recourseForm.amount}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white text-sm py-2 px-4 rounded-lg transition"
+          >
+            {isRecoursePending ? 'Posting...' : 'Post Collateral'}
+          </button>
+        </div>
+
+        {recourseResults && recourseResults.length > 0 && (
+          <div className="space-y-2">
+            {recourseResults.map((r, i) => {
+              const recourse = r.result as Recourse | undefined;
+              const tokenId = recourseIds![i];
+              if (!recourse) return null;
+
+              const isOpen = recourse.status === 1 || recourse.status === 2;
+              const shortfall = (shortfallResults?.[i]?.result as bigint | undefined) ?? BigInt(0);
+              return (
+                <div key={tokenId.toString()} className="flex items-center justify-between bg-gray-700/50 rounded-lg p-3 text-sm">
+                  <div>
+                    <span className="text-white font-semibold">Invoice #{tokenId.toString()}</span>
+                    <span className="text-gray-300 ml-3">
+                      ${parseFloat(formatUnits(recourse.collateral, 6)).toLocaleString()} posted
+                    </span>
+                    {!isOpen && (
+                      <span className="text-gray-400 ml-3">
+                        ${parseFloat(formatUnits(recourse.released, 6)).toLocaleString()} released
+                        {recourse.paidOut > BigInt(0) && ` · $${parseFloat(formatUnits(recourse.paidOut, 6)).toLocaleString()} paid to vaults`}
+                      </span>
+                    )}
+                    {recourse.status === 2 && (
+                      <span className="text-yellow-400 ml-3">
+                        Buy back by {new Date(Number(recourse.buybackDeadline) * 1000).toLocaleString()}
+                      </span>
+                    )}
+                    {shortfall > BigInt(0) && (
+                      <span className="text-red-400 ml-3">
+                        ${parseFloat(formatUnits(shortfall, 6)).toLocaleString()} shortfall owed
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className={isOpen ? 'text-yellow-400' : 'text-gray-400'}>
+                      {RECOURSE_STATUS[recourse.status as RecourseStatus]}
+                    </span>
+                    {isOpen && (
+                      <>
+                        <button
+                          onClick={() => handleRecourseAction('buyback', tokenId)}
+                          disabled={isRecoursePending}
+                          className="bg-red-600 hover:bg-red-700 disabled:bg-gray-600 text-white py-1 px-3 rounded-lg transition"
+                        >
+                          Buy Back
+                        </button>
+                        <button
+                          onClick={() => handleRecourseAction('releaseCollateral', tokenId)}
+                          disabled={isRecoursePending}
+                          className="bg-gray-600 hover:bg-gray-500 disabled:bg-gray-600 text-white py-1 px-3 rounded-lg transition"
+                        >
+                          Release
+                        </button>
+                      </>
+                    )}
+                    {shortfall > BigInt(0) && (
+                      <button
+                        onClick={() => handlePayShortfall(tokenId, shortfall)}
+                        disabled={isRecoursePending}
+                        className="bg-red-600 hover:bg-red-700 disabled:bg-gray-600 text-white py-1 px-3 rounded-lg transition"
+                      >
+                        Pay Shortfall
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
       {/* My Invoices */}
       <div className="bg-gray-800/50 backdrop-blur-sm rounded-lg p-6 border border-gray-700">
         <h2 className="text-2xl font-semibold text-white mb-4">My Invoices</h2>
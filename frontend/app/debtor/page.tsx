@@ -0,0 +1,234 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useAccount, useWriteContract, useReadContract, useReadContracts, useWaitForTransactionReceipt, useSignTypedData } from 'wagmi';
+import { formatUnits, parseAbi } from 'viem';
+import { CONTRACTS, ABIS, CHAIN_ID, INVOICE_STATUS, InvoiceStatus } from '@/lib/contracts';
+
+interface Invoice {
+  tokenId: bigint;
+  faceValue: bigint;
+  maturityDate: bigint;
+  debtor: string;
+  invoiceHash: `0x${string}`;
+  status: number;
+  issuer: string;
+  debtorName: string;
+  acknowledgedAt: bigint;
+}
+
+// Typed getInvoice ABI for the batched invoice reads
+const GET_INVOICE_ABI = parseAbi([
+  'struct Invoice { uint256 tokenId; uint256 faceValue; uint256 discountedValue; uint256 maturityDate; address debtor; bytes32 invoiceHash; uint8 status; uint256 paidAmount; uint256 issuedAt; address issuer; string debtorName; uint256 discountRate; uint256 acknowledgedAt; }',
+  'function getInvoice(uint256 tokenId) view returns (Invoice)',
+]);
+
+// EIP-712 acknowledgement the debtor signs (must match InvoiceNFT.ACKNOWLEDGEMENT_TYPEHASH)
+const ACKNOWLEDGEMENT_TYPES = {
+  Acknowledgement: [
+    { name: 'tokenId', type: 'uint256' },
+    { name: 'invoiceHash', type: 'bytes32' },
+    { name: 'faceValue', type: 'uint256' },
+    { name: 'maturityDate', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+} as const;
+
+export default function DebtorPage() {
+  const { address, isConnected } = useAccount();
+  const [signedAcks, setSignedAcks] = useState<Record<string, { deadline: bigint; signature: string }>>({});
+
+  // Debtor registry record for the connected wallet
+  const { data: debtorRecord } = useReadContract({
+    address: CONTRACTS.invoiceNFT as `0x${string}`,
+    abi: ABIS.invoiceNFT,
+    functionName: 'getDebtor',
+    args: address ? [address] : undefined,
+  }) as { data: { debtorId: bigint; name: string; creditLimit: bigint; outstandingFaceValue: bigint; paidInvoices: bigint; defaultedInvoices: bigint } | undefined };
+
+  const { data: stats } = useReadContract({
+    address: CONTRACTS.invoiceNFT as `0x${string}`,
+    abi: ABIS.invoiceNFT,
+    functionName: 'getStatistics',
+  }) as { data: readonly bigint[] | undefined };
+
+  // Load every invoice and keep the ones addressed to this wallet
+  const totalInvoices = stats ? Number(stats[4]) : 0;
+  const { data: invoiceResults, refetch: refetchInvoices } = useReadContracts({
+    contracts: Array.from({ length: totalInvoices }, (_, i) => ({
+      address: CONTRACTS.invoiceNFT as `0x${string}`,
+      abi: GET_INVOICE_ABI,
+      functionName: 'getInvoice',
+      args: [BigInt(i + 1)],
+    })),
+  }) as { data: { result?: unknown }[] | undefined; refetch: () => void };
+
+  const myInvoices = (invoiceResults || [])
+    .map((r) => r.result as Invoice | undefined)
+    .filter((inv): inv is Invoice => !!inv && !!address && inv.debtor.toLowerCase() === address.toLowerCase());
+
+  // On-chain acknowledgement
+  const { writeContract: acknowledge, data: ackHash, isPending: isAckPending } = useWriteContract();
+  const { isSuccess: isAckSuccess } = useWaitForTransactionReceipt({ hash: ackHash });
+
+  // Gasless acknowledgement (anyone can relay the signature)
+  const { signTypedDataAsync, isPending: isSignPending } = useSignTypedData();
+
+  useEffect(() => {
+    if (isAckSuccess) {
+      refetchInvoices();
+    }
+  }, [isAckSuccess, refetchInvoices]);
+
+  const handleAcknowledge = (tokenId: bigint) => {
+    acknowledge({
+      address: CONTRACTS.invoiceNFT as `0x${string}`,
+      abi: ABIS.invoiceNFT,
+      functionName: 'acknowledgeInvoice',
+      args: [tokenId],
+    });
+  };
+
+  const handleSignAcknowledgement = async (invoice: Invoice) => {
+    const deadline = BigInt(Math.floor(Date.now() / 1000) + 7 * 24 * 60 * 60); // 1 week
+
+    try {
+      const signature = await signTypedDataAsync({
+        domain: {
+          name: 'InvoiceNFT',
+          version: '1',
+          chainId: CHAIN_ID,
+          verifyingContract: CONTRACTS.invoiceNFT as `0x${string}`,
+        },
+        types: ACKNOWLEDGEMENT_TYPES,
+        primaryType: 'Acknowledgement',
+        message: {
+          tokenId: invoice.tokenId,
+          invoiceHash: invoice.invoiceHash,
+          faceValue: invoice.faceValue,
+          maturityDate: invoice.maturityDate,
+          deadline,
+        },
+      });
+      setSignedAcks({ ...signedAcks, [invoice.tokenId.toString()]: { deadline, signature } });
+    } catch (error) {
+      console.error('Signing failed:', error);
+    }
+  };
+
+  if (!isConnected) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 py-12 text-center">
+        <h1 className="text-3xl font-bold text-white mb-4">Debtor Interface</h1>
+        <p className="text-gray-400">Please connect your wallet to continue</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-8">
+      <h1 className="text-4xl font-bold text-white mb-8">Debtor Interface</h1>
+
+      {/* Registry Record */}
+      <div className="bg-gray-800/50 backdrop-blur-sm rounded-lg p-6 border border-gray-700 mb-8">
+        <h2 className="text-2xl font-semibold text-white mb-4">Debtor Registry</h2>
+
+        {debtorRecord && debtorRecord.debtorId !== BigInt(0) ? (
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            <div>
+              <span className="text-gray-400">Name:</span>
+              <span className="text-white ml-2">{debtorRecord.name} (ID #{debtorRecord.debtorId.toString()})</span>
+            </div>
+            <div>
+              <span className="text-gray-400">Outstanding:</span>
+              <span className="text-white ml-2">
+                ${parseFloat(formatUnits(debtorRecord.outstandingFaceValue, 6)).toLocaleString()} / $
+                {parseFloat(formatUnits(debtorRecord.creditLimit, 6)).toLocaleString()}
+              </span>
+            </div>
+            <div className="col-span-2">
+              <span className="text-gray-400">History:</span>
+              <span className="text-white ml-2">
+                {debtorRecord.paidInvoices.toString()} paid / {debtorRecord.defaultedInvoices.toString()} defaulted
+              </span>
+            </div>
+          </div>
+        ) : (
+          <p className="text-yellow-400">⚠️ This wallet is not a registered debtor</p>
+        )}
+      </div>
+
+      {/* Invoices Addressed To Me */}
+      <div className="bg-gray-800/50 backdrop-blur-sm rounded-lg p-6 border border-gray-700">
+        <h2 className="text-2xl font-semibold text-white mb-2">Invoices Addressed To You</h2>
+        <p className="text-gray-400 text-sm mb-4">
+          Confirm invoices you actually owe. Vaults can require your acknowledgement before funding an invoice,
+          so fake invoices against your name cannot be factored.
+        </p>
+
+        {myInvoices.length === 0 ? (
+          <p className="text-gray-400">No invoices addressed to this wallet</p>
+        ) : (
+          <div className="space-y-4">
+            {myInvoices.map((invoice) => {
+              const id = invoice.tokenId.toString();
+              const signed = signedAcks[id];
+
+              return (
+                <div key={id} className="bg-gray-700/50 rounded-lg p-4">
+                  <div className="flex justify-between items-start">
+                    <div>
+                      <p className="text-white font-semibold">Invoice #{id}</p>
+                      <p className="text-gray-400 text-sm">
+                        ${parseFloat(formatUnits(invoice.faceValue, 6)).toLocaleString()} due{' '}
+                        {new Date(Number(invoice.maturityDate) * 1000).toLocaleDateString()}
+                      </p>
+                      <p className="text-gray-400 text-sm font-mono">Issuer: {invoice.issuer}</p>
+                    </div>
+                    <span className="text-sm text-gray-300">
+                      {INVOICE_STATUS[invoice.status as InvoiceStatus]}
+                    </span>
+                  </div>
+
+                  {invoice.acknowledgedAt > BigInt(0) ? (
+                    <p className="text-green-400 text-sm mt-3">
+                      ✅ Acknowledged {new Date(Number(invoice.acknowledgedAt) * 1000).toLocaleString()}
+                    </p>
+                  ) : invoice.status === 0 ? (
+                    <div className="mt-3">
+                      <div className="flex gap-3">
+                        <button
+                          onClick={() => handleAcknowledge(invoice.tokenId)}
+                          disabled={isAckPending}
+                          className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white text-sm py-2 px-4 rounded-lg transition"
+                        >
+                          {isAckPending ? 'Acknowledging...' : 'Acknowledge'}
+                        </button>
+                        <button
+                          onClick={() => handleSignAcknowledgement(invoice)}
+                          disabled={isSignPending}
+                          className="bg-gray-600 hover:bg-gray-500 disabled:bg-gray-600 text-white text-sm py-2 px-4 rounded-lg transition"
+                        >
+                          Sign (gasless)
+                        </button>
+                      </div>
+                      {signed && (
+                        <div className="mt-3 text-xs text-gray-400 break-all">
+                          <p>Share with the issuer to submit via acknowledgeInvoiceWithSig:</p>
+                          <p className="font-mono mt-1">deadline: {signed.deadline.toString()}</p>
+                          <p className="font-mono">signature: {signed.signature}</p>
+                        </div>
+                      )}
+                    </div>
+                  ) : (
+                    <p className="text-gray-400 text-sm mt-3">Not acknowledged</p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,8 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useAccount, useWriteContract, useReadContract, useWaitForTransactionReceipt } from 'wagmi';
-import { parseUnits, formatUnits, keccak256, toBytes } from 'viem';
+import { parseUnits, formatUnits, keccak256, toBytes, zeroAddress } from 'viem';
 import { CONTRACTS, ABIS } from '@/lib/contracts';
 
 export default function InvestorPage() {
@@ -68,8 +68,40 @@ function VaultCard({
     functionName: 'getVaultStats',
   });
 
+  const { data: targetAPY } = useReadContract({
+    address: vaultAddress as `0x${string}`,
+    abi: ABIS.trancheVault,
+    functionName: 'targetAPY',
+  });
+
+  const { data: utilization } = useReadContract({
+    address: vaultAddress as `0x${string}`,
+    abi: ABIS.trancheVault,
+    functionName: 'getUtilization',
+  });
+
+  // Both tranches share one pool; read its address from the vault itself
+  const { data: poolAddress } = useReadContract({
+    address: vaultAddress as `0x${string}`,
+    abi: ABIS.trancheVault,
+    functionName: 'tranchePool',
+  });
+
+  const { data: waterfall } = useReadContract({
+    address: poolAddress as `0x${string}`,
+    abi: ABIS.tranchePool,
+    functionName: 'getWaterfallState',
+    query: { enabled: !!poolAddress && poolAddress !== zeroAddress },
+  });
+
   const tvl = stats ? formatUnits(stats[0], 6) : '0';
   const expectedAPY = stats ? (Number(stats[6]) / 100).toFixed(2) : type === 'senior' ? '8.00' : '20.00';
+  const vaultStats = stats as readonly bigint[] | undefined;
+  const netAPY = vaultStats ? (Number(vaultStats[8]) / 100).toFixed(2) : null;
+
+  const waterfallState = waterfall as readonly [bigint, bigint, bigint, bigint, bigint] | undefined;
+  const juniorBuffer = waterfallState ? parseFloat(formatUnits(waterfallState[1], 6)) : 0;
+  const subordination = waterfallState ? (Number(waterfallState[2]) / 100).toFixed(2) : '0.00';
 
   return (
     <button
@@ -98,6 +130,7 @@ function VaultCard({
         <div>
           <p className="text-gray-500 text-sm">Target APY</p>
           <p className="text-2xl font-bold text-white">{expectedAPY}%</p>
+          {netAPY && <p className="text-xs text-gray-500">{netAPY}% after fees</p>}
         </div>
         <div>
           <p className="text-gray-500 text-sm">Total Value Locked</p>
@@ -105,12 +138,25 @@ function VaultCard({
         </div>
       </div>
 
+      {targetAPY !== undefined && utilization !== undefined && (
+        <p className="text-xs text-gray-500 mt-2">
+          {(Number(utilization) / 100).toFixed(1)}% utilized · target rate {(Number(targetAPY) / 100).toFixed(2)}%
+        </p>
+      )}
+
       <div className="mt-4 pt-4 border-t border-gray-700">
         <p className="text-sm text-gray-400">
           {type === 'senior'
-            ? 'Senior tranche gets paid first, offering more stability and lower returns.'
-            : 'Junior tranche absorbs losses first but offers higher potential returns.'}
+            ? 'Senior tranche is paid its target APY first, and defaults only reach it once the junior tranche is exhausted.'
+            : 'Junior tranche absorbs losses first and earns all yield above the senior target APY.'}
         </p>
+        {waterfallState && (
+          <p className="text-sm text-gray-500 mt-2">
+            {type === 'senior'
+              ? `Protected by $${juniorBuffer.toLocaleString()} of junior capital (${subordination}% subordination)`
+              : `First-loss buffer: $${juniorBuffer.toLocaleString()} (${subordination}% of pool)`}
+          </p>
+        )}
       </div>
     </button>
   );
@@ -123,14 +169,29 @@ function VaultInterface({ vaultType }: { vaultType: 'senior' | 'junior' }) {
 
   const vaultAddress = vaultType === 'senior' ? CONTRACTS.seniorVault : CONTRACTS.juniorVault;
 
-  // Check KYC
+  // Check KYC (a KYC record, or a ZK-KYC proof if this vault accepts them)
   const { data: isKYCVerified } = useReadContract({
     address: CONTRACTS.kycGate as `0x${string}`,
     abi: ABIS.kycGate,
-    functionName: 'isVerified',
-    args: address ? [address] : undefined,
+    functionName: 'isCompliant',
+    args: address ? [vaultAddress, address] : undefined,
   });
 
+  // Check this vault's eligibility policy (tier, country, risk score)
+  const { data: eligibility } = useReadContract({
+    address: CONTRACTS.kycGate as `0x${string}`,
+    abi: ABIS.kycGate,
+    functionName: 'checkEligibility',
+    args: address ? [vaultAddress, address] : undefined,
+  }) as { data: readonly [boolean, string] | undefined };
+
+  const { data: depositLimit } = useReadContract({
+    address: CONTRACTS.kycGate as `0x${string}`,
+    abi: ABIS.kycGate,
+    functionName: 'getDepositLimit',
+    args: address ? [vaultAddress, address] : undefined,
+  }) as { data: bigint | undefined };
+
   // Get USDC balance
   const { data: usdcBalance } = useReadContract({
     address: CONTRACTS.mockUSDC as `0x${string}`,
@@ -147,6 +208,14 @@ function VaultInterface({ vaultType }: { vaultType: 'senior' | 'junior' }) {
     args: address ? [address] : undefined,
   });
 
+  // Get redemption request
+  const { data: redeemRequest, refetch: refetchRedeemRequest } = useReadContract({
+    address: vaultAddress as `0x${string}`,
+    abi: ABIS.trancheVault,
+    functionName: 'getRedeemRequest',
+    args: address ? [address] : undefined,
+  }) as { data: readonly [bigint, bigint, bigint, bigint] | undefined; refetch: () => void };
+
   // KYC verification
   const { writeContract: verifyKYC, data: kycHash } = useWriteContract();
   const { isSuccess: isKYCSuccess } = useWaitForTransactionReceipt({ hash: kycHash });
@@ -163,10 +232,18 @@ function VaultInterface({ vaultType }: { vaultType: 'senior' | 'junior' }) {
   const { writeContract: deposit, data: depositHash, isPending: isDepositing } = useWriteContract();
   const { isSuccess: isDepositSuccess } = useWaitForTransactionReceipt({ hash: depositHash });
 
-  // Redeem
-  const { writeContract: redeem, data: redeemHash, isPending: isRedeeming } = useWriteContract();
+  // Request redemption (queued until the vault processes the next epoch)
+  const { writeContract: requestRedeem, data: redeemHash, isPending: isRedeeming } = useWriteContract();
   const { isSuccess: isRedeemSuccess } = useWaitForTransactionReceipt({ hash: redeemHash });
 
+  // Claim processed redemption
+  const { writeContract: claimRedeem, data: claimHash, isPending: isClaiming } = useWriteContract();
+  const { isSuccess: isClaimSuccess } = useWaitForTransactionReceipt({ hash: claimHash });
+
+  useEffect(() => {
+    if (isRedeemSuccess || isClaimSuccess) refetchRedeemRequest();
+  }, [isRedeemSuccess, isClaimSuccess, refetchRedeemRequest]);
+
   const handleKYC = () => {
     if (!address) return;
     const countryHash = keccak256(toBytes('US'));
@@ -216,18 +293,35 @@ function VaultInterface({ vaultType }: { vaultType: 'senior' | 'junior' }) {
     if (!amount || !address || !position) return;
     const sharesBN = parseUnits(amount, 18); // Shares have 18 decimals
 
-    redeem({
+    requestRedeem({
       address: vaultAddress as `0x${string}`,
       abi: ABIS.trancheVault,
-      functionName: 'redeem',
+      functionName: 'requestRedeem',
       args: [sharesBN, address, address],
     });
   };
 
+  const handleClaim = () => {
+    if (!address || !redeemRequest || redeemRequest[1] === BigInt(0)) return;
+
+    claimRedeem({
+      address: vaultAddress as `0x${string}`,
+      abi: ABIS.trancheVault,
+      functionName: 'redeem',
+      args: [redeemRequest[1], address, address],
+    });
+  };
+
   const userShares = position ? formatUnits(position[0], 18) : '0';
   const userValue = position ? formatUnits(position[1], 6) : '0';
   const userPercent = position ? (Number(position[2]) / 100).toFixed(2) : '0';
   const balance = usdcBalance ? formatUnits(usdcBalance, 6) : '0';
+  const isEligible = eligibility ? eligibility[0] : false;
+  const ineligibleReason = eligibility && !eligibility[0] ? eligibility[1] : '';
+  const positionLimit = depositLimit && depositLimit > BigInt(0) ? formatUnits(depositLimit, 6) : null;
+  const queuedShares = redeemRequest ? formatUnits(redeemRequest[0], 18) : '0';
+  const claimableAssets = redeemRequest ? formatUnits(redeemRequest[2], 6) : '0';
+  const claimedAssets = redeemRequest ? formatUnits(redeemRequest[3], 6) : '0';
 
   return (
     <div className="grid md:grid-cols-3 gap-6">
@@ -272,7 +366,7 @@ function VaultInterface({ vaultType }: { vaultType: 'senior' | 'junior' }) {
           {!isKYCVerified && (
             <div className="bg-yellow-900/20 border border-yellow-500 rounded-lg p-4 mb-6">
               <p className="text-yellow-300 mb-3">
-                ⚠️ KYC verification required to invest
+                ⚠️ KYC verification (or a ZK-KYC proof, where the vault accepts one) required to invest
               </p>
               <button
                 onClick={handleKYC}
@@ -283,6 +377,18 @@ function VaultInterface({ vaultType }: { vaultType: 'senior' | 'junior' }) {
             </div>
           )}
 
+          {!!isKYCVerified && !isEligible && ineligibleReason && (
+            <div className="bg-red-900/20 border border-red-500 rounded-lg p-4 mb-6">
+              <p className="text-red-300 font-semibold mb-1">
+                Not eligible for the {vaultType} tranche
+              </p>
+              <p className="text-red-200 text-sm">{ineligibleReason}</p>
+              <p className="text-gray-400 text-xs mt-2">
+                Each vault sets its own minimum KYC tier, excluded countries and maximum risk score.
+              </p>
+            </div>
+          )}
+
           {isKYCSuccess && (
             <div className="bg-green-900/20 border border-green-500 rounded-lg p-4 mb-6">
               <p className="text-green-300">✅ KYC Verified! You can now invest.</p>
@@ -326,6 +432,7 @@ function VaultInterface({ vaultType }: { vaultType: 'senior' | 'junior' }) {
               {tab === 'deposit' && (
                 <p className="text-sm text-gray-400 mt-1">
                   Available: ${balance} USDC
+                  {positionLimit && ` · Tier position limit: $${parseFloat(positionLimit).toLocaleString()}`}
                 </p>
               )}
             </div>
@@ -337,6 +444,12 @@ function VaultInterface({ vaultType }: { vaultType: 'senior' | 'junior' }) {
             )}
 
             {isRedeemSuccess && (
+              <div className="bg-green-900/20 border border-green-500 rounded-lg p-4">
+                <p className="text-green-300">✅ Redemption requested! It will be filled when the vault processes the next epoch.</p>
+              </div>
+            )}
+
+            {isClaimSuccess && (
               <div className="bg-green-900/20 border border-green-500 rounded-lg p-4">
                 <p className="text-green-300">✅ Withdrawal successful!</p>
               </div>
@@ -346,27 +459,53 @@ function VaultInterface({ vaultType }: { vaultType: 'senior' | 'junior' }) {
               <div className="space-y-3">
                 <button
                   onClick={handleApprove}
-                  disabled={!isKYCVerified || !amount}
+                  disabled={!isEligible || !amount}
                   className="w-full bg-gray-700 hover:bg-gray-600 text-white font-bold py-3 rounded-lg disabled:opacity-50"
                 >
                   {isApproved ? '✅ Approved' : '1. Approve USDC'}
                 </button>
                 <button
                   onClick={handleDeposit}
-                  disabled={!isKYCVerified || !amount || !isApproved || isDepositing}
+                  disabled={!isEligible || !amount || !isApproved || isDepositing}
                   className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-3 rounded-lg disabled:opacity-50"
                 >
                   {isDepositing ? 'Depositing...' : '2. Deposit to Vault'}
                 </button>
               </div>
             ) : (
-              <button
-                onClick={handleRedeem}
-                disabled={!isKYCVerified || !amount || isRedeeming}
-                className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-3 rounded-lg disabled:opacity-50"
-              >
-                {isRedeeming ? 'Withdrawing...' : 'Withdraw from Vault'}
-              </button>
+              <div className="space-y-3">
+                <div className="bg-gray-900/50 rounded-lg p-4 text-sm space-y-1">
+                  <div className="flex justify-between">
+                    <span className="text-gray-400">Queued shares</span>
+                    <span className="text-white">{parseFloat(queuedShares).toFixed(6)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-400">Ready to claim</span>
+                    <span className="text-white">${parseFloat(claimableAssets).toLocaleString()}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-400">Claimed so far</span>
+                    <span className="text-white">${parseFloat(claimedAssets).toLocaleString()}</span>
+                  </div>
+                  <p className="text-gray-500 pt-2">
+                    Redemptions are queued and filled pro rata from idle vault cash each epoch.
+                  </p>
+                </div>
+                <button
+                  onClick={handleRedeem}
+                  disabled={!isKYCVerified || !amount || isRedeeming}
+                  className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-3 rounded-lg disabled:opacity-50"
+                >
+                  {isRedeeming ? 'Requesting...' : '1. Request Redemption'}
+                </button>
+                <button
+                  onClick={handleClaim}
+                  disabled={!redeemRequest || redeemRequest[1] === BigInt(0) || isClaiming}
+                  className="w-full bg-green-600 hover:bg-green-700 text-white font-bold py-3 rounded-lg disabled:opacity-50"
+                >
+                  {isClaiming ? 'Claiming...' : '2. Claim Withdrawal'}
+                </button>
+              </div>
             )}
           </div>
         </div>
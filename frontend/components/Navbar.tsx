@@ -25,6 +25,12 @@ export function Navbar() {
               >
                 Investor
               </Link>
+              <Link
+                href="/debtor"
+                className="text-gray-300 hover:text-white px-3 py-2 rounded-md text-sm font-medium transition"
+              >
+                Debtor
+              </Link>
               <Link
                 href="/dashboard"
                 className="text-gray-300 hover:text-white px-3 py-2 rounded-md text-sm font-medium transition"
@@ -12,6 +12,8 @@ export const CONTRACTS = {
   zkKYCVerifier: "0x17359570233056Ec9bb67106AE4c513B738C18b5",
   seniorVault: "0xCE75bc6E94363f1c3756d769871aBE7428202001",
   juniorVault: "0x48Ba5Cd4692f34b68949A22074Cc7c6b41b5Ad28",
+  // Set after running scripts/deploy.ts (addresses.recourseEscrow)
+  recourseEscrow: process.env.NEXT_PUBLIC_RECOURSE_ESCROW_ADDRESS || "0x0000000000000000000000000000000000000000",
 } as const;
 
 // Mantle Sepolia network config
@@ -37,16 +39,26 @@ export const mantleSepolia = {
 export const ABIS = {
   invoiceNFT: [
     "function mintInvoice(uint256 faceValue, uint256 maturityDate, address debtor, bytes32 invoiceHash, string debtorName, uint256 discountRate) returns (uint256)",
-    "function getInvoice(uint256 tokenId) view returns (tuple(uint256 tokenId, uint256 faceValue, uint256 discountedValue, uint256 maturityDate, address debtor, bytes32 invoiceHash, uint8 status, uint256 paidAmount, uint256 issuedAt, address issuer, string debtorName, uint256 discountRate))",
+    "function getInvoice(uint256 tokenId) view returns (tuple(uint256 tokenId, uint256 faceValue, uint256 discountedValue, uint256 maturityDate, address debtor, bytes32 invoiceHash, uint8 status, uint256 paidAmount, uint256 issuedAt, address issuer, string debtorName, uint256 discountRate, uint256 acknowledgedAt))",
+    "function acknowledgeInvoice(uint256 tokenId)",
+    "function acknowledgeInvoiceWithSig(uint256 tokenId, uint256 deadline, bytes signature)",
     "function balanceOf(address owner) view returns (uint256)",
     "function tokenOfOwnerByIndex(address owner, uint256 index) view returns (uint256)",
+    "function isApprovedForAll(address owner, address operator) view returns (bool)",
+    "function setApprovalForAll(address operator, bool approved)",
     "function getStatistics() view returns (uint256 totalFunded, uint256 valueFunded, uint256 valuePaid, uint256 valueDefaulted, uint256 totalSupply)",
+    "function getDebtor(address debtor) view returns (tuple(uint256 debtorId, string name, uint256 creditLimit, uint256 outstandingFaceValue, uint256 paidInvoices, uint256 defaultedInvoices, uint256 registeredAt, bool isActive))",
+    "function getAvailableCredit(address debtor) view returns (uint256)",
+    "function mintNonces(address issuer) view returns (uint256)",
     "event InvoiceMinted(uint256 indexed tokenId, address indexed issuer, uint256 faceValue, uint256 discountedValue, uint256 maturityDate, bytes32 invoiceHash)",
   ],
   kycGate: [
     "function isVerified(address user) view returns (bool)",
     "function verifyUser(address user, uint256 expiresAt, bytes32 countryHash, uint8 riskScore, string kycId, uint8 tier)",
     "function getKYCData(address user) view returns (tuple(bool isVerified, uint256 verifiedAt, uint256 expiresAt, bytes32 countryHash, uint8 riskScore, string kycId, uint8 tier))",
+    "function isCompliant(address vault, address user) view returns (bool)",
+    "function checkEligibility(address vault, address user) view returns (bool eligible, string reason)",
+    "function getDepositLimit(address vault, address user) view returns (uint256)",
   ],
   mockUSDC: [
     "function balanceOf(address account) view returns (uint256)",
@@ -57,14 +69,41 @@ export const ABIS = {
   ],
   trancheVault: [
     "function deposit(uint256 assets, address receiver) returns (uint256)",
-    "function redeem(uint256 shares, address receiver, address owner) returns (uint256)",
+    "function requestRedeem(uint256 shares, address controller, address owner) returns (uint256)",
+    "function cancelRedeemRequest() returns (uint256)",
+    "function redeem(uint256 shares, address receiver, address controller) returns (uint256)",
+    "function getRedeemRequest(address controller) view returns (uint256 pendingShares, uint256 claimableShares, uint256 claimableAssets, uint256 claimedAssets)",
+    "function getRedemptionQueueState() view returns (uint256 epoch, uint256 pendingShares, uint256 reservedAssets, uint256 nextProcessingTime)",
     "function balanceOf(address account) view returns (uint256)",
     "function convertToAssets(uint256 shares) view returns (uint256)",
     "function convertToShares(uint256 assets) view returns (uint256)",
     "function getUserPosition(address user) view returns (tuple(uint256 shares, uint256 assets, uint256 percentageOfVault))",
-    "function getVaultStats() view returns (tuple(uint256 tvl, uint256 invoiceCount, uint256 activeInvoiceValue, uint256 totalYield, uint256 totalLoss, uint256 sharePrice, uint256 expectedAPY))",
+    "function getVaultStats() view returns (tuple(uint256 tvl, uint256 invoiceCount, uint256 activeInvoiceValue, uint256 totalYield, uint256 totalLoss, uint256 sharePrice, uint256 expectedAPY, uint256 totalFees, uint256 netAPY))",
     "function isSenior() view returns (bool)",
     "function targetAPY() view returns (uint256)",
+    "function getUtilization() view returns (uint256)",
+    "function minIdleCashBps() view returns (uint256)",
+    "function strategy() view returns (address)",
+    "function tranchePool() view returns (address)",
+  ],
+  recourseEscrow: [
+    "function postCollateral(uint256 tokenId, uint256 amount)",
+    "function mintWithCollateral(tuple(uint256 faceValue, uint256 maturityDate, address debtor, bytes32 invoiceHash, string debtorName, uint256 discountRate, address issuer, uint256 nonce, uint256 deadline) request, bytes signature, uint256 collateral) returns (uint256)",
+    "function payShortfall(uint256 tokenId, uint256 amount)",
+    "function withdrawCollateral(uint256 tokenId, uint256 amount)",
+    "function buyback(uint256 tokenId)",
+    "function releaseCollateral(uint256 tokenId)",
+    "function getRecourse(uint256 tokenId) view returns (tuple(address issuer, uint256 collateral, uint256 postedAt, uint256 buybackDeadline, uint256 paidOut, uint256 released, uint8 status))",
+    "function getIssuerInvoices(address issuer) view returns (uint256[])",
+    "function lockedCollateral(address issuer) view returns (uint256)",
+    "function releasedCollateral(address issuer) view returns (uint256)",
+    "function issuerShortfall(address issuer) view returns (uint256)",
+    "function buybackShortfall(uint256 tokenId) view returns (uint256)",
+  ],
+  tranchePool: [
+    "function getWaterfallState() view returns (uint256 seniorAssets, uint256 juniorAssets, uint256 subordination, uint256 seniorYieldDue, int256 claim)",
+    "function totalSeniorLoss() view returns (uint256)",
+    "function totalJuniorLoss() view returns (uint256)",
   ],
 } as const;
 
@@ -75,6 +114,20 @@ export const INVOICE_STATUS = {
   3: "PAID",
   4: "DEFAULTED",
   5: "PARTIAL_PAID",
+  6: "ACKNOWLEDGED",
+  7: "OVERDUE",
+  8: "WRITTEN_OFF",
 } as const;
 
 export type InvoiceStatus = keyof typeof INVOICE_STATUS;
+
+export const RECOURSE_STATUS = {
+  0: "NONE",
+  1: "LOCKED",
+  2: "BUYBACK_DUE",
+  3: "BOUGHT_BACK",
+  4: "SLASHED",
+  5: "RELEASED",
+} as const;
+
+export type RecourseStatus = keyof typeof RECOURSE_STATUS;
@@ -1,4 +1,5 @@
-import { HardhatUserConfig } from "hardhat/config";
+import { HardhatUserConfig, task } from "hardhat/config";
+import { TASK_COMPILE } from "hardhat/builtin-tasks/task-names";
 import "@nomicfoundation/hardhat-toolbox";
 import "hardhat-gas-reporter";
 import "solidity-coverage";
@@ -6,6 +7,36 @@ import * as dotenv from "dotenv";
 
 dotenv.config();
 
+// EIP-170 limit on deployed bytecode; larger contracts cannot be deployed
+const MAX_CONTRACT_SIZE = 24576;
+
+// Fail the build as soon as a contract outgrows the limit instead of at deployment
+task(TASK_COMPILE).setAction(async (args, hre, runSuper) => {
+  const result = await runSuper(args);
+
+  // Coverage instrumentation inflates bytecode well past the limit
+  if ("__SOLIDITY_COVERAGE_RUNNING" in hre && hre.__SOLIDITY_COVERAGE_RUNNING) return result;
+
+  const oversized: string[] = [];
+  for (const name of await hre.artifacts.getAllFullyQualifiedNames()) {
+    if (!name.startsWith("contracts/")) continue;
+
+    const { deployedBytecode } = await hre.artifacts.readArtifact(name);
+    const size = (deployedBytecode.length - 2) / 2;
+    if (size > MAX_CONTRACT_SIZE) {
+      oversized.push(`${name}: ${size} bytes`);
+    }
+  }
+
+  if (oversized.length > 0) {
+    throw new Error(
+      `Contract size limit (${MAX_CONTRACT_SIZE} bytes) exceeded:\n  ${oversized.join("\n  ")}`
+    );
+  }
+
+  return result;
+});
+
 const config: HardhatUserConfig = {
   solidity: {
     version: "0.8.24",
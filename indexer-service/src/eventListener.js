@@ -70,6 +70,48 @@ class EventListener {
       }
     });
 
+    // InvoiceCancelled event (issuer burned an unverified invoice)
+    invoiceNFT.on('InvoiceCancelled', async (tokenId, issuer, timestamp) => {
+      try {
+        await prisma.invoice.update({
+          where: { tokenId: Number(tokenId) },
+          data: {
+            status: 'CANCELLED',
+            cancelledAt: timestamp.toString(),
+          },
+        });
+
+        logger.info(`🗑️ Invoice cancelled: Token ID ${tokenId}`);
+      } catch (error) {
+        logger.error('Error handling InvoiceCancelled event:', error);
+      }
+    });
+
+    // InvoiceAmended event (terms corrected before verification)
+    invoiceNFT.on('InvoiceAmended', async (tokenId, version, faceValue, maturityDate, invoiceHash, discountRate) => {
+      try {
+        const invoice = await invoiceNFT.getInvoice(tokenId);
+
+        await prisma.invoice.update({
+          where: { tokenId: Number(tokenId) },
+          data: {
+            version: Number(version),
+            debtorName: invoice.debtorName,
+            faceValue: faceValue.toString(),
+            discountedValue: invoice.discountedValue.toString(),
+            discountRate: Number(discountRate),
+            maturityDate: maturityDate.toString(),
+            invoiceHash,
+            status: 'PENDING',
+          },
+        });
+
+        logger.info(`✏️ Invoice amended: Token ID ${tokenId} (v${version})`);
+      } catch (error) {
+        logger.error('Error handling InvoiceAmended event:', error);
+      }
+    });
+
     // InvoiceVerified event
     invoiceNFT.on('InvoiceVerified', async (tokenId, event) => {
       try {
@@ -89,6 +131,20 @@ class EventListener {
       }
     });
 
+    // InvoiceFractionalized event (invoice split across several vaults)
+    invoiceNFT.on('InvoiceFractionalized', async (tokenId, issuer, holders, shareBps) => {
+      try {
+        await prisma.invoice.update({
+          where: { tokenId: Number(tokenId) },
+          data: { fractionHolders: holders.map((holder) => holder.toString()) },
+        });
+
+        logger.info(`🧩 Invoice fractionalized: Token ID ${tokenId} across ${holders.length} vaults (${shareBps.join('/')} bps)`);
+      } catch (error) {
+        logger.error('Error handling InvoiceFractionalized event:', error);
+      }
+    });
+
     // InvoiceFunded event
     invoiceNFT.on('InvoiceFunded', async (tokenId, vault, amount, event) => {
       try {
@@ -140,6 +196,51 @@ class EventListener {
         logger.error('Error handling InvoiceDefaulted event:', error);
       }
     });
+
+    // InvoiceOverdue event (past maturity, within the grace period)
+    invoiceNFT.on('InvoiceOverdue', async (tokenId) => {
+      try {
+        await prisma.invoice.update({
+          where: { tokenId: Number(tokenId) },
+          data: { status: 'OVERDUE' },
+        });
+
+        logger.warn(`⏰ Invoice overdue: Token ID ${tokenId}`);
+      } catch (error) {
+        logger.error('Error handling InvoiceOverdue event:', error);
+      }
+    });
+
+    // RecoveryReceived event (payment after default)
+    invoiceNFT.on('RecoveryReceived', async (tokenId, amount, totalRecovered) => {
+      try {
+        await prisma.invoice.update({
+          where: { tokenId: Number(tokenId) },
+          data: { recoveredAmount: totalRecovered.toString() },
+        });
+
+        logger.info(`♻️ Recovery on invoice ${tokenId}: ${ethers.formatUnits(amount, 6)} USDC`);
+      } catch (error) {
+        logger.error('Error handling RecoveryReceived event:', error);
+      }
+    });
+
+    // InvoiceWrittenOff event (collections closed)
+    invoiceNFT.on('InvoiceWrittenOff', async (tokenId, amountUnpaid, timestamp) => {
+      try {
+        await prisma.invoice.update({
+          where: { tokenId: Number(tokenId) },
+          data: {
+            status: 'WRITTEN_OFF',
+            writtenOffAt: timestamp.toString(),
+          },
+        });
+
+        logger.warn(`🧾 Invoice written off: Token ID ${tokenId}, unpaid ${ethers.formatUnits(amountUnpaid, 6)} USDC`);
+      } catch (error) {
+        logger.error('Error handling InvoiceWrittenOff event:', error);
+      }
+    });
   }
 
   async listenToVaultEvents() {
@@ -262,7 +363,10 @@ class EventListener {
   }
 
   getStatusString(status) {
-    const statuses = ['PENDING', 'VERIFIED', 'FUNDED', 'PAID', 'DEFAULTED'];
+    const statuses = [
+      'PENDING', 'VERIFIED', 'FUNDED', 'PAID', 'DEFAULTED',
+      'PARTIAL_PAID', 'ACKNOWLEDGED', 'OVERDUE', 'WRITTEN_OFF',
+    ];
     return statuses[Number(status)] || 'UNKNOWN';
   }
 
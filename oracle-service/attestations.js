@@ -0,0 +1,184 @@
+/**
+ * Oracle quorum attestations
+ *
+ * When InvoiceNFT.oracleThreshold() is above 1, verification, payments,
+ * defaults and write-offs need EIP-712 signatures from that many distinct oracles.
+ *
+ * This module:
+ * - Signs attestations with the local oracle key
+ * - Requests co-signatures from peer oracles over HTTP (POST /attest)
+ * - Submits the collected signatures via executeAttestation
+ */
+
+const ethers = require('ethers');
+const logger = require('./logger');
+
+const ACTIONS = {
+  VERIFY: 0,
+  PAYMENT: 1,
+  DEFAULT: 2,
+  WRITE_OFF: 3,
+};
+
+const ATTESTATION_TYPES = {
+  Attestation: [
+    { name: 'action', type: 'uint8' },
+    { name: 'tokenId', type: 'uint256' },
+    { name: 'amount', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+};
+
+class AttestationCoordinator {
+  /**
+   * @param {ethers.Contract} invoiceNFT InvoiceNFT connected to the local oracle wallet
+   * @param {ethers.Wallet} wallet Local oracle wallet
+   * @param {string[]} peers Base URLs of peer oracle services
+   */
+  constructor(invoiceNFT, wallet, peers = []) {
+    this.invoiceNFT = invoiceNFT;
+    this.wallet = wallet;
+    this.peers = peers;
+    this.signatureTtl = 3600; // Attestations expire after 1 hour
+    this.domain = null;
+  }
+
+  async initialize() {
+    const network = await this.wallet.provider.getNetwork();
+    this.domain = {
+      name: 'InvoiceNFT',
+      version: '1',
+      chainId: network.chainId,
+      verifyingContract: await this.invoiceNFT.getAddress(),
+    };
+
+    logger.info(`🤝 Attestation peers: ${this.peers.length ? this.peers.join(', ') : 'none'}`);
+  }
+
+  /**
+   * Build the attestation for an action at the invoice's current nonce
+   */
+  async buildAttestation(action, tokenId, amount = 0n) {
+    const nonce = await this.invoiceNFT.attestationNonces(tokenId);
+    const deadline = Math.floor(Date.now() / 1000) + this.signatureTtl;
+
+    return {
+      action,
+      tokenId: BigInt(tokenId),
+      amount: BigInt(amount),
+      nonce,
+      deadline: BigInt(deadline),
+    };
+  }
+
+  /**
+   * Sign an attestation with the local oracle key
+   */
+  async sign(attestation) {
+    return this.wallet.signTypedData(this.domain, ATTESTATION_TYPES, attestation);
+  }
+
+  /**
+   * Recover which oracle signed an attestation
+   */
+  recoverSigner(attestation, signature) {
+    return ethers.verifyTypedData(this.domain, ATTESTATION_TYPES, attestation, signature);
+  }
+
+  /**
+   * Collect signatures from this oracle and its peers until the threshold is met
+   * @returns {Promise<string[]>} Signatures ordered by ascending signer address
+   */
+  async collectSignatures(attestation, threshold) {
+    const oracleRole = await this.invoiceNFT.ORACLE_ROLE();
+    const signatures = new Map(); // signer => signature
+
+    signatures.set(this.wallet.address.toLowerCase(), await this.sign(attestation));
+
+    for (const peer of this.peers) {
+      if (signatures.size >= threshold) break;
+
+      try {
+        const response = await fetch(`${peer}/attest`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(serialize(attestation)),
+        });
+
+        if (!response.ok) {
+          logger.warn(`   ⚠️  Peer ${peer} declined: ${await response.text()}`);
+          continue;
+        }
+
+        const { signature } = await response.json();
+        const signer = this.recoverSigner(attestation, signature);
+
+        if (!(await this.invoiceNFT.hasRole(oracleRole, signer))) {
+          logger.warn(`   ⚠️  Peer ${peer} signer ${signer} is not an oracle`);
+          continue;
+        }
+
+        signatures.set(signer.toLowerCase(), signature);
+        logger.info(`   ✍️  Co-signed by ${signer}`);
+      } catch (error) {
+        logger.warn(`   ⚠️  Peer ${peer} unreachable: ${error.message}`);
+      }
+    }
+
+    if (signatures.size < threshold) {
+      throw new Error(`Only ${signatures.size}/${threshold} oracle signatures collected`);
+    }
+
+    return [...signatures.entries()]
+      .sort(([a], [b]) => (BigInt(a) < BigInt(b) ? -1 : 1))
+      .map(([, signature]) => signature);
+  }
+
+  /**
+   * Collect a quorum and execute the attestation on-chain
+   */
+  async execute(action, tokenId, amount, threshold) {
+    const attestation = await this.buildAttestation(action, tokenId, amount);
+    const signatures = await this.collectSignatures(attestation, threshold);
+
+    const tx = await this.invoiceNFT.executeAttestation(
+      attestation.action,
+      attestation.tokenId,
+      attestation.amount,
+      attestation.deadline,
+      signatures
+    );
+    await tx.wait();
+
+    return tx;
+  }
+}
+
+/**
+ * BigInt-safe JSON form of an attestation
+ */
+function serialize(attestation) {
+  return {
+    action: attestation.action,
+    tokenId: attestation.tokenId.toString(),
+    amount: attestation.amount.toString(),
+    nonce: attestation.nonce.toString(),
+    deadline: attestation.deadline.toString(),
+  };
+}
+
+/**
+ * Parse an attestation received from a peer
+ */
+function deserialize(body) {
+  return {
+    action: Number(body.action),
+    tokenId: BigInt(body.tokenId),
+    amount: BigInt(body.amount),
+    nonce: BigInt(body.nonce),
+    deadline: BigInt(body.deadline),
+  };
+}
+
+module.exports = { AttestationCoordinator, ACTIONS, ATTESTATION_TYPES, deserialize };
@@ -5,7 +5,9 @@
  * - Listens for new invoice mints
  * - Verifies invoices (mock verification for hackathon)
  * - Monitors payment statuses
- * - Records payments on-chain
+ * - Records payments on-chain (including recoveries after default)
+ * - Flags overdue invoices and defaults them once the grace period is over
+ * - Co-signs peer attestations when the contract requires an oracle quorum
  *
  * Architecture:
  * - Modular data source (mock for now, can swap to real APIs)
@@ -17,10 +19,12 @@
 require('dotenv').config({ path: require('path').join(__dirname, '../.env') });
 
 const ethers = require('ethers');
+const express = require('express');
 const fs = require('fs');
 const path = require('path');
 const logger = require('./logger');
 const MockDataSource = require('./dataSources/mockDataSource');
+const { AttestationCoordinator, ACTIONS, deserialize } = require('./attestations');
 
 // Load contract ABIs
 const InvoiceNFT_ABI = JSON.parse(
@@ -35,6 +39,9 @@ class OracleService {
     this.wallet = null;
     this.invoiceNFT = null;
     this.dataSource = null;
+    this.attestations = null;
+    this.oracleThreshold = 1;
+    this.server = null;
     this.isRunning = false;
     this.verificationInterval = 30000; // 30 seconds
     this.paymentCheckInterval = 60000;  // 60 seconds
@@ -82,6 +89,18 @@ class OracleService {
     this.dataSource = new MockDataSource();
     logger.info('📊 Using Mock Data Source (replaceable with real APIs)');
 
+    // Setup quorum attestations (peers are comma-separated base URLs)
+    const peers = (process.env.ORACLE_PEERS || '')
+      .split(',')
+      .map((peer) => peer.trim())
+      .filter(Boolean);
+
+    this.attestations = new AttestationCoordinator(this.invoiceNFT, this.wallet, peers);
+    await this.attestations.initialize();
+
+    this.oracleThreshold = Number(await this.invoiceNFT.oracleThreshold());
+    logger.info(`🗳️  Oracle threshold: ${this.oracleThreshold}`);
+
     logger.info('✅ Oracle Service initialized successfully\n');
   }
 
@@ -97,6 +116,9 @@ class OracleService {
     // Start event listeners
     this.listenForNewInvoices();
 
+    // Serve co-signing requests from peer oracles
+    this.startAttestationServer();
+
     // Start periodic tasks
     this.startPeriodicVerification();
     this.startPeriodicPaymentChecks();
@@ -122,6 +144,17 @@ class OracleService {
       // Queue for verification (will be picked up by periodic task)
       logger.info(`   ⏳ Queued for verification...\n`);
     });
+
+    this.invoiceNFT.on('InvoiceCancelled', (tokenId, issuer) => {
+      logger.info(`\n🗑️  Invoice #${tokenId} cancelled by issuer ${issuer}\n`);
+    });
+
+    this.invoiceNFT.on('InvoiceAmended', (tokenId, version, faceValue, maturityDate) => {
+      logger.info(`\n✏️  Invoice #${tokenId} amended (v${version})`);
+      logger.info(`   Face Value: ${ethers.formatUnits(faceValue, 6)} USDC`);
+      logger.info(`   Maturity: ${new Date(Number(maturityDate) * 1000).toISOString()}`);
+      logger.info(`   ⏳ Re-queued for verification...\n`);
+    });
   }
 
   /**
@@ -146,10 +179,17 @@ class OracleService {
       const total = Number(totalSupply[4]); // totalSupply is 5th return value
 
       for (let tokenId = 1; tokenId <= total; tokenId++) {
-        const invoice = await this.invoiceNFT.getInvoice(tokenId);
+        const invoice = await this.getInvoiceIfExists(tokenId);
+        if (!invoice) continue; // Cancelled by the issuer
+
+        // Status 0 = PENDING or 6 = ACKNOWLEDGED (debtor confirmed)
+        const status = Number(invoice.status);
+        if (status === 0 || status === 6) {
+          // Verification reserves debtor credit; new debtors wait for the admin to set a limit
+          if ((await this.invoiceNFT.getAvailableCredit(invoice.debtor)) < invoice.faceValue) {
+            continue;
+          }
 
-        // Status 0 = PENDING
-        if (Number(invoice.status) === 0) {
           logger.info(`\n🔍 Verifying invoice #${tokenId}...`);
 
           // Check with data source (mock)
@@ -164,8 +204,7 @@ class OracleService {
             logger.info(`   ✅ Invoice verified by data source`);
             logger.info(`   📝 Recording verification on-chain...`);
 
-            const tx = await this.invoiceNFT.verifyInvoice(tokenId);
-            await tx.wait();
+            const tx = await this.submit(ACTIONS.VERIFY, tokenId);
 
             logger.info(`   ✅ Verification recorded!`);
             logger.info(`   TX: ${tx.hash}\n`);
@@ -203,11 +242,12 @@ class OracleService {
       const total = Number(totalSupply[4]);
 
       for (let tokenId = 1; tokenId <= total; tokenId++) {
-        const invoice = await this.invoiceNFT.getInvoice(tokenId);
+        const invoice = await this.getInvoiceIfExists(tokenId);
+        if (!invoice) continue; // Cancelled by the issuer
 
-        // Status 2 = FUNDED or 5 = PARTIAL_PAID
+        // Status 2 = FUNDED, 5 = PARTIAL_PAID, 7 = OVERDUE or 4 = DEFAULTED (recoveries)
         const status = Number(invoice.status);
-        if (status === 2 || status === 5) {
+        if (status === 2 || status === 5 || status === 7 || status === 4) {
           // Check payment status with data source (mock)
           const paymentInfo = await this.dataSource.checkPaymentStatus({
             tokenId: tokenId.toString(),
@@ -220,24 +260,35 @@ class OracleService {
             logger.info(`   Amount: ${ethers.formatUnits(paymentInfo.amount, 6)} USDC`);
             logger.info(`   📝 Recording payment on-chain...`);
 
-            const tx = await this.invoiceNFT.recordPayment(tokenId, paymentInfo.amount);
-            await tx.wait();
+            const tx = await this.submit(ACTIONS.PAYMENT, tokenId, paymentInfo.amount);
 
             logger.info(`   ✅ Payment recorded!`);
             logger.info(`   TX: ${tx.hash}\n`);
           }
 
-          // Check if defaulted (past maturity without payment)
+          if (status === 4) continue;
+
+          // Past maturity without full payment: overdue, then defaulted after the grace period
           const now = Math.floor(Date.now() / 1000);
           const maturity = Number(invoice.maturityDate);
+          const gracePeriod = Number(await this.invoiceNFT.gracePeriod());
+          const unpaid = invoice.paidAmount < invoice.faceValue;
+
+          if (now > maturity && unpaid && status !== 7) {
+            logger.warn(`\n⏰ INVOICE OVERDUE: #${tokenId}`);
+
+            const tx = await this.invoiceNFT.markAsOverdue(tokenId);
+            await tx.wait();
 
-          if (now > maturity && Number(invoice.paidAmount) < Number(invoice.faceValue)) {
+            logger.warn(`   TX: ${tx.hash}\n`);
+          }
+
+          if (now > maturity + gracePeriod && unpaid) {
             logger.warn(`\n⚠️  INVOICE DEFAULTED: #${tokenId}`);
-            logger.warn(`   Maturity date passed without full payment`);
+            logger.warn(`   Grace period passed without full payment`);
             logger.warn(`   📝 Marking as defaulted...`);
 
-            const tx = await this.invoiceNFT.markAsDefaulted(tokenId);
-            await tx.wait();
+            const tx = await this.submit(ACTIONS.DEFAULT, tokenId);
 
             logger.warn(`   ❌ Marked as DEFAULTED`);
             logger.warn(`   TX: ${tx.hash}\n`);
@@ -251,8 +302,144 @@ class OracleService {
     }
   }
 
+  /**
+   * Read an invoice, or null if it was cancelled (burned)
+   */
+  async getInvoiceIfExists(tokenId) {
+    try {
+      return await this.invoiceNFT.getInvoice(tokenId);
+    } catch (error) {
+      if (error.message.includes('Invoice does not exist')) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Submit a state transition, collecting a quorum when one is required
+   */
+  async submit(action, tokenId, amount = 0) {
+    // Re-read in case the admin changed the threshold while running
+    this.oracleThreshold = Number(await this.invoiceNFT.oracleThreshold());
+
+    if (this.oracleThreshold > 1) {
+      logger.info(`   🗳️  Collecting ${this.oracleThreshold} oracle signatures...`);
+      return this.attestations.execute(action, tokenId, amount, this.oracleThreshold);
+    }
+
+    let tx;
+    if (action === ACTIONS.VERIFY) {
+      tx = await this.invoiceNFT.verifyInvoice(tokenId);
+    } else if (action === ACTIONS.PAYMENT) {
+      tx = await this.invoiceNFT.recordPayment(tokenId, amount);
+    } else if (action === ACTIONS.DEFAULT) {
+      tx = await this.invoiceNFT.markAsDefaulted(tokenId);
+    } else {
+      tx = await this.invoiceNFT.writeOffInvoice(tokenId);
+    }
+    await tx.wait();
+
+    return tx;
+  }
+
+  /**
+   * HTTP endpoint peers call to request this oracle's signature
+   */
+  startAttestationServer() {
+    const port = Number(process.env.ORACLE_PORT || 4001);
+    const app = express();
+    app.use(express.json());
+
+    app.post('/attest', async (req, res) => {
+      try {
+        const attestation = deserialize(req.body);
+        const reason = await this.checkAttestation(attestation);
+
+        if (reason) {
+          logger.warn(`   ❌ Declined attestation for invoice #${attestation.tokenId}: ${reason}`);
+          return res.status(409).send(reason);
+        }
+
+        const signature = await this.attestations.sign(attestation);
+        logger.info(`   ✍️  Co-signed action ${attestation.action} for invoice #${attestation.tokenId}`);
+        res.json({ signer: this.wallet.address, signature });
+      } catch (error) {
+        res.status(400).send(error.message);
+      }
+    });
+
+    this.server = app.listen(port, () => {
+      logger.info(`🤝 Attestation server listening on port ${port}`);
+    });
+  }
+
+  /**
+   * Independently check a peer's attestation against our own view
+   * @returns {Promise<string|null>} Reason to decline, or null to sign
+   */
+  async checkAttestation(attestation) {
+    const { action, tokenId, amount, nonce, deadline } = attestation;
+
+    if (deadline <= BigInt(Math.floor(Date.now() / 1000))) {
+      return 'Attestation expired';
+    }
+
+    if (nonce !== (await this.invoiceNFT.attestationNonces(tokenId))) {
+      return 'Stale nonce';
+    }
+
+    const invoice = await this.invoiceNFT.getInvoice(tokenId);
+    const status = Number(invoice.status);
+
+    if (action === ACTIONS.VERIFY) {
+      if (status !== 0 && status !== 6) return 'Invoice not awaiting verification';
+      if ((await this.invoiceNFT.getAvailableCredit(invoice.debtor)) < invoice.faceValue) {
+        return 'Debtor credit limit exceeded';
+      }
+
+      const isValid = await this.dataSource.verifyInvoice({
+        tokenId: tokenId.toString(),
+        faceValue: invoice.faceValue.toString(),
+        debtor: invoice.debtor,
+        invoiceHash: invoice.invoiceHash,
+      });
+      return isValid ? null : 'Invoice failed verification';
+    }
+
+    if (action === ACTIONS.WRITE_OFF) {
+      return status === 4 ? null : 'Invoice not defaulted';
+    }
+
+    if (status !== 2 && status !== 5 && status !== 7 && status !== 4) return 'Invoice not funded';
+
+    if (action === ACTIONS.PAYMENT) {
+      const paymentInfo = await this.dataSource.checkPaymentStatus({
+        tokenId: tokenId.toString(),
+        debtor: invoice.debtor,
+        faceValue: invoice.faceValue.toString(),
+      });
+      if (!paymentInfo.hasPaid || BigInt(paymentInfo.amount) !== amount) {
+        return 'Payment not observed';
+      }
+      return null;
+    }
+
+    if (action === ACTIONS.DEFAULT) {
+      const now = Math.floor(Date.now() / 1000);
+      const gracePeriod = Number(await this.invoiceNFT.gracePeriod());
+      if (status === 4) return 'Invoice already defaulted';
+      if (now <= Number(invoice.maturityDate) + gracePeriod) return 'Grace period not over';
+      if (invoice.paidAmount >= invoice.faceValue) return 'Invoice fully paid';
+      return null;
+    }
+
+    return 'Unknown action';
+  }
+
   stop() {
     this.isRunning = false;
+    if (this.server) {
+      this.server.close();
+    }
     logger.info('⏹️  Oracle Service stopped');
   }
 }
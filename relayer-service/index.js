@@ -0,0 +1,276 @@
+/**
+ * Relayer Service for Mantle RWA Invoice Factoring
+ *
+ * This service:
+ * - Accepts issuer-signed EIP-712 mint requests over HTTP
+ * - Checks the issuer holds ISSUER_ROLE and passes KYC before spending gas
+ * - Simulates, then submits InvoiceNFT.mintInvoiceWithSig from the relayer wallet
+ *
+ * Endpoints:
+ * - GET  /health              Relayer address and balance
+ * - GET  /nonce/:issuer       Next mint nonce for an issuer
+ * - POST /relay/mint          { request, signature }
+ */
+
+// Load environment variables FIRST
+require('dotenv').config({ path: require('path').join(__dirname, '../.env') });
+
+const ethers = require('ethers');
+const express = require('express');
+const fs = require('fs');
+const path = require('path');
+const logger = require('./logger');
+
+// Load contract ABIs
+const loadAbi = (name) =>
+  JSON.parse(
+    fs.readFileSync(path.join(__dirname, `../artifacts/contracts/${name}.sol/${name}.json`))
+  ).abi;
+
+const InvoiceNFT_ABI = loadAbi('InvoiceNFT');
+const KYCGate_ABI = loadAbi('KYCGate');
+
+const MINT_REQUEST_TYPES = {
+  MintRequest: [
+    { name: 'faceValue', type: 'uint256' },
+    { name: 'maturityDate', type: 'uint256' },
+    { name: 'debtor', type: 'address' },
+    { name: 'invoiceHash', type: 'bytes32' },
+    { name: 'debtorName', type: 'string' },
+    { name: 'discountRate', type: 'uint256' },
+    { name: 'issuer', type: 'address' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+};
+
+class RelayerService {
+  constructor() {
+    this.provider = null;
+    this.wallet = null;
+    this.invoiceNFT = null;
+    this.kycGate = null;
+    this.domain = null;
+    this.server = null;
+    this.port = Number(process.env.RELAYER_PORT || 4100);
+  }
+
+  async initialize() {
+    logger.info('🚀 Initializing Relayer Service...');
+
+    // Load deployment addresses
+    const deploymentsDir = path.join(__dirname, '../deployments');
+    const files = fs.readdirSync(deploymentsDir);
+
+    if (files.length === 0) {
+      throw new Error('No deployment files found. Deploy contracts first.');
+    }
+
+    const latestDeployment = files.sort().reverse()[0];
+    const deploymentPath = path.join(deploymentsDir, latestDeployment);
+    const addresses = JSON.parse(fs.readFileSync(deploymentPath, 'utf-8'));
+
+    logger.info(`📋 Loaded deployment: ${latestDeployment}`);
+
+    // Setup provider and wallet
+    const rpcUrl = process.env.MANTLE_RPC_URL || 'https://rpc.testnet.mantle.xyz';
+    this.provider = new ethers.JsonRpcProvider(rpcUrl);
+
+    const privateKey = process.env.RELAYER_PRIVATE_KEY || process.env.PRIVATE_KEY;
+    if (!privateKey) {
+      throw new Error('RELAYER_PRIVATE_KEY or PRIVATE_KEY not found in .env');
+    }
+
+    this.wallet = new ethers.Wallet(privateKey, this.provider);
+    logger.info(`🔑 Relayer wallet: ${this.wallet.address}`);
+
+    // Connect to contracts
+    this.invoiceNFT = new ethers.Contract(addresses.invoiceNFT, InvoiceNFT_ABI, this.wallet);
+    this.kycGate = new ethers.Contract(addresses.kycGate, KYCGate_ABI, this.provider);
+
+    const network = await this.provider.getNetwork();
+    this.domain = {
+      name: 'InvoiceNFT',
+      version: '1',
+      chainId: network.chainId,
+      verifyingContract: addresses.invoiceNFT,
+    };
+
+    logger.info(`📝 Connected to InvoiceNFT: ${addresses.invoiceNFT}`);
+    logger.info('✅ Relayer Service initialized successfully\n');
+  }
+
+  start() {
+    const app = express();
+    app.use(express.json());
+
+    // Allow the frontend (different origin) to call the relayer
+    app.use((req, res, next) => {
+      res.header('Access-Control-Allow-Origin', process.env.RELAYER_ALLOWED_ORIGIN || '*');
+      res.header('Access-Control-Allow-Headers', 'Content-Type');
+      if (req.method === 'OPTIONS') return res.sendStatus(204);
+      next();
+    });
+
+    app.get('/health', async (req, res) => {
+      const balance = await this.provider.getBalance(this.wallet.address);
+      res.json({ relayer: this.wallet.address, balance: ethers.formatEther(balance) });
+    });
+
+    app.get('/nonce/:issuer', async (req, res) => {
+      try {
+        const nonce = await this.invoiceNFT.mintNonces(req.params.issuer);
+        res.json({ nonce: nonce.toString() });
+      } catch (error) {
+        res.status(400).json({ error: error.message });
+      }
+    });
+
+    app.post('/relay/mint', async (req, res) => {
+      try {
+        const { request, signature } = req.body;
+        const mintRequest = parseMintRequest(request);
+
+        const reason = await this.checkMintRequest(mintRequest, signature);
+        if (reason) {
+          logger.warn(`❌ Rejected mint request from ${mintRequest.issuer}: ${reason}`);
+          return res.status(400).json({ error: reason });
+        }
+
+        const result = await this.relayMint(mintRequest, signature);
+        res.json(result);
+      } catch (error) {
+        logger.error(`Error relaying mint: ${error.shortMessage || error.message}`);
+        res.status(500).json({ error: error.shortMessage || error.message });
+      }
+    });
+
+    this.server = app.listen(this.port, () => {
+      logger.info(`✅ Relayer Service listening on port ${this.port}\n`);
+    });
+  }
+
+  /**
+   * Off-chain checks before spending gas
+   * @returns {Promise<string|null>} Reason to reject, or null if the request can be relayed
+   */
+  async checkMintRequest(mintRequest, signature) {
+    if (mintRequest.deadline <= BigInt(Math.floor(Date.now() / 1000))) {
+      return 'Mint request expired';
+    }
+
+    const signer = ethers.verifyTypedData(this.domain, MINT_REQUEST_TYPES, mintRequest, signature);
+    if (signer.toLowerCase() !== mintRequest.issuer.toLowerCase()) {
+      return 'Invalid issuer signature';
+    }
+
+    const issuerRole = await this.invoiceNFT.ISSUER_ROLE();
+    if (!(await this.invoiceNFT.hasRole(issuerRole, mintRequest.issuer))) {
+      return 'Signer is not an issuer';
+    }
+
+    if (!(await this.kycGate.isVerified(mintRequest.issuer))) {
+      return 'Issuer is not KYC verified';
+    }
+
+    if (mintRequest.nonce !== (await this.invoiceNFT.mintNonces(mintRequest.issuer))) {
+      return 'Invalid mint nonce';
+    }
+
+    return null;
+  }
+
+  /**
+   * Simulate then submit the mint from the relayer wallet
+   */
+  async relayMint(mintRequest, signature) {
+    logger.info(`\n⛽ RELAYING MINT for ${mintRequest.issuer}`);
+    logger.info(`   Face Value: ${ethers.formatUnits(mintRequest.faceValue, 6)} USDC`);
+    logger.info(`   Nonce: ${mintRequest.nonce}`);
+
+    // Surface contract reverts (debtor credit, duplicate hash...) without paying gas
+    await this.invoiceNFT.mintInvoiceWithSig.staticCall(mintRequest, signature);
+
+    const tx = await this.invoiceNFT.mintInvoiceWithSig(mintRequest, signature);
+    const receipt = await tx.wait();
+
+    const minted = receipt.logs
+      .map((log) => {
+        try {
+          return this.invoiceNFT.interface.parseLog(log);
+        } catch {
+          return null;
+        }
+      })
+      .find((event) => event && event.name === 'InvoiceMinted');
+
+    const tokenId = minted ? minted.args.tokenId.toString() : null;
+
+    logger.info(`   ✅ Minted invoice #${tokenId}`);
+    logger.info(`   TX: ${tx.hash}\n`);
+
+    return { txHash: tx.hash, tokenId };
+  }
+
+  stop() {
+    if (this.server) {
+      this.server.close();
+    }
+    logger.info('⏹️  Relayer Service stopped');
+  }
+}
+
+/**
+ * Parse a JSON mint request (numbers may arrive as strings)
+ */
+function parseMintRequest(request) {
+  if (!request) {
+    throw new Error('Missing mint request');
+  }
+
+  return {
+    faceValue: BigInt(request.faceValue),
+    maturityDate: BigInt(request.maturityDate),
+    debtor: ethers.getAddress(request.debtor),
+    invoiceHash: request.invoiceHash,
+    debtorName: String(request.debtorName),
+    discountRate: BigInt(request.discountRate),
+    issuer: ethers.getAddress(request.issuer),
+    nonce: BigInt(request.nonce),
+    deadline: BigInt(request.deadline),
+  };
+}
+
+// Main execution
+async function main() {
+  const relayer = new RelayerService();
+
+  try {
+    await relayer.initialize();
+    relayer.start();
+
+    // Graceful shutdown
+    process.on('SIGINT', () => {
+      logger.info('\n\n🛑 Shutting down Relayer Service...');
+      relayer.stop();
+      process.exit(0);
+    });
+
+    process.on('SIGTERM', () => {
+      logger.info('\n\n🛑 Shutting down Relayer Service...');
+      relayer.stop();
+      process.exit(0);
+    });
+
+  } catch (error) {
+    logger.error('❌ Failed to start Relayer Service:', error);
+    process.exit(1);
+  }
+}
+
+// Run if executed directly
+if (require.main === module) {
+  main();
+}
+
+module.exports = RelayerService;
@@ -7,22 +7,38 @@ import * as path from "path";
  *
  * Deploys all contracts in the correct order:
  * 1. MockUSDC (test stablecoin)
- * 2. InvoiceNFT
+ * 2. InvoiceMetadata + InvoiceFractions + InvoiceCollections + DebtorRegistry (libraries) + InvoiceNFT
  * 3. KYCGate
  * 4. Groth16Verifier (ZK verifier)
  * 5. ZKKYCVerifier
- * 6. TrancheVault (Senior)
+ * 6. RedemptionQueue + VaultFees + InvoicePortfolio + RateCurve + StrategyAllocator (libraries) + TrancheVault (Senior)
  * 7. TrancheVault (Junior)
+ * 8. TranchePool (senior/junior waterfall)
+ * 9. RecourseEscrow (issuer recourse collateral)
+ * 10. MockYieldStrategy per vault (idle cash yield)
  */
 
 interface DeploymentAddresses {
   mockUSDC: string;
+  invoiceMetadata: string;
+  invoiceFractions: string;
+  invoiceCollections: string;
+  debtorRegistry: string;
   invoiceNFT: string;
   kycGate: string;
   groth16Verifier: string;
   zkKYCVerifier: string;
+  redemptionQueue: string;
+  vaultFees: string;
+  invoicePortfolio: string;
+  rateCurve: string;
+  strategyAllocator: string;
   seniorVault: string;
   juniorVault: string;
+  tranchePool: string;
+  recourseEscrow: string;
+  seniorStrategy: string;
+  juniorStrategy: string;
   deployer: string;
   network: string;
   timestamp: string;
@@ -48,7 +64,7 @@ async function main() {
   // ============================================
   // 1. Deploy MockUSDC
   // ============================================
-  console.log("📦 [1/7] Deploying MockUSDC...");
+  console.log("📦 [1/10] Deploying MockUSDC...");
   const MockUSDC = await ethers.getContractFactory("MockUSDC");
   const mockUSDC = await MockUSDC.deploy();
   await mockUSDC.waitForDeployment();
@@ -59,8 +75,39 @@ async function main() {
   // ============================================
   // 2. Deploy InvoiceNFT
   // ============================================
-  console.log("📦 [2/7] Deploying InvoiceNFT...");
-  const InvoiceNFT = await ethers.getContractFactory("InvoiceNFT");
+  console.log("📦 [2/10] Deploying InvoiceNFT...");
+  const InvoiceMetadata = await ethers.getContractFactory("InvoiceMetadata");
+  const invoiceMetadata = await InvoiceMetadata.deploy();
+  await invoiceMetadata.waitForDeployment();
+  addresses.invoiceMetadata = await invoiceMetadata.getAddress();
+  console.log("  ✅ InvoiceMetadata library deployed to:", addresses.invoiceMetadata);
+
+  const InvoiceFractions = await ethers.getContractFactory("InvoiceFractions");
+  const invoiceFractions = await InvoiceFractions.deploy();
+  await invoiceFractions.waitForDeployment();
+  addresses.invoiceFractions = await invoiceFractions.getAddress();
+  console.log("  ✅ InvoiceFractions library deployed to:", addresses.invoiceFractions);
+
+  const InvoiceCollections = await ethers.getContractFactory("InvoiceCollections");
+  const invoiceCollections = await InvoiceCollections.deploy();
+  await invoiceCollections.waitForDeployment();
+  addresses.invoiceCollections = await invoiceCollections.getAddress();
+  console.log("  ✅ InvoiceCollections library deployed to:", addresses.invoiceCollections);
+
+  const DebtorRegistry = await ethers.getContractFactory("DebtorRegistry");
+  const debtorRegistry = await DebtorRegistry.deploy();
+  await debtorRegistry.waitForDeployment();
+  addresses.debtorRegistry = await debtorRegistry.getAddress();
+  console.log("  ✅ DebtorRegistry library deployed to:", addresses.debtorRegistry);
+
+  const InvoiceNFT = await ethers.getContractFactory("InvoiceNFT", {
+    libraries: {
+      InvoiceMetadata: addresses.invoiceMetadata,
+      InvoiceFractions: addresses.invoiceFractions,
+      InvoiceCollections: addresses.invoiceCollections,
+      DebtorRegistry: addresses.debtorRegistry,
+    },
+  });
   const invoiceNFT = await InvoiceNFT.deploy();
   await invoiceNFT.waitForDeployment();
   addresses.invoiceNFT = await invoiceNFT.getAddress();
@@ -70,7 +117,7 @@ async function main() {
   // ============================================
   // 3. Deploy KYCGate
   // ============================================
-  console.log("📦 [3/7] Deploying KYCGate...");
+  console.log("📦 [3/10] Deploying KYCGate...");
   const KYCGate = await ethers.getContractFactory("KYCGate");
   const kycGate = await KYCGate.deploy();
   await kycGate.waitForDeployment();
@@ -81,7 +128,7 @@ async function main() {
   // ============================================
   // 4. Deploy Groth16Verifier (ZK Verifier)
   // ============================================
-  console.log("📦 [4/7] Deploying Groth16Verifier...");
+  console.log("📦 [4/10] Deploying Groth16Verifier...");
   const Groth16Verifier = await ethers.getContractFactory("Groth16Verifier");
   const groth16Verifier = await Groth16Verifier.deploy();
   await groth16Verifier.waitForDeployment();
@@ -92,7 +139,7 @@ async function main() {
   // ============================================
   // 5. Deploy ZKKYCVerifier
   // ============================================
-  console.log("📦 [5/7] Deploying ZKKYCVerifier...");
+  console.log("📦 [5/10] Deploying ZKKYCVerifier...");
   const ZKKYCVerifier = await ethers.getContractFactory("ZKKYCVerifier");
   const zkKYCVerifier = await ZKKYCVerifier.deploy(addresses.groth16Verifier);
   await zkKYCVerifier.waitForDeployment();
@@ -103,8 +150,46 @@ async function main() {
   // ============================================
   // 6. Deploy Senior Tranche Vault
   // ============================================
-  console.log("📦 [6/7] Deploying Senior Tranche Vault...");
-  const TrancheVault = await ethers.getContractFactory("TrancheVault");
+  console.log("📦 [6/10] Deploying Senior Tranche Vault...");
+  const RedemptionQueue = await ethers.getContractFactory("RedemptionQueue");
+  const redemptionQueue = await RedemptionQueue.deploy();
+  await redemptionQueue.waitForDeployment();
+  addresses.redemptionQueue = await redemptionQueue.getAddress();
+  console.log("  ✅ RedemptionQueue library deployed to:", addresses.redemptionQueue);
+
+  const VaultFees = await ethers.getContractFactory("VaultFees");
+  const vaultFees = await VaultFees.deploy();
+  await vaultFees.waitForDeployment();
+  addresses.vaultFees = await vaultFees.getAddress();
+  console.log("  ✅ VaultFees library deployed to:", addresses.vaultFees);
+
+  const InvoicePortfolio = await ethers.getContractFactory("InvoicePortfolio");
+  const invoicePortfolio = await InvoicePortfolio.deploy();
+  await invoicePortfolio.waitForDeployment();
+  addresses.invoicePortfolio = await invoicePortfolio.getAddress();
+  console.log("  ✅ InvoicePortfolio library deployed to:", addresses.invoicePortfolio);
+
+  const RateCurve = await ethers.getContractFactory("RateCurve");
+  const rateCurve = await RateCurve.deploy();
+  await rateCurve.waitForDeployment();
+  addresses.rateCurve = await rateCurve.getAddress();
+  console.log("  ✅ RateCurve library deployed to:", addresses.rateCurve);
+
+  const StrategyAllocator = await ethers.getContractFactory("StrategyAllocator");
+  const strategyAllocator = await StrategyAllocator.deploy();
+  await strategyAllocator.waitForDeployment();
+  addresses.strategyAllocator = await strategyAllocator.getAddress();
+  console.log("  ✅ StrategyAllocator library deployed to:", addresses.strategyAllocator);
+
+  const TrancheVault = await ethers.getContractFactory("TrancheVault", {
+    libraries: {
+      RedemptionQueue: addresses.redemptionQueue,
+      VaultFees: addresses.vaultFees,
+      InvoicePortfolio: addresses.invoicePortfolio,
+      RateCurve: addresses.rateCurve,
+      StrategyAllocator: addresses.strategyAllocator,
+    },
+  });
   const seniorVault = await TrancheVault.deploy(
     addresses.invoiceNFT,
     addresses.kycGate,
@@ -117,13 +202,18 @@ async function main() {
   await seniorVault.waitForDeployment();
   addresses.seniorVault = await seniorVault.getAddress();
   console.log("  ✅ Senior Vault deployed to:", addresses.seniorVault);
-  console.log("     Target APY: 8%");
+
+  // 4% at 0% utilization, 8% at the 80% kink, 28% fully utilized
+  await (await seniorVault.updateRateCurve(400, 400, 8000, 2000)).wait();
+  await (await seniorVault.updateIdleCashBuffer(500)).wait();
+  console.log("     Target APY: 4-8% up to 80% utilization, up to 28% above");
+  console.log("     Idle cash buffer: 5% of NAV");
   console.log("");
 
   // ============================================
   // 7. Deploy Junior Tranche Vault
   // ============================================
-  console.log("📦 [7/7] Deploying Junior Tranche Vault...");
+  console.log("📦 [7/10] Deploying Junior Tranche Vault...");
   const juniorVault = await TrancheVault.deploy(
     addresses.invoiceNFT,
     addresses.kycGate,
@@ -136,7 +226,53 @@ async function main() {
   await juniorVault.waitForDeployment();
   addresses.juniorVault = await juniorVault.getAddress();
   console.log("  ✅ Junior Vault deployed to:", addresses.juniorVault);
-  console.log("     Target APY: 20%");
+
+  // 12% at 0% utilization, 20% at the 80% kink, 60% fully utilized
+  await (await juniorVault.updateRateCurve(1200, 800, 8000, 4000)).wait();
+  await (await juniorVault.updateIdleCashBuffer(500)).wait();
+  console.log("     Target APY: 12-20% up to 80% utilization, up to 60% above");
+  console.log("     Idle cash buffer: 5% of NAV");
+  console.log("");
+
+  // ============================================
+  // 8. Deploy Tranche Pool (waterfall)
+  // ============================================
+  console.log("📦 [8/10] Deploying Tranche Pool...");
+  const TranchePool = await ethers.getContractFactory("TranchePool");
+  const tranchePool = await TranchePool.deploy(addresses.seniorVault, addresses.juniorVault);
+  await tranchePool.waitForDeployment();
+  addresses.tranchePool = await tranchePool.getAddress();
+  console.log("  ✅ Tranche Pool deployed to:", addresses.tranchePool);
+  console.log("     Junior absorbs losses first, senior paid target APY first");
+  console.log("");
+
+  // ============================================
+  // 9. Deploy Recourse Escrow (issuer collateral)
+  // ============================================
+  console.log("📦 [9/10] Deploying Recourse Escrow...");
+  const RecourseEscrow = await ethers.getContractFactory("RecourseEscrow");
+  const recourseEscrow = await RecourseEscrow.deploy(addresses.invoiceNFT);
+  await recourseEscrow.waitForDeployment();
+  addresses.recourseEscrow = await recourseEscrow.getAddress();
+  console.log("  ✅ Recourse Escrow deployed to:", addresses.recourseEscrow);
+  console.log("     Issuer buyback window: 14 days after default");
+  console.log("");
+
+  // ============================================
+  // 10. Deploy idle cash strategies
+  // ============================================
+  console.log("📦 [10/10] Deploying Mock Yield Strategies...");
+  const MockYieldStrategy = await ethers.getContractFactory("MockYieldStrategy");
+  const seniorStrategy = await MockYieldStrategy.deploy(addresses.seniorVault, 400); // 4% APY
+  await seniorStrategy.waitForDeployment();
+  addresses.seniorStrategy = await seniorStrategy.getAddress();
+  console.log("  ✅ Senior Strategy deployed to:", addresses.seniorStrategy);
+
+  const juniorStrategy = await MockYieldStrategy.deploy(addresses.juniorVault, 400); // 4% APY
+  await juniorStrategy.waitForDeployment();
+  addresses.juniorStrategy = await juniorStrategy.getAddress();
+  console.log("  ✅ Junior Strategy deployed to:", addresses.juniorStrategy);
+  console.log("     Idle cash earns 4% APY from a pre-funded yield reserve");
   console.log("");
 
   // ============================================
@@ -157,6 +293,41 @@ async function main() {
   console.log("  🔑 Granting VAULT_ROLE to Junior Vault...");
   await invoiceNFT.grantRole(await invoiceNFT.VAULT_ROLE(), addresses.juniorVault);
 
+  console.log("  🔑 Granting RECOURSE_ROLE to Recourse Escrow...");
+  await invoiceNFT.grantRole(await invoiceNFT.RECOURSE_ROLE(), addresses.recourseEscrow);
+
+  console.log("  💵 Setting MockUSDC as invoice payment token...");
+  await invoiceNFT.setPaymentToken(addresses.mockUSDC);
+
+  // Link vaults into the waterfall
+  console.log("  🔗 Linking Senior Vault to Tranche Pool...");
+  await seniorVault.setTranchePool(addresses.tranchePool);
+
+  console.log("  🔗 Linking Junior Vault to Tranche Pool...");
+  await juniorVault.setTranchePool(addresses.tranchePool);
+
+  // Idle cash goes to the mock strategies, which pay yield out of a minted reserve
+  console.log("  💵 Funding strategy yield reserves...");
+  await mockUSDC.mint(addresses.seniorStrategy, ethers.parseUnits("10000", 6));
+  await mockUSDC.mint(addresses.juniorStrategy, ethers.parseUnits("10000", 6));
+
+  console.log("  🔗 Setting Senior Vault idle cash strategy...");
+  await seniorVault.setStrategy(addresses.seniorStrategy);
+
+  console.log("  🔗 Setting Junior Vault idle cash strategy...");
+  await juniorVault.setStrategy(addresses.juniorStrategy);
+
+  // ZK-KYC proofs are accepted as an alternative to KYC records
+  console.log("  🔐 Linking ZKKYCVerifier to KYCGate...");
+  await kycGate.setZKKYCVerifier(addresses.zkKYCVerifier);
+
+  console.log("  🛂 Accepting ZK-KYC proofs (as tier 1) in Senior Vault...");
+  await seniorVault.updateEligibilityPolicy(0, false, 0, 1);
+
+  // Junior tranche is first-loss: tier 2+ (sophisticated) investors only
+  console.log("  🛂 Restricting Junior Vault to KYC tier 2+...");
+  await juniorVault.updateEligibilityPolicy(2, true, 0, 0);
+
   // Grant roles in KYCGate
   console.log("  🔑 Granting KYC_PROVIDER_ROLE to deployer...");
   await kycGate.grantRole(await kycGate.KYC_PROVIDER_ROLE(), deployer.address);
@@ -190,16 +361,33 @@ async function main() {
   console.log("");
   console.log("📋 Contract Addresses:");
   console.log("  MockUSDC:          ", addresses.mockUSDC);
+  console.log("  InvoiceMetadata:   ", addresses.invoiceMetadata);
+  console.log("  InvoiceFractions:  ", addresses.invoiceFractions);
+  console.log("  InvoiceCollections:", addresses.invoiceCollections);
+  console.log("  DebtorRegistry:    ", addresses.debtorRegistry);
   console.log("  InvoiceNFT:        ", addresses.invoiceNFT);
   console.log("  KYCGate:           ", addresses.kycGate);
   console.log("  Groth16Verifier:   ", addresses.groth16Verifier);
   console.log("  ZKKYCVerifier:     ", addresses.zkKYCVerifier);
+  console.log("  RedemptionQueue:   ", addresses.redemptionQueue);
+  console.log("  VaultFees:         ", addresses.vaultFees);
+  console.log("  InvoicePortfolio:  ", addresses.invoicePortfolio);
+  console.log("  RateCurve:         ", addresses.rateCurve);
+  console.log("  StrategyAllocator: ", addresses.strategyAllocator);
   console.log("  Senior Vault:      ", addresses.seniorVault, "(8% APY)");
   console.log("  Junior Vault:      ", addresses.juniorVault, "(20% APY)");
+  console.log("  Tranche Pool:      ", addresses.tranchePool);
+  console.log("  Recourse Escrow:   ", addresses.recourseEscrow);
+  console.log("  Senior Strategy:   ", addresses.seniorStrategy);
+  console.log("  Junior Strategy:   ", addresses.juniorStrategy);
   console.log("");
   console.log("🔑 Roles Granted:");
   console.log("  Deployer has ISSUER_ROLE and ORACLE_ROLE");
   console.log("  Vaults have VAULT_ROLE for invoice management");
+  console.log("  Vaults linked to Tranche Pool for loss/yield waterfall");
+  console.log("  Vaults put idle cash in Mock Yield Strategies (rebalanceStrategy)");
+  console.log("  Senior Vault accepts ZK-KYC proofs as an alternative to KYC records");
+  console.log("  Junior Vault restricted to KYC tier 2+ (high-risk countries excluded)");
   console.log("");
   console.log("💰 Test Funds:");
   console.log("  Deployer has 1,000,000 USDC for testing");
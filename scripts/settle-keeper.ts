@@ -0,0 +1,138 @@
+import { ethers } from "hardhat";
+import { LogDescription } from "ethers";
+import * as fs from "fs";
+import * as path from "path";
+import { InvoiceNFT, TrancheVault } from "../typechain-types";
+
+/**
+ * Settlement Keeper
+ *
+ * Finds invoices that are PAID, DEFAULTED or WRITTEN_OFF in InvoiceNFT but still
+ * active in a TrancheVault, and calls the vault's permissionless settle() for each.
+ * Runs one pass by default; set KEEPER_INTERVAL (seconds) to keep polling.
+ *
+ * Usage:
+ *   npm run keeper:settle -- --network mantleTestnet
+ *   KEEPER_INTERVAL=300 npm run keeper:settle -- --network mantleTestnet
+ */
+
+const PAGE_SIZE = 50;
+
+// InvoiceNFT.InvoiceStatus values the vault can settle
+const SETTLEABLE_STATUSES = new Map<bigint, string>([
+  [3n, "PAID"],
+  [4n, "DEFAULTED"],
+  [8n, "WRITTEN_OFF"],
+]);
+
+async function findSettleable(vault: TrancheVault, invoiceNFT: InvoiceNFT): Promise<bigint[]> {
+  const settleable: bigint[] = [];
+  let offset = 0;
+  let total = 1;
+
+  while (offset < total) {
+    const page = await vault.getActiveInvoiceIds(offset, PAGE_SIZE);
+    total = Number(page.total);
+
+    for (const invoiceId of page.ids) {
+      const status = await invoiceNFT.getInvoiceStatus(invoiceId);
+      if (SETTLEABLE_STATUSES.has(status)) {
+        console.log(`   Invoice #${invoiceId} is ${SETTLEABLE_STATUSES.get(status)}`);
+        settleable.push(invoiceId);
+      }
+    }
+
+    offset += PAGE_SIZE;
+  }
+
+  return settleable;
+}
+
+async function settleVault(name: string, vault: TrancheVault, invoiceNFT: InvoiceNFT): Promise<number> {
+  console.log(`🔎 Scanning ${name}...`);
+
+  // Collect first: settling reorders the vault's active invoice list
+  const invoiceIds = await findSettleable(vault, invoiceNFT);
+  if (invoiceIds.length === 0) {
+    console.log("   Nothing to settle");
+    return 0;
+  }
+
+  let settled = 0;
+  for (const invoiceId of invoiceIds) {
+    try {
+      // Simulate first so a race with another keeper does not cost gas
+      await vault.settle.staticCall(invoiceId);
+      const tx = await vault.settle(invoiceId);
+      const receipt = await tx.wait();
+
+      const event = receipt?.logs
+        .map((log): LogDescription | null => {
+          try {
+            return vault.interface.parseLog(log);
+          } catch {
+            return null;
+          }
+        })
+        .find((parsed) => parsed?.name === "InvoiceSettled");
+
+      if (event) {
+        console.log(
+          `   ✅ Settled #${invoiceId}:`,
+          ethers.formatUnits(event.args.yieldEarned, 6), "USDC yield,",
+          ethers.formatUnits(event.args.loss, 6), "USDC loss"
+        );
+      } else {
+        console.log(`   ✅ Settled #${invoiceId}`);
+      }
+      console.log("      TX:", receipt?.hash);
+      settled++;
+    } catch (error: any) {
+      console.log(`   ⚠️  Could not settle #${invoiceId}:`, error.shortMessage || error.message);
+    }
+  }
+
+  return settled;
+}
+
+async function main() {
+  const [keeper] = await ethers.getSigners();
+  const network = await ethers.provider.getNetwork();
+
+  console.log("🤖 Settlement keeper starting...");
+  console.log("   Keeper:", keeper.address);
+  console.log("   Network:", network.name, `(Chain ID: ${network.chainId})`);
+  console.log("");
+
+  // Load deployment addresses
+  const deploymentPath = path.join(__dirname, `../deployments/deployment-${network.chainId}.json`);
+  const addresses = JSON.parse(fs.readFileSync(deploymentPath, "utf-8"));
+
+  const invoiceNFT = await ethers.getContractAt("InvoiceNFT", addresses.invoiceNFT, keeper);
+  const vaults: [string, TrancheVault][] = [
+    ["Senior Vault", await ethers.getContractAt("TrancheVault", addresses.seniorVault, keeper)],
+    ["Junior Vault", await ethers.getContractAt("TrancheVault", addresses.juniorVault, keeper)],
+  ];
+
+  const interval = Number(process.env.KEEPER_INTERVAL || 0);
+
+  do {
+    let settled = 0;
+    for (const [name, vault] of vaults) {
+      settled += await settleVault(name, vault, invoiceNFT);
+    }
+    console.log(`\n✅ Pass complete: ${settled} invoice(s) settled\n`);
+
+    if (interval > 0) {
+      await new Promise((resolve) => setTimeout(resolve, interval * 1000));
+    }
+  } while (interval > 0);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Keeper failed:");
+    console.error(error);
+    process.exit(1);
+  });
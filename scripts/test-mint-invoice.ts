@@ -8,8 +8,10 @@ import * as path from "path";
  * This tests the complete invoice minting flow:
  * 1. Grant ISSUER_ROLE to business
  * 2. KYC verify the business
- * 3. Mint an invoice NFT
- * 4. Verify invoice was created correctly
+ * 3. Register the debtor with a credit limit
+ * 4. Mint an invoice NFT
+ * 5. Verify invoice was created correctly
+ * 6. Approve the vaults to take custody when they fund it
  */
 
 async function main() {
@@ -64,11 +66,29 @@ async function main() {
   }
   console.log("");
 
-  // Step 3: Mint invoice
+  // Step 3: Register the debtor
+  console.log("🏢 Checking debtor registry...");
+  const debtorAddress = "0x" + "1".repeat(40); // Mock debtor
+  const debtorId = await invoiceNFT.debtorIds(debtorAddress);
+
+  if (debtorId === 0n) {
+    const tx = await invoiceNFT.registerDebtor(
+      debtorAddress,
+      "Walmart Inc",
+      ethers.parseUnits("1000000", 6) // $1M credit limit
+    );
+    await tx.wait();
+    console.log("   ✅ Debtor registered with $1,000,000 credit limit");
+  } else {
+    console.log("   ✅ Debtor already registered (ID", debtorId.toString() + ")");
+  }
+  console.log("   Available credit:", ethers.formatUnits(await invoiceNFT.getAvailableCredit(debtorAddress), 6), "USDC");
+  console.log("");
+
+  // Step 4: Mint invoice
   console.log("📄 Minting test invoice...");
   const faceValue = ethers.parseUnits("100000", 6); // $100,000 USDC
   const maturityDate = Math.floor(Date.now() / 1000) + 90 * 24 * 60 * 60; // 90 days
-  const debtorAddress = "0x" + "1".repeat(40); // Mock debtor
   const invoiceHash = ethers.keccak256(
     ethers.toUtf8Bytes(`invoice-${Date.now()}`)
   );
@@ -105,7 +125,7 @@ async function main() {
     return;
   }
 
-  // Step 4: Verify invoice details
+  // Step 5: Verify invoice details
   console.log("📋 Invoice Details:");
   const invoice = await invoiceNFT.getInvoice(tokenId);
 
@@ -119,6 +139,17 @@ async function main() {
   console.log("   Owner:", invoice.issuer);
   console.log("");
 
+  // Step 6: Let the vaults take custody when they fund the invoice
+  console.log("🔐 Approving vaults to purchase invoices...");
+  for (const vault of [addresses.seniorVault, addresses.juniorVault]) {
+    if (!(await invoiceNFT.isApprovedForAll(signer.address, vault))) {
+      const approveTx = await invoiceNFT.setApprovalForAll(vault, true);
+      await approveTx.wait();
+    }
+  }
+  console.log("   ✅ Vaults approved (they pay the discounted value and escrow the NFT)");
+  console.log("");
+
   // View on explorer
   console.log("🔍 View on Mantle Sepolia Explorer:");
   console.log(`   https://sepolia.mantlescan.xyz/token/${addresses.invoiceNFT}?a=${tokenId}`);
@@ -132,7 +132,7 @@ async function main() {
   console.log(`   Junior Vault: https://sepolia.mantlescan.xyz/address/${addresses.juniorVault}`);
   console.log("");
   console.log("💡 Next Steps:");
-  console.log("   1. Vault owner adds verified invoices to vaults");
+  console.log("   1. Vault owner buys verified invoices (pays issuer, escrows NFT)");
   console.log("   2. Oracle monitors payments");
   console.log("   3. Yield gets distributed to vault shares");
   console.log("   4. Investors redeem shares + yield");
@@ -26,7 +26,7 @@ async function main() {
   console.log("");
 
   // Verify MockUSDC
-  console.log("🔍 [1/7] Verifying MockUSDC...");
+  console.log("🔍 [1/10] Verifying MockUSDC...");
   try {
     await run("verify:verify", {
       address: addresses.mockUSDC,
@@ -37,12 +37,66 @@ async function main() {
     console.log("  ℹ️ ", error.message, "\n");
   }
 
+  // Verify InvoiceMetadata library (linked into InvoiceNFT)
+  console.log("🔍 [2/10] Verifying InvoiceMetadata library...");
+  try {
+    await run("verify:verify", {
+      address: addresses.invoiceMetadata,
+      constructorArguments: [],
+    });
+    console.log("  ✅ Verified\n");
+  } catch (error: any) {
+    console.log("  ℹ️ ", error.message, "\n");
+  }
+
+  // Verify InvoiceFractions library (linked into InvoiceNFT)
+  console.log("🔍 [2/10] Verifying InvoiceFractions library...");
+  try {
+    await run("verify:verify", {
+      address: addresses.invoiceFractions,
+      constructorArguments: [],
+    });
+    console.log("  ✅ Verified\n");
+  } catch (error: any) {
+    console.log("  ℹ️ ", error.message, "\n");
+  }
+
+  // Verify InvoiceCollections library (linked into InvoiceNFT)
+  console.log("🔍 [2/10] Verifying InvoiceCollections library...");
+  try {
+    await run("verify:verify", {
+      address: addresses.invoiceCollections,
+      constructorArguments: [],
+    });
+    console.log("  ✅ Verified\n");
+  } catch (error: any) {
+    console.log("  ℹ️ ", error.message, "\n");
+  }
+
+  // Verify DebtorRegistry library (linked into InvoiceNFT)
+  console.log("🔍 [2/10] Verifying DebtorRegistry library...");
+  try {
+    await run("verify:verify", {
+      address: addresses.debtorRegistry,
+      constructorArguments: [],
+    });
+    console.log("  ✅ Verified\n");
+  } catch (error: any) {
+    console.log("  ℹ️ ", error.message, "\n");
+  }
+
   // Verify InvoiceNFT
-  console.log("🔍 [2/7] Verifying InvoiceNFT...");
+  console.log("🔍 [2/10] Verifying InvoiceNFT...");
   try {
     await run("verify:verify", {
       address: addresses.invoiceNFT,
       constructorArguments: [],
+      libraries: {
+        InvoiceMetadata: addresses.invoiceMetadata,
+        InvoiceFractions: addresses.invoiceFractions,
+        InvoiceCollections: addresses.invoiceCollections,
+        DebtorRegistry: addresses.debtorRegistry,
+      },
     });
     console.log("  ✅ Verified\n");
   } catch (error: any) {
@@ -50,7 +104,7 @@ async function main() {
   }
 
   // Verify KYCGate
-  console.log("🔍 [3/7] Verifying KYCGate...");
+  console.log("🔍 [3/10] Verifying KYCGate...");
   try {
     await run("verify:verify", {
       address: addresses.kycGate,
@@ -62,7 +116,7 @@ async function main() {
   }
 
   // Verify Groth16Verifier
-  console.log("🔍 [4/7] Verifying Groth16Verifier...");
+  console.log("🔍 [4/10] Verifying Groth16Verifier...");
   try {
     await run("verify:verify", {
       address: addresses.groth16Verifier,
@@ -74,7 +128,7 @@ async function main() {
   }
 
   // Verify ZKKYCVerifier
-  console.log("🔍 [5/7] Verifying ZKKYCVerifier...");
+  console.log("🔍 [5/10] Verifying ZKKYCVerifier...");
   try {
     await run("verify:verify", {
       address: addresses.zkKYCVerifier,
@@ -85,8 +139,68 @@ async function main() {
     console.log("  ℹ️ ", error.message, "\n");
   }
 
+  // Verify RedemptionQueue library (linked into both vaults)
+  console.log("🔍 [6/10] Verifying RedemptionQueue library...");
+  try {
+    await run("verify:verify", {
+      address: addresses.redemptionQueue,
+      constructorArguments: [],
+    });
+    console.log("  ✅ Verified\n");
+  } catch (error: any) {
+    console.log("  ℹ️ ", error.message, "\n");
+  }
+
+  // Verify VaultFees library (linked into both vaults)
+  console.log("🔍 [6/10] Verifying VaultFees library...");
+  try {
+    await run("verify:verify", {
+      address: addresses.vaultFees,
+      constructorArguments: [],
+    });
+    console.log("  ✅ Verified\n");
+  } catch (error: any) {
+    console.log("  ℹ️ ", error.message, "\n");
+  }
+
+  // Verify InvoicePortfolio library (linked into both vaults)
+  console.log("🔍 [6/10] Verifying InvoicePortfolio library...");
+  try {
+    await run("verify:verify", {
+      address: addresses.invoicePortfolio,
+      constructorArguments: [],
+    });
+    console.log("  ✅ Verified\n");
+  } catch (error: any) {
+    console.log("  ℹ️ ", error.message, "\n");
+  }
+
+  // Verify RateCurve library (linked into both vaults)
+  console.log("🔍 [6/10] Verifying RateCurve library...");
+  try {
+    await run("verify:verify", {
+      address: addresses.rateCurve,
+      constructorArguments: [],
+    });
+    console.log("  ✅ Verified\n");
+  } catch (error: any) {
+    console.log("  ℹ️ ", error.message, "\n");
+  }
+
+  // Verify StrategyAllocator library (linked into both vaults)
+  console.log("🔍 [6/10] Verifying StrategyAllocator library...");
+  try {
+    await run("verify:verify", {
+      address: addresses.strategyAllocator,
+      constructorArguments: [],
+    });
+    console.log("  ✅ Verified\n");
+  } catch (error: any) {
+    console.log("  ℹ️ ", error.message, "\n");
+  }
+
   // Verify Senior Vault
-  console.log("🔍 [6/7] Verifying Senior Vault...");
+  console.log("🔍 [6/10] Verifying Senior Vault...");
   try {
     await run("verify:verify", {
       address: addresses.seniorVault,
@@ -99,6 +213,13 @@ async function main() {
         "Senior Invoice Vault",
         "siVault",
       ],
+      libraries: {
+        RedemptionQueue: addresses.redemptionQueue,
+        VaultFees: addresses.vaultFees,
+        InvoicePortfolio: addresses.invoicePortfolio,
+        RateCurve: addresses.rateCurve,
+        StrategyAllocator: addresses.strategyAllocator,
+      },
     });
     console.log("  ✅ Verified\n");
   } catch (error: any) {
@@ -106,7 +227,7 @@ async function main() {
   }
 
   // Verify Junior Vault
-  console.log("🔍 [7/7] Verifying Junior Vault...");
+  console.log("🔍 [7/10] Verifying Junior Vault...");
   try {
     await run("verify:verify", {
       address: addresses.juniorVault,
@@ -119,12 +240,65 @@ async function main() {
         "Junior Invoice Vault",
         "jiVault",
       ],
+      libraries: {
+        RedemptionQueue: addresses.redemptionQueue,
+        VaultFees: addresses.vaultFees,
+        InvoicePortfolio: addresses.invoicePortfolio,
+        RateCurve: addresses.rateCurve,
+        StrategyAllocator: addresses.strategyAllocator,
+      },
     });
     console.log("  ✅ Verified\n");
   } catch (error: any) {
     console.log("  ℹ️ ", error.message, "\n");
   }
 
+  // Verify Tranche Pool
+  if (addresses.tranchePool) {
+    console.log("🔍 [8/10] Verifying Tranche Pool...");
+    try {
+      await run("verify:verify", {
+        address: addresses.tranchePool,
+        constructorArguments: [addresses.seniorVault, addresses.juniorVault],
+      });
+      console.log("  ✅ Verified\n");
+    } catch (error: any) {
+      console.log("  ℹ️ ", error.message, "\n");
+    }
+  }
+
+  // Verify Recourse Escrow
+  if (addresses.recourseEscrow) {
+    console.log("🔍 [9/10] Verifying Recourse Escrow...");
+    try {
+      await run("verify:verify", {
+        address: addresses.recourseEscrow,
+        constructorArguments: [addresses.invoiceNFT],
+      });
+      console.log("  ✅ Verified\n");
+    } catch (error: any) {
+      console.log("  ℹ️ ", error.message, "\n");
+    }
+  }
+
+  // Verify idle cash strategies
+  if (addresses.seniorStrategy && addresses.juniorStrategy) {
+    console.log("🔍 [10/10] Verifying Mock Yield Strategies...");
+    try {
+      await run("verify:verify", {
+        address: addresses.seniorStrategy,
+        constructorArguments: [addresses.seniorVault, 400],
+      });
+      await run("verify:verify", {
+        address: addresses.juniorStrategy,
+        constructorArguments: [addresses.juniorVault, 400],
+      });
+      console.log("  ✅ Verified\n");
+    } catch (error: any) {
+      console.log("  ℹ️ ", error.message, "\n");
+    }
+  }
+
   console.log("✅ Verification complete!");
 }
 
@@ -0,0 +1,573 @@
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers } from "hardhat";
+import {
+  DAY,
+  Protocol,
+  Status,
+  USDC,
+  deployProtocol,
+  deposit,
+  fundInvoice,
+  mintInvoice,
+  mintVerifiedInvoice,
+  payInvoice,
+  signMintRequest,
+} from "./fixtures";
+
+describe("InvoiceNFT", function () {
+  describe("Late fees", function () {
+    async function overdueInvoiceFixture() {
+      const p = await deployProtocol();
+      // 5 day grace period, 0.1% a day on unpaid face value
+      await p.invoiceNFT.setCollectionTerms(5 * DAY, 10);
+      await deposit(p, p.seniorVault, p.alice, USDC(100_000));
+
+      const invoiceId = await fundInvoice(p, p.seniorVault, USDC(10_000), 30);
+      await time.increase(40 * DAY);
+      return { ...p, invoiceId };
+    }
+
+    it("marks an invoice PAID once the face value is repaid and keeps the late fee payable", async function () {
+      const p = await loadFixture(overdueInvoiceFixture);
+      const lateFee = await p.invoiceNFT.getLateFee(p.invoiceId);
+      expect(lateFee).to.be.closeTo(USDC(100), USDC(1));
+
+      await payInvoice(p, p.invoiceId, USDC(10_000));
+
+      expect(await p.invoiceNFT.getInvoiceStatus(p.invoiceId)).to.equal(Status.PAID);
+      expect(await p.invoiceNFT.getAmountDue(p.invoiceId)).to.be.closeTo(lateFee, USDC(1));
+      expect((await p.invoiceNFT.getDebtor(p.debtor.address)).paidInvoices).to.equal(1);
+      await expect(p.invoiceNFT.markAsDefaulted(p.invoiceId)).to.be.revertedWith("Invoice already paid");
+    });
+
+    it("stops the late fee at repayment of face value and books it as yield when paid", async function () {
+      const p = await loadFixture(overdueInvoiceFixture);
+      await payInvoice(p, p.invoiceId, USDC(10_000));
+      await p.seniorVault.settle(p.invoiceId);
+
+      const lateFee = await p.invoiceNFT.getAmountDue(p.invoiceId);
+      await time.increase(30 * DAY);
+      expect(await p.invoiceNFT.getAmountDue(p.invoiceId)).to.equal(lateFee);
+
+      // Split between the tranches by the waterfall
+      const totalYield = async () => (await p.tranchePool.totalSeniorYield()) + (await p.tranchePool.totalJuniorYield());
+      const yieldBefore = await totalYield();
+      await payInvoice(p, p.invoiceId, lateFee);
+
+      expect(await p.invoiceNFT.getAmountDue(p.invoiceId)).to.equal(0);
+      expect(await p.invoiceNFT.getInvoiceStatus(p.invoiceId)).to.equal(Status.PAID);
+      expect((await p.invoiceNFT.getDebtor(p.debtor.address)).paidInvoices).to.equal(1);
+      expect((await totalYield()) - yieldBefore).to.equal(lateFee);
+      await expect(payInvoice(p, p.invoiceId, 1n)).to.be.revertedWith("Payment exceeds amount due");
+    });
+  });
+
+  describe("Debtor registry", function () {
+    async function newDebtorInvoiceFixture() {
+      const p = await deployProtocol();
+      const newDebtor = p.officer;
+
+      const maturity = (await time.latest()) + 30 * DAY;
+      const terms = [USDC(10_000), maturity, newDebtor.address, ethers.id("new-debtor"), "Globex", 500] as const;
+      const invoiceId = await p.invoiceNFT.connect(p.issuer).mintInvoice.staticCall(...terms);
+      await p.invoiceNFT.connect(p.issuer).mintInvoice(...terms);
+
+      return { ...p, newDebtor, invoiceId };
+    }
+
+    it("registers an unknown debtor on its first invoice with no credit limit", async function () {
+      const p = await loadFixture(newDebtorInvoiceFixture);
+      const record = await p.invoiceNFT.getDebtor(p.newDebtor.address);
+
+      expect(record.debtorId).to.equal(2);
+      expect(record.name).to.equal("Globex");
+      expect(record.creditLimit).to.equal(0);
+      expect(record.isActive).to.equal(true);
+      expect(await p.invoiceNFT.getInvoiceStatus(p.invoiceId)).to.equal(Status.PENDING);
+      await expect(
+        p.invoiceNFT.registerDebtor(p.newDebtor.address, "Globex Inc", USDC(50_000))
+      ).to.be.revertedWith("Debtor already registered");
+    });
+
+    it("only verifies an invoice once the debtor has credit for it, and reserves it then", async function () {
+      const p = await loadFixture(newDebtorInvoiceFixture);
+      await expect(p.invoiceNFT.verifyInvoice(p.invoiceId)).to.be.revertedWith("Debtor credit limit exceeded");
+
+      await p.invoiceNFT.updateDebtorCredit(p.newDebtor.address, USDC(15_000), true);
+      expect(await p.invoiceNFT.getAvailableCredit(p.newDebtor.address)).to.equal(USDC(15_000));
+
+      await p.invoiceNFT.verifyInvoice(p.invoiceId);
+      expect(await p.invoiceNFT.getInvoiceStatus(p.invoiceId)).to.equal(Status.VERIFIED);
+      expect((await p.invoiceNFT.getDebtor(p.newDebtor.address)).outstandingFaceValue).to.equal(USDC(10_000));
+      expect(await p.invoiceNFT.getAvailableCredit(p.newDebtor.address)).to.equal(USDC(5_000));
+    });
+
+    it("releases the credit as the face value is repaid", async function () {
+      const p = await loadFixture(newDebtorInvoiceFixture);
+      await p.invoiceNFT.updateDebtorCredit(p.newDebtor.address, USDC(10_000), true);
+      await p.invoiceNFT.verifyInvoice(p.invoiceId);
+      await deposit(p, p.seniorVault, p.alice, USDC(100_000));
+      await p.invoiceNFT.connect(p.issuer).approve(await p.seniorVault.getAddress(), p.invoiceId);
+      await p.seniorVault.addInvoice(p.invoiceId);
+
+      await p.mockUSDC.connect(p.issuer).transfer(p.newDebtor.address, USDC(4_000));
+      await p.mockUSDC.connect(p.newDebtor).approve(await p.invoiceNFT.getAddress(), USDC(4_000));
+      await p.invoiceNFT.connect(p.newDebtor).payInvoice(p.invoiceId, USDC(4_000));
+
+      expect(await p.invoiceNFT.getAvailableCredit(p.newDebtor.address)).to.equal(USDC(4_000));
+    });
+
+    it("rejects new invoices against a suspended debtor", async function () {
+      const p = await loadFixture(newDebtorInvoiceFixture);
+      await p.invoiceNFT.updateDebtorCredit(p.newDebtor.address, USDC(50_000), false);
+
+      await expect(p.invoiceNFT.verifyInvoice(p.invoiceId)).to.be.revertedWith("Debtor suspended");
+      const maturity = (await time.latest()) + 30 * DAY;
+      await expect(
+        p.invoiceNFT.connect(p.issuer).mintInvoice(USDC(1_000), maturity, p.newDebtor.address, ethers.id("second"), "Globex", 500)
+      ).to.be.revertedWith("Debtor suspended");
+      expect(await p.invoiceNFT.getAvailableCredit(p.newDebtor.address)).to.equal(0);
+    });
+  });
+
+  describe("Fractions", function () {
+    async function fractionalInvoiceFixture() {
+      const p = await deployProtocol();
+      await deposit(p, p.seniorVault, p.alice, USDC(100_000));
+      await deposit(p, p.juniorVault, p.bob, USDC(50_000));
+
+      // 60% for the senior vault, 40% for the junior vault
+      const invoiceId = await mintVerifiedInvoice(p, null, USDC(10_000), 30);
+      await p.invoiceNFT.connect(p.issuer).fractionalizeInvoice(
+        invoiceId,
+        [await p.seniorVault.getAddress(), await p.juniorVault.getAddress()],
+        [6000, 4000]
+      );
+      return { ...p, invoiceId };
+    }
+
+    it("merges a fraction no vault bought back to the issuer, who is paid its share", async function () {
+      const p = await loadFixture(fractionalInvoiceFixture);
+      await p.seniorVault.addInvoice(p.invoiceId);
+      expect(await p.invoiceNFT.getInvoiceStatus(p.invoiceId)).to.equal(Status.VERIFIED);
+
+      await expect(p.invoiceNFT.connect(p.issuer).mergeUnfundedFractions(p.invoiceId))
+        .to.emit(p.invoiceNFT, "FractionsMerged")
+        .withArgs(p.invoiceId, p.issuer.address, 4000, (t: bigint) => t > 0n);
+
+      expect(await p.invoiceNFT.getInvoiceStatus(p.invoiceId)).to.equal(Status.FUNDED);
+      expect(await p.invoiceNFT.getFractionHolders(p.invoiceId)).to.deep.equal([
+        await p.seniorVault.getAddress(),
+        p.issuer.address,
+      ]);
+      await expect(p.juniorVault.addInvoice(p.invoiceId)).to.be.reverted;
+
+      const issuerBalance = await p.mockUSDC.balanceOf(p.issuer.address);
+      await payInvoice(p, p.invoiceId, USDC(10_000));
+
+      expect(await p.invoiceNFT.getInvoiceStatus(p.invoiceId)).to.equal(Status.PAID);
+      expect(await p.mockUSDC.balanceOf(p.issuer.address)).to.equal(issuerBalance + USDC(4_000));
+      expect(await p.seniorVault.totalPrincipalRepaid()).to.equal(USDC(5_700));
+    });
+
+    it("returns the whole invoice to the issuer when no fraction was bought", async function () {
+      const p = await loadFixture(fractionalInvoiceFixture);
+      await p.invoiceNFT.mergeUnfundedFractions(p.invoiceId);
+
+      expect(await p.invoiceNFT.isFractionalized(p.invoiceId)).to.equal(false);
+      expect(await p.invoiceNFT.ownerOf(p.invoiceId)).to.equal(p.issuer.address);
+      expect(await p.invoiceNFT.getInvoiceStatus(p.invoiceId)).to.equal(Status.VERIFIED);
+
+      // It can be sold whole again
+      await p.invoiceNFT.connect(p.issuer).approve(await p.seniorVault.getAddress(), p.invoiceId);
+      await p.seniorVault.addInvoice(p.invoiceId);
+      expect(await p.invoiceNFT.getInvoiceStatus(p.invoiceId)).to.equal(Status.FUNDED);
+    });
+
+    it("only lets the issuer or the admin merge fractions before every fraction is funded", async function () {
+      const p = await loadFixture(fractionalInvoiceFixture);
+      await expect(
+        p.invoiceNFT.connect(p.alice).mergeUnfundedFractions(p.invoiceId)
+      ).to.be.revertedWith("Caller is not the issuer");
+
+      await p.seniorVault.addInvoice(p.invoiceId);
+      await p.juniorVault.addInvoice(p.invoiceId);
+      await expect(
+        p.invoiceNFT.connect(p.issuer).mergeUnfundedFractions(p.invoiceId)
+      ).to.be.revertedWith("Invoice not verified");
+    });
+  });
+
+  describe("Oracle quorum", function () {
+    const VERIFY = 0;
+    const PAYMENT = 1;
+
+    async function quorumFixture() {
+      const p = await deployProtocol();
+      for (const oracle of [p.alice, p.bob]) {
+        await p.invoiceNFT.grantRole(await p.invoiceNFT.ORACLE_ROLE(), oracle.address);
+      }
+      await p.invoiceNFT.setOracleThreshold(2);
+
+      const invoiceId = await mintInvoice(p, USDC(10_000), 30);
+      return { ...p, invoiceId };
+    }
+
+    /**
+     * Sign an attestation for the invoice's current nonce from each oracle
+     */
+    async function attest(
+      p: Awaited<ReturnType<typeof quorumFixture>>,
+      oracles: (typeof p.alice)[],
+      action: number,
+      amount: bigint,
+      deadline: number
+    ) {
+      const domain = {
+        name: "InvoiceNFT",
+        version: "1",
+        chainId: (await ethers.provider.getNetwork()).chainId,
+        verifyingContract: await p.invoiceNFT.getAddress(),
+      };
+      const types = {
+        Attestation: [
+          { name: "action", type: "uint8" },
+          { name: "tokenId", type: "uint256" },
+          { name: "amount", type: "uint256" },
+          { name: "nonce", type: "uint256" },
+          { name: "deadline", type: "uint256" },
+        ],
+      };
+      const value = {
+        action,
+        tokenId: p.invoiceId,
+        amount,
+        nonce: await p.invoiceNFT.attestationNonces(p.invoiceId),
+        deadline,
+      };
+      return Promise.all(oracles.map((oracle) => oracle.signTypedData(domain, types, value)));
+    }
+
+    const ascending = (a: { address: string }, b: { address: string }) =>
+      BigInt(a.address) < BigInt(b.address) ? -1 : 1;
+
+    it("only moves an invoice once enough distinct oracles have signed", async function () {
+      const p = await loadFixture(quorumFixture);
+      const deadline = (await time.latest()) + DAY;
+      const oracles = [p.deployer, p.alice, p.bob].sort(ascending);
+      const verify = async (signers: (typeof p.alice)[]) => {
+        const signatures = await attest(p, signers, VERIFY, 0n, deadline);
+        return p.invoiceNFT.executeAttestation(VERIFY, p.invoiceId, 0, deadline, signatures);
+      };
+
+      await expect(p.invoiceNFT.verifyInvoice(p.invoiceId)).to.be.revertedWith("Oracle quorum required");
+      await expect(verify([oracles[0]])).to.be.revertedWith("Not enough oracle signatures");
+      await expect(verify([oracles[1], oracles[0]])).to.be.revertedWith("Signers not unique and ordered");
+      await expect(verify([oracles[0], oracles[0]])).to.be.revertedWith("Signers not unique and ordered");
+      await expect(verify([oracles[0], p.officer].sort(ascending))).to.be.revertedWith("Signer is not an oracle");
+
+      // Anyone can relay a quorum
+      const signatures = await attest(p, oracles.slice(0, 2), VERIFY, 0n, deadline);
+      await expect(p.invoiceNFT.connect(p.issuer).executeAttestation(VERIFY, p.invoiceId, 0, deadline, signatures))
+        .to.emit(p.invoiceNFT, "AttestationExecuted")
+        .withArgs(p.invoiceId, VERIFY, 0, 0, 2);
+      expect(await p.invoiceNFT.getInvoiceStatus(p.invoiceId)).to.equal(Status.VERIFIED);
+
+      // The nonce moved on, so the same signatures no longer recover to oracles
+      await expect(p.invoiceNFT.executeAttestation(VERIFY, p.invoiceId, 0, deadline, signatures)).to.be.reverted;
+    });
+
+    it("records a payment amount the oracles attested to before the deadline", async function () {
+      const p = await loadFixture(quorumFixture);
+      const oracles = [p.alice, p.bob].sort(ascending);
+      let deadline = (await time.latest()) + DAY;
+      const verification = await attest(p, oracles, VERIFY, 0n, deadline);
+      await p.invoiceNFT.executeAttestation(VERIFY, p.invoiceId, 0, deadline, verification);
+      await deposit(p, p.seniorVault, p.alice, USDC(100_000));
+      await p.invoiceNFT.connect(p.issuer).approve(await p.seniorVault.getAddress(), p.invoiceId);
+      await p.seniorVault.addInvoice(p.invoiceId);
+
+      await expect(p.invoiceNFT.recordPayment(p.invoiceId, USDC(4_000))).to.be.revertedWith("Oracle quorum required");
+
+      deadline = (await time.latest()) + DAY;
+      const signatures = await attest(p, oracles, PAYMENT, USDC(4_000), deadline);
+      // Signed for 4,000, not 9,000
+      await expect(p.invoiceNFT.executeAttestation(PAYMENT, p.invoiceId, USDC(9_000), deadline, signatures)).to.be
+        .reverted;
+
+      await time.increase(2 * DAY);
+      await expect(
+        p.invoiceNFT.executeAttestation(PAYMENT, p.invoiceId, USDC(4_000), deadline, signatures)
+      ).to.be.revertedWith("Attestation expired");
+
+      deadline = (await time.latest()) + DAY;
+      await p.invoiceNFT.executeAttestation(
+        PAYMENT,
+        p.invoiceId,
+        USDC(4_000),
+        deadline,
+        await attest(p, oracles, PAYMENT, USDC(4_000), deadline)
+      );
+      const invoice = await p.invoiceNFT.getInvoice(p.invoiceId);
+      expect(invoice.paidAmount).to.equal(USDC(4_000));
+      expect(invoice.status).to.equal(Status.PARTIAL_PAID);
+    });
+  });
+
+  describe("Acknowledgement", function () {
+    /**
+     * Sign an acknowledgement of an invoice's current terms
+     */
+    async function signAcknowledgement(p: Protocol, signer: typeof p.debtor, tokenId: bigint, deadline: number) {
+      const invoice = await p.invoiceNFT.getInvoice(tokenId);
+      const domain = {
+        name: "InvoiceNFT",
+        version: "1",
+        chainId: (await ethers.provider.getNetwork()).chainId,
+        verifyingContract: await p.invoiceNFT.getAddress(),
+      };
+      const types = {
+        Acknowledgement: [
+          { name: "tokenId", type: "uint256" },
+          { name: "invoiceHash", type: "bytes32" },
+          { name: "faceValue", type: "uint256" },
+          { name: "maturityDate", type: "uint256" },
+          { name: "deadline", type: "uint256" },
+        ],
+      };
+      return signer.signTypedData(domain, types, {
+        tokenId,
+        invoiceHash: invoice.invoiceHash,
+        faceValue: invoice.faceValue,
+        maturityDate: invoice.maturityDate,
+        deadline,
+      });
+    }
+
+    it("lets the debtor confirm an invoice and vaults require it", async function () {
+      const p = await loadFixture(deployProtocol);
+      await deposit(p, p.seniorVault, p.alice, USDC(100_000));
+      await p.seniorVault.setRequireAcknowledgement(true);
+
+      const unconfirmed = await mintVerifiedInvoice(p, p.seniorVault, USDC(10_000), 30);
+      await expect(p.seniorVault.addInvoice(unconfirmed)).to.be.revertedWith("Invoice not acknowledged by debtor");
+
+      const invoiceId = await mintInvoice(p, USDC(10_000), 30);
+      await expect(p.invoiceNFT.connect(p.issuer).acknowledgeInvoice(invoiceId)).to.be.revertedWith(
+        "Caller is not the debtor"
+      );
+      await expect(p.invoiceNFT.connect(p.debtor).acknowledgeInvoice(invoiceId))
+        .to.emit(p.invoiceNFT, "InvoiceAcknowledged")
+        .withArgs(invoiceId, p.debtor.address, (t: bigint) => t > 0n);
+      expect(await p.invoiceNFT.getInvoiceStatus(invoiceId)).to.equal(Status.ACKNOWLEDGED);
+      await expect(p.invoiceNFT.connect(p.debtor).acknowledgeInvoice(invoiceId)).to.be.revertedWith(
+        "Invoice not in PENDING status"
+      );
+
+      await p.invoiceNFT.verifyInvoice(invoiceId);
+      const invoice = await p.invoiceNFT.getInvoice(invoiceId);
+      expect(invoice.status).to.equal(Status.VERIFIED);
+      expect(invoice.acknowledgedAt).to.be.greaterThan(0);
+
+      await p.invoiceNFT.connect(p.issuer).approve(await p.seniorVault.getAddress(), invoiceId);
+      await p.seniorVault.addInvoice(invoiceId);
+    });
+
+    it("accepts a relayed debtor signature over the invoice terms", async function () {
+      const p = await loadFixture(deployProtocol);
+      const invoiceId = await mintInvoice(p, USDC(10_000), 30);
+      const deadline = (await time.latest()) + DAY;
+
+      const forged = await signAcknowledgement(p, p.issuer, invoiceId, deadline);
+      await expect(p.invoiceNFT.acknowledgeInvoiceWithSig(invoiceId, deadline, forged)).to.be.revertedWith(
+        "Invalid debtor signature"
+      );
+
+      // A signature over the old terms stops working once the issuer amends them
+      const signature = await signAcknowledgement(p, p.debtor, invoiceId, deadline);
+      const invoice = await p.invoiceNFT.getInvoice(invoiceId);
+      await p.invoiceNFT
+        .connect(p.issuer)
+        .amendInvoice(invoiceId, USDC(12_000), invoice.maturityDate, invoice.invoiceHash, "Acme Corp", 500);
+      await expect(p.invoiceNFT.acknowledgeInvoiceWithSig(invoiceId, deadline, signature)).to.be.revertedWith(
+        "Invalid debtor signature"
+      );
+
+      const amended = await signAcknowledgement(p, p.debtor, invoiceId, deadline);
+      await time.increase(2 * DAY);
+      await expect(p.invoiceNFT.acknowledgeInvoiceWithSig(invoiceId, deadline, amended)).to.be.revertedWith(
+        "Acknowledgement expired"
+      );
+
+      const later = (await time.latest()) + DAY;
+      await p.invoiceNFT
+        .connect(p.bob)
+        .acknowledgeInvoiceWithSig(invoiceId, later, await signAcknowledgement(p, p.debtor, invoiceId, later));
+      expect(await p.invoiceNFT.getInvoiceStatus(invoiceId)).to.equal(Status.ACKNOWLEDGED);
+    });
+  });
+
+  describe("Gasless mint", function () {
+    it("mints to the issuer from a signed request relayed by anyone", async function () {
+      const p = await loadFixture(deployProtocol);
+      const { request, signature } = await signMintRequest(p, p.issuer, USDC(10_000), 30, ethers.id("gasless"));
+
+      const invoiceId = await p.invoiceNFT.connect(p.bob).mintInvoiceWithSig.staticCall(request, signature);
+      await expect(p.invoiceNFT.connect(p.bob).mintInvoiceWithSig(request, signature))
+        .to.emit(p.invoiceNFT, "MintRequestRelayed")
+        .withArgs(invoiceId, p.issuer.address, p.bob.address, 0);
+
+      const invoice = await p.invoiceNFT.getInvoice(invoiceId);
+      expect(await p.invoiceNFT.ownerOf(invoiceId)).to.equal(p.issuer.address);
+      expect(invoice.issuer).to.equal(p.issuer.address);
+      expect(invoice.faceValue).to.equal(USDC(10_000));
+      expect(invoice.status).to.equal(Status.PENDING);
+      expect(await p.invoiceNFT.mintNonces(p.issuer.address)).to.equal(1);
+
+      await expect(p.invoiceNFT.mintInvoiceWithSig(request, signature)).to.be.revertedWith("Invalid mint nonce");
+    });
+
+    it("rejects tampered, expired and non-issuer requests", async function () {
+      const p = await loadFixture(deployProtocol);
+      const { request, signature } = await signMintRequest(p, p.issuer, USDC(10_000), 30, ethers.id("gasless"));
+
+      await expect(
+        p.invoiceNFT.mintInvoiceWithSig({ ...request, faceValue: USDC(100_000) }, signature)
+      ).to.be.revertedWith("Invalid issuer signature");
+
+      const outsider = await signMintRequest(p, p.bob, USDC(10_000), 30, ethers.id("outsider"));
+      await expect(p.invoiceNFT.mintInvoiceWithSig(outsider.request, outsider.signature)).to.be.revertedWith(
+        "Signer is not an issuer"
+      );
+
+      await time.increase(2 * DAY);
+      await expect(p.invoiceNFT.mintInvoiceWithSig(request, signature)).to.be.revertedWith("Mint request expired");
+    });
+  });
+
+  describe("Metadata", function () {
+    /**
+     * Decode a base64 JSON data URI
+     */
+    function decodeDataURI(uri: string, mediaType: string) {
+      const prefix = `data:${mediaType};base64,`;
+      expect(uri.startsWith(prefix)).to.equal(true);
+      return Buffer.from(uri.slice(prefix.length), "base64").toString();
+    }
+
+    it("describes the invoice terms and status in on-chain JSON with an SVG badge", async function () {
+      const p = await loadFixture(deployProtocol);
+      await deposit(p, p.seniorVault, p.alice, USDC(100_000));
+      const invoiceId = await fundInvoice(p, p.seniorVault, USDC(10_000), 30);
+      await payInvoice(p, invoiceId, USDC(4_000));
+
+      const metadata = JSON.parse(decodeDataURI(await p.invoiceNFT.tokenURI(invoiceId), "application/json"));
+      expect(metadata.name).to.equal(`Invoice #${invoiceId}`);
+      expect(metadata.external_url).to.equal(undefined);
+
+      const invoice = await p.invoiceNFT.getInvoice(invoiceId);
+      const traits = Object.fromEntries(
+        metadata.attributes.map((a: { trait_type: string; value: unknown }) => [a.trait_type, a.value])
+      );
+      expect(traits).to.deep.equal({
+        Status: "PARTIAL_PAID",
+        "Face Value": "10000.00",
+        "Paid Amount": "4000.00",
+        "Discount Rate (bps)": 500,
+        Maturity: Number(invoice.maturityDate),
+        Debtor: p.debtor.address.toLowerCase(),
+      });
+
+      const svg = decodeDataURI(metadata.image, "image/svg+xml");
+      expect(svg).to.contain("PARTIAL_PAID");
+      expect(svg).to.match(/>(29|30) days to maturity</);
+
+      await time.increaseTo(invoice.maturityDate);
+      const matured = JSON.parse(decodeDataURI(await p.invoiceNFT.tokenURI(invoiceId), "application/json"));
+      expect(decodeDataURI(matured.image, "image/svg+xml")).to.contain(">Matured<");
+
+      await expect(p.invoiceNFT.tokenURI(999)).to.be.revertedWithCustomError(p.invoiceNFT, "ERC721NonexistentToken");
+    });
+
+    it("links the invoice document the issuer attached before verification", async function () {
+      const p = await loadFixture(deployProtocol);
+      const invoiceId = await mintInvoice(p, USDC(10_000), 30);
+
+      await expect(p.invoiceNFT.connect(p.bob).setInvoiceDocument(invoiceId, "ipfs://forged")).to.be.revertedWith(
+        "Caller does not hold invoice"
+      );
+      await p.invoiceNFT.connect(p.issuer).setInvoiceDocument(invoiceId, "ipfs://bafyinvoice");
+
+      const metadata = JSON.parse(decodeDataURI(await p.invoiceNFT.tokenURI(invoiceId), "application/json"));
+      expect(metadata.external_url).to.equal("ipfs://bafyinvoice");
+
+      await p.invoiceNFT.verifyInvoice(invoiceId);
+      await expect(
+        p.invoiceNFT.connect(p.issuer).setInvoiceDocument(invoiceId, "ipfs://swapped")
+      ).to.be.revertedWith("Invoice already verified");
+    });
+  });
+
+  describe("Cancellation and amendment", function () {
+    it("lets the issuer burn an unverified invoice and reuse its hash", async function () {
+      const p = await loadFixture(deployProtocol);
+      const invoiceId = await mintInvoice(p, USDC(10_000), 30);
+      const invoice = await p.invoiceNFT.getInvoice(invoiceId);
+
+      await expect(p.invoiceNFT.connect(p.bob).cancelInvoice(invoiceId)).to.be.revertedWith(
+        "Caller does not hold invoice"
+      );
+      await expect(p.invoiceNFT.connect(p.issuer).cancelInvoice(invoiceId))
+        .to.emit(p.invoiceNFT, "InvoiceCancelled")
+        .withArgs(invoiceId, p.issuer.address, (t: bigint) => t > 0n);
+      await expect(p.invoiceNFT.ownerOf(invoiceId)).to.be.revertedWithCustomError(
+        p.invoiceNFT,
+        "ERC721NonexistentToken"
+      );
+      expect(await p.invoiceNFT.usedInvoiceHashes(invoice.invoiceHash)).to.equal(false);
+
+      await p.invoiceNFT
+        .connect(p.issuer)
+        .mintInvoice(USDC(12_000), invoice.maturityDate, p.debtor.address, invoice.invoiceHash, "Acme Corp", 500);
+
+      const verifiedId = await mintVerifiedInvoice(p, null, USDC(10_000), 60);
+      await expect(p.invoiceNFT.connect(p.issuer).cancelInvoice(verifiedId)).to.be.revertedWith(
+        "Invoice already verified"
+      );
+    });
+
+    it("versions amendments and resets acknowledgement and pending attestations", async function () {
+      const p = await loadFixture(deployProtocol);
+      const invoiceId = await mintInvoice(p, USDC(10_000), 30);
+      const original = await p.invoiceNFT.getInvoice(invoiceId);
+      await p.invoiceNFT.connect(p.debtor).acknowledgeInvoice(invoiceId);
+
+      const maturity = original.maturityDate + BigInt(15 * DAY);
+      const hash = ethers.id("corrected");
+      const amend = (faceValue: bigint, invoiceHash: string) =>
+        p.invoiceNFT.connect(p.issuer).amendInvoice(invoiceId, faceValue, maturity, invoiceHash, "Acme Corp", 400);
+      await expect(amend(USDC(12_000), hash))
+        .to.emit(p.invoiceNFT, "InvoiceAmended")
+        .withArgs(invoiceId, 1, USDC(12_000), maturity, hash, 400, (t: bigint) => t > 0n);
+
+      const amended = await p.invoiceNFT.getInvoice(invoiceId);
+      expect(amended.faceValue).to.equal(USDC(12_000));
+      expect(amended.discountedValue).to.equal(USDC(11_520));
+      expect(amended.maturityDate).to.equal(maturity);
+      expect(amended.status).to.equal(Status.PENDING);
+      expect(amended.acknowledgedAt).to.equal(0);
+      expect(await p.invoiceNFT.invoiceVersions(invoiceId)).to.equal(1);
+      expect(await p.invoiceNFT.attestationNonces(invoiceId)).to.equal(1);
+      expect(await p.invoiceNFT.usedInvoiceHashes(original.invoiceHash)).to.equal(false);
+
+      // A hash another invoice holds cannot be taken over
+      const otherId = await mintInvoice(p, USDC(5_000), 45);
+      const other = await p.invoiceNFT.getInvoice(otherId);
+      await expect(amend(USDC(12_000), other.invoiceHash)).to.be.revertedWith("Invoice already exists");
+
+      await amend(USDC(11_000), hash);
+      expect(await p.invoiceNFT.invoiceVersions(invoiceId)).to.equal(2);
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { DAY, USDC, deployProtocol, deposit } from "./fixtures";
+
+describe("KYCGate", function () {
+  describe("Vault eligibility", function () {
+    it("holds deposits, mints and transfers to the vault's minimum tier", async function () {
+      const p = await loadFixture(deployProtocol);
+      const vault = await p.juniorVault.getAddress();
+      await deposit(p, p.juniorVault, p.alice, USDC(10_000));
+
+      // Junior restricted to tier 3 sophisticated investors
+      await p.juniorVault.updateEligibilityPolicy(3, false, 0, 0);
+      expect(await p.kycGate.checkEligibility(vault, p.bob.address)).to.deep.equal([
+        false,
+        "KYC tier below vault minimum",
+      ]);
+
+      await p.mockUSDC.connect(p.bob).approve(vault, USDC(10_000));
+      await expect(p.juniorVault.connect(p.bob).deposit(USDC(10_000), p.bob.address)).to.be.revertedWith(
+        "KYC tier below vault minimum"
+      );
+      await expect(p.juniorVault.connect(p.bob).mint(USDC(10_000), p.bob.address)).to.be.revertedWith(
+        "KYC tier below vault minimum"
+      );
+      await expect(p.juniorVault.connect(p.alice).transfer(p.bob.address, USDC(1_000))).to.be.revertedWith(
+        "Sender not KYC verified"
+      );
+
+      const expiry = (await time.latest()) + 365 * DAY;
+      await p.kycGate.verifyUser(p.bob.address, expiry, ethers.id("US"), 10, "kyc-bob-tier3", 3);
+      await p.juniorVault.connect(p.bob).deposit(USDC(10_000), p.bob.address);
+      expect(await p.juniorVault.balanceOf(p.bob.address)).to.be.greaterThan(0);
+
+      // Holders who no longer qualify can still queue their exit
+      const shares = await p.juniorVault.balanceOf(p.alice.address);
+      await p.juniorVault.connect(p.alice).requestRedeem(shares, p.alice.address, p.alice.address);
+      await p.juniorVault.processRedemptions();
+      await p.juniorVault.connect(p.alice).redeem(shares, p.alice.address, p.alice.address);
+      expect(await p.juniorVault.balanceOf(p.alice.address)).to.equal(0);
+
+      // Losing KYC altogether still blocks it, whoever claims
+      await p.kycGate.revokeKYC(p.bob.address, "expired documents");
+      const bobShares = await p.juniorVault.balanceOf(p.bob.address);
+      await p.juniorVault.connect(p.bob).approve(p.alice.address, bobShares);
+      await expect(
+        p.juniorVault.connect(p.alice).requestRedeem(bobShares, p.alice.address, p.bob.address)
+      ).to.be.revertedWith("Owner not KYC verified");
+    });
+
+    it("excludes high-risk countries and risk scores above the vault maximum", async function () {
+      const p = await loadFixture(deployProtocol);
+      const vault = await p.seniorVault.getAddress();
+      await p.kycGate.markCountryHighRisk(ethers.id("US"));
+      expect(await p.kycGate.isEligible(vault, p.alice.address)).to.equal(true);
+
+      await p.seniorVault.updateEligibilityPolicy(0, true, 0, 0);
+      expect(await p.kycGate.checkEligibility(vault, p.alice.address)).to.deep.equal([
+        false,
+        "High-risk country excluded by vault",
+      ]);
+
+      // Investors are scored 10 in the fixture
+      await p.seniorVault.updateEligibilityPolicy(0, false, 5, 0);
+      await p.mockUSDC.connect(p.alice).approve(vault, USDC(1_000));
+      await expect(p.seniorVault.connect(p.alice).deposit(USDC(1_000), p.alice.address)).to.be.revertedWith(
+        "Risk score above vault maximum"
+      );
+
+      await p.seniorVault.updateEligibilityPolicy(0, false, 10, 0);
+      await deposit(p, p.seniorVault, p.alice, USDC(1_000));
+    });
+
+    it("caps the position each tier may build in a vault", async function () {
+      const p = await loadFixture(deployProtocol);
+      const vault = await p.seniorVault.getAddress();
+      await p.seniorVault.updateTierDepositLimit(2, USDC(10_000));
+      expect(await p.kycGate.getDepositLimit(vault, p.alice.address)).to.equal(USDC(10_000));
+
+      await deposit(p, p.seniorVault, p.alice, USDC(6_000));
+      await p.mockUSDC.connect(p.alice).approve(vault, USDC(5_000));
+      await expect(p.seniorVault.connect(p.alice).deposit(USDC(5_000), p.alice.address)).to.be.revertedWith(
+        "Exceeds tier deposit limit"
+      );
+
+      // Nor can the position be topped up by transfer
+      await deposit(p, p.seniorVault, p.bob, USDC(6_000));
+      await expect(p.seniorVault.connect(p.bob).transfer(p.alice.address, USDC(5_000))).to.be.revertedWith(
+        "Exceeds tier deposit limit"
+      );
+
+      await expect(p.seniorVault.updateTierDepositLimit(4, USDC(1))).to.be.revertedWith("Tier must be 1-3");
+    });
+  });
+
+  describe("ZK-KYC", function () {
+    const provider = ethers.id("trusted-provider");
+
+    async function zkFixture() {
+      const p = await deployProtocol();
+      const mockVerifier = await (await ethers.getContractFactory("MockZKVerifier")).deploy();
+      const zkKYCVerifier = await (await ethers.getContractFactory("ZKKYCVerifier")).deploy(
+        await mockVerifier.getAddress()
+      );
+      await zkKYCVerifier.addTrustedProvider(provider);
+      await p.kycGate.setZKKYCVerifier(await zkKYCVerifier.getAddress());
+
+      // The officer has no KYC record, only a proof
+      await zkKYCVerifier
+        .connect(p.officer)
+        .submitZKProofWithDefaultExpiry("0x", ethers.id("nullifier"), ethers.id("commitment"), provider);
+      await p.mockUSDC.mint(p.officer.address, USDC(100_000));
+      return { ...p, zkKYCVerifier };
+    }
+
+    it("admits proof holders to vaults that accept proofs, at the vault's proof tier", async function () {
+      const p = await loadFixture(zkFixture);
+      const vault = await p.juniorVault.getAddress();
+      expect(await p.kycGate.hasValidZKProof(p.officer.address)).to.equal(true);
+      expect(await p.kycGate.checkEligibility(vault, p.officer.address)).to.deep.equal([false, "Not KYC verified"]);
+
+      await p.juniorVault.updateEligibilityPolicy(3, false, 0, 2);
+      expect(await p.kycGate.checkEligibility(vault, p.officer.address)).to.deep.equal([
+        false,
+        "ZK proof tier below vault minimum",
+      ]);
+
+      await p.juniorVault.updateEligibilityPolicy(2, false, 0, 2);
+      await p.juniorVault.updateTierDepositLimit(2, USDC(20_000));
+      expect(await p.kycGate.getDepositLimit(vault, p.officer.address)).to.equal(USDC(20_000));
+
+      await deposit(p, p.juniorVault, p.officer, USDC(20_000));
+      await p.mockUSDC.connect(p.officer).approve(vault, USDC(1_000));
+      await expect(p.juniorVault.connect(p.officer).deposit(USDC(1_000), p.officer.address)).to.be.revertedWith(
+        "Exceeds tier deposit limit"
+      );
+      // KYC'd and ZK-verified investors can trade with each other
+      await p.juniorVault.connect(p.officer).transfer(p.alice.address, USDC(5_000));
+    });
+
+    it("stops accepting a proof once it expires or its provider is no longer trusted", async function () {
+      const p = await loadFixture(zkFixture);
+      const vault = await p.seniorVault.getAddress();
+      await p.seniorVault.updateEligibilityPolicy(0, false, 0, 1);
+      expect(await p.kycGate.isEligible(vault, p.officer.address)).to.equal(true);
+
+      await p.zkKYCVerifier.removeTrustedProvider(provider);
+      expect(await p.kycGate.isEligible(vault, p.officer.address)).to.equal(false);
+      expect(await p.kycGate.isCompliant(vault, p.officer.address)).to.equal(false);
+
+      await p.zkKYCVerifier.addTrustedProvider(provider);
+      expect(await p.kycGate.isEligible(vault, p.officer.address)).to.equal(true);
+      await time.increase(366 * DAY);
+      expect(await p.kycGate.isEligible(vault, p.officer.address)).to.equal(false);
+    });
+  });
+});
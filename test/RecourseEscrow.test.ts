@@ -0,0 +1,206 @@
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers } from "hardhat";
+import {
+  DAY,
+  Status,
+  USDC,
+  defaultInvoice,
+  deployProtocol,
+  deposit,
+  mintVerifiedInvoice,
+  payInvoice,
+  signMintRequest,
+} from "./fixtures";
+
+// RecourseEscrow.RecourseStatus
+const Recourse = {
+  NONE: 0n,
+  LOCKED: 1n,
+  BUYBACK_DUE: 2n,
+  BOUGHT_BACK: 3n,
+  SLASHED: 4n,
+  RELEASED: 5n,
+};
+
+describe("RecourseEscrow", function () {
+  async function recourseInvoiceFixture() {
+    const p = await deployProtocol();
+    const escrow = await p.recourseEscrow.getAddress();
+    await deposit(p, p.seniorVault, p.alice, USDC(100_000));
+    await deposit(p, p.juniorVault, p.bob, USDC(50_000));
+
+    // 10,000 face bought at 9,500, backed by 3,000 of issuer collateral
+    const invoiceId = await mintVerifiedInvoice(p, p.seniorVault, USDC(10_000), 30);
+    await p.mockUSDC.connect(p.issuer).approve(escrow, USDC(3_000));
+    await p.recourseEscrow.connect(p.issuer).postCollateral(invoiceId, USDC(3_000));
+    await p.seniorVault.addInvoice(invoiceId);
+
+    return { ...p, invoiceId };
+  }
+
+  it("locks the collateral against the issuer once the invoice is verified", async function () {
+    const p = await loadFixture(recourseInvoiceFixture);
+
+    expect(await p.recourseEscrow.isRecourse(p.invoiceId)).to.equal(true);
+    expect(await p.recourseEscrow.lockedCollateral(p.issuer.address)).to.equal(USDC(3_000));
+    await expect(
+      p.recourseEscrow.connect(p.issuer).withdrawCollateral(p.invoiceId, USDC(1_000))
+    ).to.be.revertedWith("Invoice already verified");
+  });
+
+  it("returns the collateral once the debtor repays", async function () {
+    const p = await loadFixture(recourseInvoiceFixture);
+    await expect(p.recourseEscrow.releaseCollateral(p.invoiceId)).to.be.revertedWith("Invoice still outstanding");
+
+    await payInvoice(p, p.invoiceId, USDC(10_000));
+    await p.recourseEscrow.releaseCollateral(p.invoiceId);
+
+    expect((await p.recourseEscrow.getRecourse(p.invoiceId)).status).to.equal(Recourse.RELEASED);
+    expect(await p.recourseEscrow.releasedCollateral(p.issuer.address)).to.equal(USDC(3_000));
+  });
+
+  it("lets the issuer buy a defaulted invoice back with the collateral counted towards the price", async function () {
+    const p = await loadFixture(recourseInvoiceFixture);
+    await defaultInvoice(p, p.invoiceId);
+    await p.recourseEscrow.openBuybackWindow(p.invoiceId);
+
+    await p.mockUSDC.connect(p.issuer).approve(await p.recourseEscrow.getAddress(), USDC(7_000));
+    await expect(p.recourseEscrow.connect(p.issuer).buyback(p.invoiceId))
+      .to.emit(p.recourseEscrow, "InvoiceBoughtBack")
+      .withArgs(p.invoiceId, p.issuer.address, USDC(10_000), USDC(3_000), (t: bigint) => t > 0n);
+
+    expect(await p.invoiceNFT.getInvoiceStatus(p.invoiceId)).to.equal(Status.PAID);
+    expect(await p.seniorVault.totalDefaultLoss()).to.equal(0);
+  });
+
+  it("slashes the collateral to the vault once the buyback window lapses", async function () {
+    const p = await loadFixture(recourseInvoiceFixture);
+    await defaultInvoice(p, p.invoiceId);
+    await p.seniorVault.writeOffDefaulted(p.invoiceId);
+    await p.recourseEscrow.openBuybackWindow(p.invoiceId);
+
+    await expect(p.recourseEscrow.slashCollateral(p.invoiceId)).to.be.revertedWith("Buyback window still open");
+    await time.increase(15 * DAY);
+    await p.recourseEscrow.slashCollateral(p.invoiceId);
+
+    expect((await p.recourseEscrow.getRecourse(p.invoiceId)).status).to.equal(Recourse.SLASHED);
+    expect(await p.seniorVault.totalRecovered()).to.equal(USDC(3_000));
+    expect(await p.recourseEscrow.lockedCollateral(p.issuer.address)).to.equal(0);
+  });
+
+  it("still slashes the collateral after the invoice was written off", async function () {
+    const p = await loadFixture(recourseInvoiceFixture);
+    await defaultInvoice(p, p.invoiceId);
+    await p.seniorVault.writeOffDefaulted(p.invoiceId);
+    await p.invoiceNFT.writeOffInvoice(p.invoiceId);
+    await p.seniorVault.settle(p.invoiceId);
+
+    await p.recourseEscrow.openBuybackWindow(p.invoiceId);
+    await time.increase(15 * DAY);
+
+    const juniorDebt = await p.tranchePool.trancheDebt(await p.juniorVault.getAddress());
+    await p.recourseEscrow.slashCollateral(p.invoiceId);
+
+    // Booked by the vault as a recovery, which unwinds the junior tranche's loss
+    expect(await p.seniorVault.totalRecovered()).to.equal(USDC(3_000));
+    expect(await p.tranchePool.trancheDebt(await p.juniorVault.getAddress())).to.equal(juniorDebt - USDC(3_000));
+    expect(await p.mockUSDC.balanceOf(await p.recourseEscrow.getAddress())).to.equal(0);
+  });
+
+  it("refunds collateral beyond the amount due to the issuer when slashing a written-off invoice", async function () {
+    const p = await loadFixture(recourseInvoiceFixture);
+    await payInvoice(p, p.invoiceId, USDC(8_000));
+    await defaultInvoice(p, p.invoiceId);
+    await p.invoiceNFT.writeOffInvoice(p.invoiceId);
+
+    await p.recourseEscrow.openBuybackWindow(p.invoiceId);
+    await time.increase(15 * DAY);
+
+    await expect(p.recourseEscrow.slashCollateral(p.invoiceId))
+      .to.emit(p.recourseEscrow, "CollateralSlashed")
+      .withArgs(p.invoiceId, USDC(2_000), USDC(1_000), (t: bigint) => t > 0n);
+
+    // Principal was never written off in the vault, so the cash repays it
+    expect(await p.seniorVault.totalPrincipalRepaid()).to.equal(USDC(9_500));
+  });
+
+  it("mints an invoice and locks its collateral in one transaction", async function () {
+    const p = await loadFixture(deployProtocol);
+    const escrow = await p.recourseEscrow.getAddress();
+    const { request, signature } = await signMintRequest(p, p.issuer, USDC(10_000), 30, ethers.id("recourse-mint"));
+
+    await expect(
+      p.recourseEscrow.connect(p.alice).mintWithCollateral(request, signature, USDC(2_000))
+    ).to.be.revertedWith("Caller is not invoice issuer");
+
+    await p.mockUSDC.connect(p.issuer).approve(escrow, USDC(2_000));
+    const invoiceId = await p.recourseEscrow.connect(p.issuer).mintWithCollateral.staticCall(request, signature, USDC(2_000));
+    await p.recourseEscrow.connect(p.issuer).mintWithCollateral(request, signature, USDC(2_000));
+
+    expect(await p.invoiceNFT.ownerOf(invoiceId)).to.equal(p.issuer.address);
+    expect(await p.invoiceNFT.getInvoiceStatus(invoiceId)).to.equal(Status.PENDING);
+    expect(await p.recourseEscrow.isRecourse(invoiceId)).to.equal(true);
+    expect(await p.recourseEscrow.lockedCollateral(p.issuer.address)).to.equal(USDC(2_000));
+  });
+
+  it("locks the collateral again when the issuer re-posts after withdrawing all of it", async function () {
+    const p = await loadFixture(deployProtocol);
+    const escrow = await p.recourseEscrow.getAddress();
+    const maturity = (await time.latest()) + 30 * DAY;
+    const terms = [USDC(10_000), maturity, p.debtor.address, ethers.id("re-post"), "Acme Corp", 500] as const;
+    const invoiceId = await p.invoiceNFT.connect(p.issuer).mintInvoice.staticCall(...terms);
+    await p.invoiceNFT.connect(p.issuer).mintInvoice(...terms);
+
+    await p.mockUSDC.connect(p.issuer).approve(escrow, USDC(3_000));
+    await p.recourseEscrow.connect(p.issuer).postCollateral(invoiceId, USDC(1_000));
+    await p.recourseEscrow.connect(p.issuer).withdrawCollateral(invoiceId, USDC(1_000));
+    expect((await p.recourseEscrow.getRecourse(invoiceId)).status).to.equal(Recourse.RELEASED);
+
+    await p.recourseEscrow.connect(p.issuer).postCollateral(invoiceId, USDC(2_000));
+
+    const recourse = await p.recourseEscrow.getRecourse(invoiceId);
+    expect(recourse.status).to.equal(Recourse.LOCKED);
+    expect(recourse.collateral).to.equal(USDC(2_000));
+    expect(await p.recourseEscrow.lockedCollateral(p.issuer.address)).to.equal(USDC(2_000));
+    expect(await p.recourseEscrow.getIssuerInvoices(p.issuer.address)).to.deep.equal([invoiceId]);
+  });
+
+  it("keeps the amount the slashed collateral did not cover owed by the issuer", async function () {
+    const p = await loadFixture(recourseInvoiceFixture);
+    const escrow = await p.recourseEscrow.getAddress();
+
+    // A second recourse invoice the debtor repays in full
+    const otherId = await mintVerifiedInvoice(p, p.seniorVault, USDC(5_000), 10);
+    await p.mockUSDC.connect(p.issuer).approve(escrow, USDC(1_000));
+    await p.recourseEscrow.connect(p.issuer).postCollateral(otherId, USDC(1_000));
+    await p.seniorVault.addInvoice(otherId);
+    await payInvoice(p, otherId, USDC(5_000));
+
+    await defaultInvoice(p, p.invoiceId);
+    await p.recourseEscrow.openBuybackWindow(p.invoiceId);
+    await time.increase(15 * DAY);
+    await expect(p.recourseEscrow.slashCollateral(p.invoiceId))
+      .to.emit(p.recourseEscrow, "ShortfallRecorded")
+      .withArgs(p.invoiceId, p.issuer.address, USDC(7_000), (t: bigint) => t > 0n);
+
+    expect(await p.recourseEscrow.issuerShortfall(p.issuer.address)).to.equal(USDC(7_000));
+    await expect(
+      p.recourseEscrow.connect(p.issuer).postCollateral(otherId, USDC(1))
+    ).to.be.revertedWith("Issuer owes a buyback shortfall");
+
+    // Collateral released on the other invoice pays the shortfall instead of the issuer
+    const issuerBalance = await p.mockUSDC.balanceOf(p.issuer.address);
+    await p.recourseEscrow.releaseCollateral(otherId);
+    expect(await p.mockUSDC.balanceOf(p.issuer.address)).to.equal(issuerBalance);
+    expect(await p.recourseEscrow.buybackShortfall(p.invoiceId)).to.equal(USDC(6_000));
+    expect(await p.invoiceNFT.getAmountDue(p.invoiceId)).to.equal(USDC(6_000));
+
+    await p.mockUSDC.connect(p.issuer).approve(escrow, USDC(10_000));
+    await p.recourseEscrow.connect(p.issuer).payShortfall(p.invoiceId, USDC(10_000));
+
+    expect(await p.recourseEscrow.issuerShortfall(p.issuer.address)).to.equal(0);
+    expect(await p.invoiceNFT.getInvoiceStatus(p.invoiceId)).to.equal(Status.PAID);
+    await expect(p.recourseEscrow.payShortfall(p.invoiceId, 1n)).to.be.revertedWith("No shortfall to pay");
+  });
+});
@@ -0,0 +1,190 @@
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  DAY,
+  USDC,
+  defaultInvoice,
+  deployProtocol,
+  deposit,
+  fundInvoice,
+  mintVerifiedInvoice,
+  payInvoice,
+} from "./fixtures";
+
+describe("TranchePool", function () {
+  describe("Loss waterfall", function () {
+    it("puts a senior vault loss on the junior tranche first", async function () {
+      const p = await loadFixture(deployProtocol);
+      const seniorVault = await p.seniorVault.getAddress();
+      await deposit(p, p.seniorVault, p.alice, USDC(100_000));
+      await deposit(p, p.juniorVault, p.bob, USDC(50_000));
+
+      const invoiceId = await fundInvoice(p, p.seniorVault, USDC(10_000), 30);
+      await defaultInvoice(p, invoiceId);
+
+      const seniorBefore = await p.seniorVault.totalAssets();
+      const juniorBefore = await p.juniorVault.totalAssets();
+      await p.seniorVault.writeOffDefaulted(invoiceId);
+
+      // 10,000 face at a 5% discount: 9,500 of principal lost
+      const allocation = await p.tranchePool.lossAllocations(seniorVault, invoiceId);
+      expect(allocation.seniorLoss).to.equal(0);
+      expect(allocation.juniorLoss).to.equal(USDC(9_500));
+
+      expect(await p.seniorVault.totalAssets()).to.be.closeTo(seniorBefore, USDC(1));
+      expect(await p.juniorVault.totalAssets()).to.be.closeTo(juniorBefore - USDC(9_500), USDC(1));
+      expect(await p.tranchePool.trancheDebt(await p.juniorVault.getAddress())).to.equal(USDC(9_500));
+    });
+
+    it("puts the loss beyond the junior tranche on the senior tranche", async function () {
+      const p = await loadFixture(deployProtocol);
+      await deposit(p, p.seniorVault, p.alice, USDC(100_000));
+      await deposit(p, p.juniorVault, p.bob, USDC(5_000));
+
+      const invoiceId = await fundInvoice(p, p.seniorVault, USDC(20_000), 30);
+      await defaultInvoice(p, invoiceId);
+      await p.seniorVault.writeOffDefaulted(invoiceId);
+
+      const allocation = await p.tranchePool.lossAllocations(await p.seniorVault.getAddress(), invoiceId);
+      expect(allocation.juniorLoss + allocation.seniorLoss).to.equal(USDC(19_000));
+      expect(allocation.juniorLoss).to.be.closeTo(USDC(5_000), USDC(1));
+      expect(await p.juniorVault.totalAssets()).to.be.lessThan(USDC(1));
+    });
+
+    it("restores senior losses first when cash is recovered", async function () {
+      const p = await loadFixture(deployProtocol);
+      await deposit(p, p.seniorVault, p.alice, USDC(100_000));
+      await deposit(p, p.juniorVault, p.bob, USDC(5_000));
+
+      const invoiceId = await fundInvoice(p, p.seniorVault, USDC(20_000), 30);
+      await defaultInvoice(p, invoiceId);
+      await p.seniorVault.writeOffDefaulted(invoiceId);
+
+      const seniorVault = await p.seniorVault.getAddress();
+      const { seniorLoss, juniorLoss } = await p.tranchePool.lossAllocations(seniorVault, invoiceId);
+
+      // The debtor pays part of a defaulted invoice: a recovery for the vault
+      const recovery = seniorLoss + USDC(1_000);
+      await payInvoice(p, invoiceId, recovery);
+
+      const after = await p.tranchePool.lossAllocations(seniorVault, invoiceId);
+      expect(after.seniorLoss).to.equal(0);
+      expect(after.juniorLoss).to.equal(juniorLoss - USDC(1_000));
+      expect(await p.seniorVault.totalRecovered()).to.equal(recovery);
+    });
+
+    it("keeps loss allocations apart when both tranches hold fractions of an invoice", async function () {
+      const p = await loadFixture(deployProtocol);
+      const seniorVault = await p.seniorVault.getAddress();
+      const juniorVault = await p.juniorVault.getAddress();
+      await deposit(p, p.seniorVault, p.alice, USDC(100_000));
+      await deposit(p, p.juniorVault, p.bob, USDC(50_000));
+
+      const invoiceId = await mintVerifiedInvoice(p, null, USDC(10_000), 30);
+      await p.invoiceNFT.connect(p.issuer).fractionalizeInvoice(invoiceId, [seniorVault, juniorVault], [5000, 5000]);
+      await p.seniorVault.addInvoice(invoiceId);
+      await p.juniorVault.addInvoice(invoiceId);
+
+      await defaultInvoice(p, invoiceId);
+      await p.seniorVault.writeOffDefaulted(invoiceId);
+      await p.juniorVault.writeOffDefaulted(invoiceId);
+
+      const senior = await p.tranchePool.lossAllocations(seniorVault, invoiceId);
+      const junior = await p.tranchePool.lossAllocations(juniorVault, invoiceId);
+      expect(senior.juniorLoss).to.equal(USDC(4_750));
+      expect(junior.juniorLoss).to.equal(USDC(4_750));
+
+      // The recovery is split pro rata and each vault unwinds only its own allocation
+      await payInvoice(p, invoiceId, USDC(2_000));
+      expect((await p.tranchePool.lossAllocations(seniorVault, invoiceId)).juniorLoss).to.equal(USDC(3_750));
+      expect((await p.tranchePool.lossAllocations(juniorVault, invoiceId)).juniorLoss).to.equal(USDC(3_750));
+      expect(await p.tranchePool.totalJuniorLoss()).to.equal(USDC(7_500));
+    });
+  });
+
+  describe("Senior coupon", function () {
+    it("accrues the coupon only on senior principal deployed in invoices", async function () {
+      const p = await loadFixture(deployProtocol);
+      await deposit(p, p.seniorVault, p.alice, USDC(100_000));
+      await deposit(p, p.juniorVault, p.bob, USDC(50_000));
+
+      // Idle cash earns no coupon
+      await time.increase(30 * DAY);
+      expect(await p.tranchePool.pendingSeniorYield()).to.equal(0);
+
+      // 50,000 face bought at 47,500 by the senior vault, at the 8% target APY
+      await fundInvoice(p, p.seniorVault, USDC(50_000), 90);
+      expect(await p.tranchePool.seniorAccrualBase()).to.equal(USDC(47_500));
+      await time.increase(365 * DAY);
+      expect(await p.tranchePool.pendingSeniorYield()).to.be.closeTo(USDC(3_800), USDC(1));
+    });
+
+    it("only lets the tranche vaults checkpoint the coupon", async function () {
+      const p = await loadFixture(deployProtocol);
+
+      await expect(p.tranchePool.connect(p.alice).accrueSeniorYield()).to.be.revertedWith(
+        "Caller is not a tranche vault"
+      );
+    });
+
+    it("credits the pending coupon to senior NAV and nets it out of junior NAV", async function () {
+      const p = await loadFixture(deployProtocol);
+      await deposit(p, p.seniorVault, p.alice, USDC(100_000));
+      await deposit(p, p.juniorVault, p.bob, USDC(50_000));
+
+      // The senior vault earns a 1% discount on 50,000; the junior vault 2,000 on 20,000
+      await fundInvoice(p, p.seniorVault, USDC(50_000), 90, 100);
+      await fundInvoice(p, p.juniorVault, USDC(20_000), 90, 1000);
+      await time.increase(30 * DAY);
+
+      const coupon = await p.tranchePool.pendingSeniorYield();
+      const seniorDiscount = await p.seniorVault.getAccruedDiscount();
+      const juniorDiscount = await p.juniorVault.getAccruedDiscount();
+      expect(coupon).to.be.greaterThan(seniorDiscount);
+      expect(coupon).to.be.lessThan(seniorDiscount + juniorDiscount);
+
+      expect(await p.seniorVault.totalAssets()).to.be.closeTo(USDC(100_000) + coupon, USDC(1));
+      expect(await p.juniorVault.totalAssets()).to.be.closeTo(
+        USDC(50_000) + seniorDiscount + juniorDiscount - coupon,
+        USDC(1)
+      );
+    });
+
+    it("caps the senior credit at the discount accrued in both vaults", async function () {
+      const p = await loadFixture(deployProtocol);
+      await deposit(p, p.seniorVault, p.alice, USDC(100_000));
+      await deposit(p, p.juniorVault, p.bob, USDC(50_000));
+
+      // A 0.1% discount accrues far less than the 8% coupon it carries
+      await fundInvoice(p, p.seniorVault, USDC(50_000), 90, 10);
+      await time.increase(30 * DAY);
+
+      const seniorDiscount = await p.seniorVault.getAccruedDiscount();
+      expect(await p.tranchePool.pendingSeniorYield()).to.be.greaterThan(seniorDiscount);
+      expect(await p.seniorVault.totalAssets()).to.be.closeTo(USDC(100_000) + seniorDiscount, 1n);
+      expect(await p.juniorVault.totalAssets()).to.equal(USDC(50_000));
+    });
+
+    it("keeps senior NAV continuous when the coupon is paid out of realized yield", async function () {
+      const p = await loadFixture(deployProtocol);
+      await deposit(p, p.seniorVault, p.alice, USDC(100_000));
+      await deposit(p, p.juniorVault, p.bob, USDC(50_000));
+
+      await fundInvoice(p, p.seniorVault, USDC(50_000), 90, 100);
+      const invoiceId = await fundInvoice(p, p.juniorVault, USDC(20_000), 90, 1000);
+      await time.increase(30 * DAY);
+
+      const seniorBefore = await p.seniorVault.totalAssets();
+
+      await payInvoice(p, invoiceId, USDC(20_000));
+
+      // The senior vault now holds its coupon in cash instead of as a claim
+      expect(await p.tranchePool.seniorYieldOwed()).to.equal(0);
+      expect(await p.seniorVault.totalAssets()).to.be.closeTo(seniorBefore, USDC(1));
+      expect(await p.seniorVault.totalAssets() + (await p.juniorVault.totalAssets())).to.be.closeTo(
+        USDC(152_000) + (await p.seniorVault.getAccruedDiscount()),
+        USDC(1)
+      );
+    });
+  });
+});
@@ -0,0 +1,640 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  DAY,
+  Status,
+  USDC,
+  defaultInvoice,
+  deployProtocol,
+  deposit,
+  fundInvoice,
+  mintInvoice,
+  mintVerifiedInvoice,
+  payInvoice,
+} from "./fixtures";
+
+describe("TrancheVault", function () {
+  describe("Redemption queue", function () {
+    it("escrows queued shares and pays them out once the epoch is processed", async function () {
+      const p = await loadFixture(deployProtocol);
+      const vault = await p.seniorVault.getAddress();
+      await deposit(p, p.seniorVault, p.alice, USDC(10_000));
+
+      const shares = await p.seniorVault.balanceOf(p.alice.address);
+      await p.seniorVault.connect(p.alice).requestRedeem(shares, p.alice.address, p.alice.address);
+      expect(await p.seniorVault.balanceOf(vault)).to.equal(shares);
+      expect(await p.seniorVault.pendingRedeemRequest(0, p.alice.address)).to.equal(shares);
+
+      await p.seniorVault.processRedemptions();
+      expect(await p.seniorVault.claimableRedeemRequest(0, p.alice.address)).to.equal(shares);
+      await expect(p.seniorVault.processRedemptions()).to.be.revertedWith("Redemption epoch still open");
+
+      const balanceBefore = await p.mockUSDC.balanceOf(p.alice.address);
+      await p.seniorVault.connect(p.alice).redeem(shares, p.alice.address, p.alice.address);
+      expect((await p.mockUSDC.balanceOf(p.alice.address)) - balanceBefore).to.be.closeTo(USDC(10_000), USDC(1));
+    });
+
+    it("fills requests pro rata when idle cash is short", async function () {
+      const p = await loadFixture(deployProtocol);
+      await deposit(p, p.seniorVault, p.alice, USDC(10_000));
+      await deposit(p, p.seniorVault, p.bob, USDC(10_000));
+
+      // 14,850 of the 20,000 goes into an invoice
+      await fundInvoice(p, p.seniorVault, USDC(15_000), 60, 100);
+
+      for (const investor of [p.alice, p.bob]) {
+        const shares = await p.seniorVault.balanceOf(investor.address);
+        await p.seniorVault.connect(investor).requestRedeem(shares, investor.address, investor.address);
+      }
+      await p.seniorVault.processRedemptions();
+
+      const alice = await p.seniorVault.getRedeemRequest(p.alice.address);
+      const bob = await p.seniorVault.getRedeemRequest(p.bob.address);
+      expect(alice.claimableAssets).to.be.closeTo(USDC(2_575), USDC(1));
+      expect(bob.claimableAssets).to.be.closeTo(USDC(2_575), USDC(1));
+      expect(alice.pendingShares).to.equal(bob.pendingShares);
+      expect(alice.pendingShares).to.be.greaterThan(0);
+    });
+
+    it("does not let compliance officers move escrowed shares", async function () {
+      const p = await loadFixture(deployProtocol);
+      const vault = await p.seniorVault.getAddress();
+      await deposit(p, p.seniorVault, p.alice, USDC(10_000));
+      await p.seniorVault.setComplianceOfficer(p.officer.address, true);
+
+      const shares = await p.seniorVault.balanceOf(p.alice.address);
+      await p.seniorVault.connect(p.alice).requestRedeem(shares, p.alice.address, p.alice.address);
+
+      await expect(
+        p.seniorVault.connect(p.officer).forcedTransfer(vault, p.bob.address, shares, "court order")
+      ).to.be.revertedWith("Cannot move escrowed shares");
+    });
+  });
+
+  describe("Purchases", function () {
+    it("pays the issuer the discounted value and takes custody of the invoice", async function () {
+      const p = await loadFixture(deployProtocol);
+      const vault = await p.seniorVault.getAddress();
+      await deposit(p, p.seniorVault, p.alice, USDC(100_000));
+      const invoiceId = await mintVerifiedInvoice(p, p.seniorVault, USDC(10_000), 30);
+
+      const issuerBefore = await p.mockUSDC.balanceOf(p.issuer.address);
+      await expect(p.seniorVault.addInvoice(invoiceId))
+        .to.emit(p.seniorVault, "InvoiceAdded")
+        .withArgs(invoiceId, USDC(10_000), USDC(9_500), (t: bigint) => t > 0n);
+
+      expect((await p.mockUSDC.balanceOf(p.issuer.address)) - issuerBefore).to.equal(USDC(9_500));
+      expect(await p.mockUSDC.balanceOf(vault)).to.equal(USDC(90_500));
+      expect(await p.invoiceNFT.ownerOf(invoiceId)).to.equal(vault);
+      expect((await p.invoiceNFT.getInvoice(invoiceId)).status).to.equal(Status.FUNDED);
+      expect(await p.seniorVault.deployedPrincipal()).to.equal(USDC(9_500));
+      // Cash moved into the invoice at cost, so NAV is unchanged
+      expect(await p.seniorVault.totalAssets()).to.equal(USDC(100_000));
+
+      await expect(p.seniorVault.addInvoice(invoiceId)).to.be.revertedWith("Invoice already in vault");
+    });
+
+    it("only buys verified invoices the issuer has approved the vault for", async function () {
+      const p = await loadFixture(deployProtocol);
+      await deposit(p, p.seniorVault, p.alice, USDC(100_000));
+
+      const pendingId = await mintInvoice(p, USDC(10_000), 30);
+      await expect(p.seniorVault.addInvoice(pendingId)).to.be.revertedWith("Invoice not verified");
+
+      const invoiceId = await mintVerifiedInvoice(p, null, USDC(10_000), 30);
+      await expect(p.seniorVault.addInvoice(invoiceId)).to.be.revertedWithCustomError(
+        p.invoiceNFT,
+        "ERC721InsufficientApproval"
+      );
+      await expect(
+        p.seniorVault.connect(p.alice).addInvoice(invoiceId)
+      ).to.be.revertedWithCustomError(p.seniorVault, "OwnableUnauthorizedAccount");
+      expect((await p.invoiceNFT.getInvoice(invoiceId)).status).to.equal(Status.VERIFIED);
+    });
+  });
+
+  describe("Concentration limits", function () {
+    it("caps principal per debtor and frees headroom as it is repaid", async function () {
+      const p = await loadFixture(deployProtocol);
+      await deposit(p, p.seniorVault, p.alice, USDC(100_000));
+      await expect(p.seniorVault.updateConcentrationLimits(10001, 0, 0)).to.be.revertedWith(
+        "Invalid concentration limit"
+      );
+      await p.seniorVault.updateConcentrationLimits(2000, 0, 0);
+      expect(await p.seniorVault.getConcentrationLimits()).to.deep.equal([2000n, 0n, 0n]);
+
+      const invoiceId = await fundInvoice(p, p.seniorVault, USDC(10_000), 30);
+      const maturity = (await time.latest()) + 30 * DAY;
+      const [debtorHeadroom, issuerHeadroom, bucketHeadroom] = await p.seniorVault.getConcentrationHeadroom(
+        p.debtor.address,
+        p.issuer.address,
+        maturity
+      );
+      // 20% of 100,000 less the 9,500 already bought
+      expect(debtorHeadroom).to.equal(USDC(10_500));
+      expect(issuerHeadroom).to.equal(ethers.MaxUint256);
+      expect(bucketHeadroom).to.equal(ethers.MaxUint256);
+
+      const tooLarge = await mintVerifiedInvoice(p, p.seniorVault, USDC(12_000), 30);
+      await expect(p.seniorVault.addInvoice(tooLarge)).to.be.revertedWith("Debtor concentration limit exceeded");
+
+      await payInvoice(p, invoiceId, USDC(10_000));
+      const [freed] = await p.seniorVault.getConcentrationHeadroom(p.debtor.address, p.issuer.address, maturity);
+      expect(freed).to.be.closeTo(USDC(20_000), USDC(1));
+      await p.seniorVault.addInvoice(tooLarge);
+    });
+
+    it("caps principal per issuer and per 30-day maturity bucket", async function () {
+      const p = await loadFixture(deployProtocol);
+      await deposit(p, p.seniorVault, p.alice, USDC(100_000));
+
+      await p.seniorVault.updateConcentrationLimits(0, 1500, 0);
+      const overIssuer = await mintVerifiedInvoice(p, p.seniorVault, USDC(16_000), 30);
+      await expect(p.seniorVault.addInvoice(overIssuer)).to.be.revertedWith("Issuer concentration limit exceeded");
+
+      await p.seniorVault.updateConcentrationLimits(0, 0, 1000);
+      await fundInvoice(p, p.seniorVault, USDC(8_000), 30);
+      const sameBucket = await mintVerifiedInvoice(p, p.seniorVault, USDC(8_000), 30);
+      await expect(p.seniorVault.addInvoice(sameBucket)).to.be.revertedWith("Maturity concentration limit exceeded");
+
+      // Maturing two buckets later spreads the exposure
+      await fundInvoice(p, p.seniorVault, USDC(8_000), 90);
+    });
+  });
+
+  describe("Losses", function () {
+    it("writes defaulted principal off against NAV and writes recoveries back up", async function () {
+      const p = await loadFixture(deployProtocol);
+      await deposit(p, p.juniorVault, p.bob, USDC(100_000));
+      const invoiceId = await fundInvoice(p, p.juniorVault, USDC(20_000), 30);
+      await defaultInvoice(p, invoiceId);
+
+      const navBefore = await p.juniorVault.totalAssets();
+      const priceBefore = await p.juniorVault.getSharePrice();
+      await expect(p.juniorVault.recordLoss(invoiceId, USDC(19_001))).to.be.revertedWith(
+        "Loss exceeds unpaid principal"
+      );
+      await expect(p.juniorVault.recordLoss(invoiceId, USDC(4_000)))
+        .to.emit(p.juniorVault, "LossRecorded")
+        .withArgs(invoiceId, USDC(4_000), (t: bigint) => t > 0n);
+      expect(await p.juniorVault.totalAssets()).to.equal(navBefore - USDC(4_000));
+
+      // The rest of the 19,000 paid for the invoice goes once anyone writes it off
+      await p.juniorVault.connect(p.alice).writeOffDefaulted(invoiceId);
+      expect(await p.juniorVault.totalAssets()).to.equal(navBefore - USDC(19_000));
+      expect(await p.juniorVault.getSharePrice()).to.be.lessThan(priceBefore);
+      expect((await p.juniorVault.getVaultStats()).sharePrice).to.equal(await p.juniorVault.getSharePrice());
+      await expect(p.juniorVault.writeOffDefaulted(invoiceId)).to.be.revertedWith("Nothing to write off");
+
+      // Cash recovered from collections restores it
+      await p.mockUSDC.mint(p.deployer.address, USDC(19_000));
+      await p.mockUSDC.approve(await p.juniorVault.getAddress(), USDC(19_000));
+      await expect(p.juniorVault.recordRecovery(invoiceId, USDC(19_000)))
+        .to.emit(p.juniorVault, "RecoveryRecorded");
+      expect(await p.juniorVault.totalAssets()).to.equal(navBefore);
+      expect(await p.juniorVault.getSharePrice()).to.equal(priceBefore);
+    });
+  });
+
+  describe("Fees", function () {
+    it("charges the management fee in shares worth the fee", async function () {
+      const p = await loadFixture(deployProtocol);
+      await p.seniorVault.setTransferExempt(p.officer.address, true);
+      await p.seniorVault.updateFees(200, 0, p.officer.address);
+      await deposit(p, p.seniorVault, p.alice, USDC(100_000));
+
+      await time.increase(365 * DAY);
+      await deposit(p, p.seniorVault, p.bob, USDC(100));
+
+      const feeShares = await p.seniorVault.balanceOf(p.officer.address);
+      expect(await p.seniorVault.convertToAssets(feeShares)).to.be.closeTo(USDC(2_000), USDC(1));
+      expect((await p.seniorVault.fees()).totalManagementFees).to.be.closeTo(USDC(2_000), USDC(1));
+    });
+
+    it("snapshots the hurdle rate at each accrual for the period that follows", async function () {
+      const p = await loadFixture(deployProtocol);
+      await p.seniorVault.setTransferExempt(p.officer.address, true);
+      await p.seniorVault.updateFees(0, 2000, p.officer.address);
+      // 4% idle, 8% at the 80% kink
+      await p.seniorVault.updateRateCurve(400, 400, 8000, 2000);
+
+      await deposit(p, p.seniorVault, p.alice, USDC(100_000));
+      const idleRate = await p.seniorVault.targetAPY();
+      expect((await p.seniorVault.fees()).hurdleAPY).to.equal(idleRate);
+
+      // Deploying capital raises the target APY, but not the hurdle already in force
+      await fundInvoice(p, p.seniorVault, USDC(80_000), 90);
+      expect(await p.seniorVault.targetAPY()).to.be.greaterThan(idleRate);
+      expect((await p.seniorVault.fees()).hurdleAPY).to.equal(idleRate);
+
+      await time.increase(30 * DAY);
+      await deposit(p, p.seniorVault, p.bob, USDC(100));
+      expect((await p.seniorVault.fees()).hurdleAPY).to.be.closeTo(await p.seniorVault.targetAPY(), 1);
+    });
+
+    it("keeps the high-water mark while the price stays below the hurdle", async function () {
+      const p = await loadFixture(deployProtocol);
+      await p.juniorVault.setTransferExempt(p.officer.address, true);
+      await p.juniorVault.updateFees(0, 2000, p.officer.address);
+      await deposit(p, p.juniorVault, p.alice, USDC(100_000));
+      await deposit(p, p.juniorVault, p.bob, USDC(100));
+      const mark = (await p.juniorVault.fees()).highWaterMark;
+
+      // About 4% a year on the vault, under the 20% hurdle
+      await fundInvoice(p, p.juniorVault, USDC(20_000), 90);
+      await time.increase(45 * DAY);
+      await deposit(p, p.juniorVault, p.bob, USDC(100));
+
+      const fees = await p.juniorVault.fees();
+      expect(fees.totalPerformanceFees).to.equal(0n);
+      expect(fees.highWaterMark).to.equal(mark);
+      // The hurdle keeps growing from the mark instead of restarting at the new price
+      expect(fees.hurdlePrice).to.be.closeTo(mark + (mark * 2000n * 45n) / (365n * 10000n), 1n);
+
+      // Gains above the accumulated hurdle are charged and move the mark
+      await fundInvoice(p, p.juniorVault, USDC(60_000), 30, 1500);
+      await time.increase(30 * DAY);
+      await deposit(p, p.juniorVault, p.bob, USDC(100));
+      const charged = await p.juniorVault.fees();
+      expect(charged.totalPerformanceFees).to.be.greaterThan(0n);
+      expect(charged.highWaterMark).to.be.greaterThan(mark);
+      expect(charged.hurdlePrice).to.equal(charged.highWaterMark);
+    });
+  });
+
+  describe("Portfolio", function () {
+    it("accrues the discount of every active invoice from the running rate", async function () {
+      const p = await loadFixture(deployProtocol);
+      await deposit(p, p.seniorVault, p.alice, USDC(100_000));
+
+      const invoiceIds = [];
+      for (const maturityDays of [10, 30, 60]) {
+        invoiceIds.push(await fundInvoice(p, p.seniorVault, USDC(10_000), maturityDays));
+      }
+      await time.increase(20 * DAY);
+
+      // The first invoice has accrued its whole 500 of discount, the others part of theirs
+      const accruals = await Promise.all(invoiceIds.map((id) => p.seniorVault.getInvoiceAccrual(id)));
+      expect(accruals[0]).to.be.closeTo(USDC(500), 1n);
+      expect(accruals[1]).to.be.closeTo(USDC(333), USDC(10));
+      expect(await p.seniorVault.getAccruedDiscount()).to.be.closeTo(
+        accruals.reduce((a, b) => a + b, 0n),
+        3n
+      );
+      // NAV carries it, split between the tranches by the senior coupon
+      expect(await p.seniorVault.totalAssets() + (await p.juniorVault.totalAssets())).to.be.closeTo(
+        USDC(100_000) + (await p.seniorVault.getAccruedDiscount()),
+        USDC(1)
+      );
+
+      // Repaying the matured invoice swaps its accrual for cash yield
+      await payInvoice(p, invoiceIds[0], USDC(10_000));
+      expect(await p.seniorVault.getInvoiceAccrual(invoiceIds[0])).to.equal(0);
+      expect(await p.seniorVault.getAccruedDiscount()).to.be.closeTo(
+        (await p.seniorVault.getInvoiceAccrual(invoiceIds[1])) + (await p.seniorVault.getInvoiceAccrual(invoiceIds[2])),
+        2n
+      );
+    });
+
+    it("stops accruing the discount of an invoice once it defaults", async function () {
+      const p = await loadFixture(deployProtocol);
+      await deposit(p, p.seniorVault, p.alice, USDC(100_000));
+      const defaulted = await fundInvoice(p, p.seniorVault, USDC(10_000), 30);
+      const performing = await fundInvoice(p, p.seniorVault, USDC(10_000), 120);
+
+      await defaultInvoice(p, defaulted);
+      expect(await p.seniorVault.getInvoiceAccrual(defaulted)).to.equal(0);
+
+      const accrued = await p.seniorVault.getAccruedDiscount();
+      expect(accrued).to.be.closeTo(await p.seniorVault.getInvoiceAccrual(performing), 1n);
+
+      await time.increase(10 * DAY);
+      expect(await p.seniorVault.getAccruedDiscount()).to.be.greaterThan(accrued);
+      expect(await p.seniorVault.getAccruedDiscount()).to.be.closeTo(
+        await p.seniorVault.getInvoiceAccrual(performing),
+        1n
+      );
+    });
+  });
+
+  describe("Rate curve", function () {
+    it("keeps the fixed target APY until a curve is set", async function () {
+      const p = await loadFixture(deployProtocol);
+      await deposit(p, p.seniorVault, p.alice, USDC(100_000));
+      await fundInvoice(p, p.seniorVault, USDC(40_000), 60);
+
+      expect(await p.seniorVault.targetAPY()).to.equal(800);
+      await expect(p.seniorVault.updateRateCurve(200, 600, 10000, 4000)).to.be.revertedWith("Invalid kink");
+      await expect(p.seniorVault.updateRateCurve(5000, 3000, 8000, 4000)).to.be.revertedWith("Invalid APY");
+      await expect(
+        p.seniorVault.connect(p.alice).updateRateCurve(200, 600, 8000, 4000)
+      ).to.be.revertedWithCustomError(p.seniorVault, "OwnableUnauthorizedAccount");
+    });
+
+    it("prices utilization gently up to the kink and steeply above it", async function () {
+      const p = await loadFixture(deployProtocol);
+      // 2% idle, 8% at the 80% kink, 48% fully deployed
+      await p.seniorVault.updateRateCurve(200, 600, 8000, 4000);
+      await deposit(p, p.seniorVault, p.alice, USDC(100_000));
+      expect(await p.seniorVault.getUtilization()).to.equal(0);
+      expect(await p.seniorVault.targetAPY()).to.equal(200);
+
+      // 38,000 of 100,000 deployed
+      await fundInvoice(p, p.seniorVault, USDC(40_000), 60);
+      expect(await p.seniorVault.getUtilization()).to.equal(3800);
+      expect(await p.seniorVault.targetAPY()).to.equal(200 + (600 * 3800) / 8000);
+
+      // 85,500 deployed, 5.5 points past the kink
+      await fundInvoice(p, p.seniorVault, USDC(50_000), 60);
+      expect(await p.seniorVault.getUtilization()).to.equal(8550);
+      expect(await p.seniorVault.targetAPY()).to.equal(200 + 600 + (4000 * 550) / 2000);
+
+      // Switching the curve off restores the fixed rate
+      await p.seniorVault.updateRateCurve(0, 0, 0, 0);
+      expect(await p.seniorVault.targetAPY()).to.equal(800);
+    });
+
+    it("refuses purchases that would leave less than the idle cash buffer", async function () {
+      const p = await loadFixture(deployProtocol);
+      await expect(p.seniorVault.updateIdleCashBuffer(10001)).to.be.revertedWith("Invalid buffer");
+      await p.seniorVault.updateIdleCashBuffer(2000);
+      await deposit(p, p.seniorVault, p.alice, USDC(100_000));
+
+      // Buying at 85,500 would leave 14,500 of the 20,000 buffer
+      const tooLarge = await mintVerifiedInvoice(p, p.seniorVault, USDC(90_000), 60);
+      await expect(p.seniorVault.addInvoice(tooLarge)).to.be.revertedWith("Idle cash buffer breached");
+
+      await fundInvoice(p, p.seniorVault, USDC(80_000), 60);
+      expect(await p.seniorVault.deployedPrincipal()).to.equal(USDC(76_000));
+    });
+  });
+
+  describe("Strategy", function () {
+    async function strategyFixture() {
+      const p = await deployProtocol();
+      await deposit(p, p.seniorVault, p.alice, USDC(100_000));
+
+      // 10% APY on 90,000 lent, with a reserve to pay the interest from
+      const strategy = await (await ethers.getContractFactory("MockYieldStrategy")).deploy(
+        await p.seniorVault.getAddress(),
+        1000
+      );
+      await p.mockUSDC.mint(await strategy.getAddress(), USDC(100_000));
+      await p.seniorVault.setStrategy(await strategy.getAddress());
+      await p.seniorVault.rebalanceStrategy(USDC(90_000));
+
+      return { ...p, strategy };
+    }
+
+    it("books strategy gains as yield through the waterfall once harvested", async function () {
+      const p = await loadFixture(strategyFixture);
+      await time.increase(365 * DAY);
+
+      // NAV carries the strategy at the principal lent until the gain is harvested
+      expect(await p.strategy.totalAssets()).to.be.closeTo(USDC(99_000), USDC(1));
+      expect(await p.seniorVault.totalAssets()).to.equal(USDC(100_000));
+
+      await expect(p.seniorVault.harvestStrategy()).to.emit(p.seniorVault, "YieldDistributed");
+      expect(await p.seniorVault.strategyPrincipal()).to.equal(USDC(90_000));
+      expect((await p.tranchePool.totalSeniorYield()) + (await p.tranchePool.totalJuniorYield())).to.be.closeTo(
+        USDC(9_000),
+        USDC(1)
+      );
+      expect(await p.seniorVault.totalAssets() + (await p.juniorVault.totalAssets())).to.be.closeTo(
+        USDC(109_000),
+        USDC(1)
+      );
+    });
+
+    it("fills redemptions from the cash a capped strategy can return", async function () {
+      const p = await loadFixture(strategyFixture);
+      await p.strategy.setLiquidityCap(USDC(20_000));
+
+      const shares = await p.seniorVault.balanceOf(p.alice.address);
+      await p.seniorVault.connect(p.alice).requestRedeem(shares, p.alice.address, p.alice.address);
+      await p.seniorVault.processRedemptions();
+
+      // 10,000 idle plus the 20,000 the strategy could return
+      const request = await p.seniorVault.getRedeemRequest(p.alice.address);
+      expect(request.claimableAssets).to.be.closeTo(USDC(30_000), USDC(1));
+      expect(await p.seniorVault.strategyPrincipal()).to.equal(USDC(70_000));
+    });
+
+    it("checks the idle cash buffer against what the strategy can return", async function () {
+      const p = await loadFixture(strategyFixture);
+      await p.seniorVault.updateIdleCashBuffer(1000);
+      await p.strategy.setLiquidityCap(USDC(5_000));
+
+      // 15,000 can be paid out, so buying at 9,500 would leave less than 10,000 idle
+      const invoiceId = await mintVerifiedInvoice(p, p.seniorVault, USDC(10_000), 30);
+      await expect(p.seniorVault.addInvoice(invoiceId)).to.be.revertedWith("Idle cash buffer breached");
+
+      await p.strategy.setLiquidityCap(0);
+      await p.seniorVault.addInvoice(invoiceId);
+      expect(await p.seniorVault.deployedPrincipal()).to.equal(USDC(9_500));
+    });
+  });
+
+  describe("Early repayment", function () {
+    const DEBTOR = 0;
+    const ISSUER = 1;
+
+    // Share of the discount not earned by `paidAt`; maturity falls a few seconds short of the term after purchase
+    function unearnedDiscount(
+      allocation: { faceValue: bigint; purchasePrice: bigint; addedAt: bigint; maturityDate: bigint },
+      paidAt: bigint
+    ) {
+      const { faceValue, purchasePrice, addedAt, maturityDate } = allocation;
+      return ((faceValue - purchasePrice) * (maturityDate - paidAt)) / (maturityDate - addedAt);
+    }
+
+    it("rebates the unearned discount to the debtor and records the real holding period", async function () {
+      const p = await loadFixture(deployProtocol);
+      await expect(p.seniorVault.updateEarlyRepaymentTerms(10001, DEBTOR)).to.be.revertedWith("Invalid rebate");
+      await p.seniorVault.updateEarlyRepaymentTerms(10000, DEBTOR);
+      await deposit(p, p.seniorVault, p.alice, USDC(100_000));
+      const invoiceId = await fundInvoice(p, p.seniorVault, USDC(10_000), 100);
+      const funded = await p.seniorVault.allocations(invoiceId);
+
+      // Repaid a quarter of the way through: roughly 375 of the 500 discount was not earned
+      const paidAt = funded.addedAt + BigInt(25 * DAY);
+      const rebate = unearnedDiscount(funded, paidAt);
+      expect(rebate).to.be.closeTo(USDC(375), USDC(1));
+      await p.mockUSDC.connect(p.debtor).approve(await p.invoiceNFT.getAddress(), USDC(10_000));
+      const debtorBefore = await p.mockUSDC.balanceOf(p.debtor.address);
+      await time.setNextBlockTimestamp(paidAt);
+      await expect(p.invoiceNFT.connect(p.debtor).payInvoice(invoiceId, USDC(10_000)))
+        .to.emit(p.seniorVault, "EarlyRepaymentRebatePaid")
+        .withArgs(invoiceId, p.debtor.address, rebate, paidAt);
+      expect(debtorBefore - (await p.mockUSDC.balanceOf(p.debtor.address))).to.equal(USDC(10_000) - rebate);
+
+      const allocation = await p.seniorVault.allocations(invoiceId);
+      const earned = USDC(500) - rebate;
+      expect(allocation.rebatePaid).to.equal(rebate);
+      expect(allocation.yieldReceived).to.equal(earned);
+      expect(allocation.repaidAt).to.equal(paidAt);
+      // Annualised over the 25 days the 9,500 was outstanding, not the 100-day term
+      expect(await p.seniorVault.getRealizedAPY()).to.equal(
+        (earned * BigInt(365 * DAY) * 10000n) / (USDC(9_500) * BigInt(25 * DAY))
+      );
+    });
+
+    it("pays a partial rebate to the issuer, and none at maturity", async function () {
+      const p = await loadFixture(deployProtocol);
+      await p.seniorVault.updateEarlyRepaymentTerms(5000, ISSUER);
+      await deposit(p, p.seniorVault, p.alice, USDC(100_000));
+
+      const earlyId = await fundInvoice(p, p.seniorVault, USDC(10_000), 100);
+      const funded = await p.seniorVault.allocations(earlyId);
+      const paidAt = funded.addedAt + BigInt(50 * DAY);
+      await p.mockUSDC.connect(p.debtor).approve(await p.invoiceNFT.getAddress(), USDC(10_000));
+      await time.setNextBlockTimestamp(paidAt);
+      await expect(p.invoiceNFT.connect(p.debtor).payInvoice(earlyId, USDC(10_000)))
+        .to.emit(p.seniorVault, "EarlyRepaymentRebatePaid")
+        .withArgs(earlyId, p.issuer.address, unearnedDiscount(funded, paidAt) / 2n, paidAt);
+
+      const onTimeId = await fundInvoice(p, p.seniorVault, USDC(10_000), 30);
+      await time.increaseTo((await p.seniorVault.allocations(onTimeId)).maturityDate);
+      await payInvoice(p, onTimeId, USDC(10_000));
+      const allocation = await p.seniorVault.allocations(onTimeId);
+      expect(allocation.rebatePaid).to.equal(0);
+      expect(allocation.yieldReceived).to.equal(USDC(500));
+    });
+  });
+
+  describe("Settlement", function () {
+    it("routes repayments to the vault holding the invoice, principal before yield", async function () {
+      const p = await loadFixture(deployProtocol);
+      const vault = await p.seniorVault.getAddress();
+      await deposit(p, p.seniorVault, p.alice, USDC(100_000));
+      const invoiceId = await fundInvoice(p, p.seniorVault, USDC(10_000), 30);
+
+      // Anyone can pay for the debtor
+      await p.mockUSDC.connect(p.bob).approve(await p.invoiceNFT.getAddress(), USDC(6_000));
+      await expect(p.invoiceNFT.connect(p.bob).payInvoice(invoiceId, USDC(6_000)))
+        .to.emit(p.seniorVault, "InvoicePaymentBooked")
+        .withArgs(invoiceId, USDC(6_000), 0, (t: bigint) => t > 0n);
+      expect(await p.mockUSDC.balanceOf(vault)).to.equal(USDC(96_500));
+      expect(await p.seniorVault.deployedPrincipal()).to.equal(USDC(3_500));
+      expect(await p.invoiceNFT.getInvoiceStatus(invoiceId)).to.equal(Status.PARTIAL_PAID);
+
+      await p.mockUSDC.connect(p.debtor).approve(await p.invoiceNFT.getAddress(), USDC(4_001));
+      await expect(p.invoiceNFT.connect(p.debtor).payInvoice(invoiceId, USDC(4_001))).to.be.revertedWith(
+        "Payment exceeds amount due"
+      );
+      await expect(p.invoiceNFT.connect(p.debtor).payInvoice(invoiceId, USDC(4_000)))
+        .to.emit(p.seniorVault, "InvoicePaymentBooked")
+        .withArgs(invoiceId, USDC(3_500), USDC(500), (t: bigint) => t > 0n);
+
+      const allocation = await p.seniorVault.allocations(invoiceId);
+      expect(allocation.principalRepaid).to.equal(USDC(9_500));
+      expect(allocation.yieldReceived).to.equal(USDC(500));
+      expect(await p.seniorVault.deployedPrincipal()).to.equal(0);
+      // The yield beyond the senior coupon is paid over to the junior tranche
+      expect(
+        (await p.mockUSDC.balanceOf(vault)) + (await p.mockUSDC.balanceOf(await p.juniorVault.getAddress()))
+      ).to.equal(USDC(100_500));
+      expect(await p.invoiceNFT.getInvoiceStatus(invoiceId)).to.equal(Status.PAID);
+    });
+
+    it("lets anyone settle an invoice repaid on-chain", async function () {
+      const p = await loadFixture(deployProtocol);
+      await deposit(p, p.seniorVault, p.alice, USDC(100_000));
+      const invoiceId = await fundInvoice(p, p.seniorVault, USDC(10_000), 30);
+
+      await payInvoice(p, invoiceId, USDC(10_000));
+      await expect(p.seniorVault.connect(p.bob).settle(invoiceId))
+        .to.emit(p.seniorVault, "InvoiceSettled")
+        .withArgs(invoiceId, Status.PAID, USDC(500), 0, p.bob.address, (t: bigint) => t > 0n);
+
+      expect(await p.seniorVault.containsInvoice(invoiceId)).to.equal(false);
+      expect(await p.seniorVault.deployedPrincipal()).to.equal(0);
+      // The yield beyond the senior coupon went to the junior tranche
+      expect(await p.seniorVault.totalAssets() + (await p.juniorVault.totalAssets())).to.be.closeTo(
+        USDC(100_500),
+        USDC(1)
+      );
+    });
+
+    it("refuses to settle a payment recorded off-chain until its cash arrives", async function () {
+      const p = await loadFixture(deployProtocol);
+      await deposit(p, p.seniorVault, p.alice, USDC(100_000));
+      const invoiceId = await fundInvoice(p, p.seniorVault, USDC(10_000), 30);
+
+      await p.invoiceNFT.recordPayment(invoiceId, USDC(10_000));
+      expect(await p.invoiceNFT.getInvoiceStatus(invoiceId)).to.equal(Status.PAID);
+      await expect(p.seniorVault.settle(invoiceId)).to.be.revertedWith("Principal not received");
+
+      // The cash is split into principal and yield like an on-chain payment
+      await p.mockUSDC.connect(p.debtor).approve(await p.seniorVault.getAddress(), USDC(10_000));
+      await expect(p.seniorVault.connect(p.debtor).collectPayment(invoiceId, USDC(10_000)))
+        .to.emit(p.seniorVault, "InvoicePaymentBooked")
+        .withArgs(invoiceId, USDC(9_500), USDC(500), (t: bigint) => t > 0n);
+
+      await expect(p.seniorVault.settle(invoiceId)).to.emit(p.seniorVault, "InvoiceSettled");
+      expect(await p.seniorVault.totalDefaultLoss()).to.equal(0);
+      // The yield beyond the senior coupon went to the junior tranche
+      expect(await p.seniorVault.totalAssets() + (await p.juniorVault.totalAssets())).to.be.closeTo(
+        USDC(100_500),
+        USDC(1)
+      );
+    });
+
+    it("only collects cash for payments recorded but not yet received", async function () {
+      const p = await loadFixture(deployProtocol);
+      await deposit(p, p.seniorVault, p.alice, USDC(100_000));
+      const invoiceId = await fundInvoice(p, p.seniorVault, USDC(10_000), 30);
+      await p.mockUSDC.connect(p.debtor).approve(await p.seniorVault.getAddress(), USDC(10_000));
+
+      await expect(p.seniorVault.connect(p.debtor).collectPayment(invoiceId, USDC(1_000))).to.be.revertedWith(
+        "Payment exceeds amount recorded"
+      );
+
+      await p.invoiceNFT.recordPayment(invoiceId, USDC(4_000));
+      await expect(p.seniorVault.connect(p.debtor).collectPayment(invoiceId, USDC(5_000))).to.be.revertedWith(
+        "Payment exceeds amount recorded"
+      );
+      await p.seniorVault.connect(p.debtor).collectPayment(invoiceId, USDC(4_000));
+      await expect(p.seniorVault.connect(p.debtor).collectPayment(invoiceId, 1n)).to.be.revertedWith(
+        "Payment exceeds amount recorded"
+      );
+      expect((await p.seniorVault.allocations(invoiceId)).principalRepaid).to.equal(USDC(4_000));
+    });
+
+    it("writes principal that never arrived off through the waterfall when the owner removes it", async function () {
+      const p = await loadFixture(deployProtocol);
+      await deposit(p, p.seniorVault, p.alice, USDC(100_000));
+      await deposit(p, p.juniorVault, p.bob, USDC(50_000));
+      const invoiceId = await fundInvoice(p, p.seniorVault, USDC(10_000), 30);
+
+      await p.invoiceNFT.recordPayment(invoiceId, USDC(10_000));
+      await expect(p.seniorVault.removeInvoice(invoiceId, "payment never received"))
+        .to.emit(p.seniorVault, "LossRecorded")
+        .withArgs(invoiceId, USDC(9_500), (t: bigint) => t > 0n);
+
+      const allocation = await p.tranchePool.lossAllocations(await p.seniorVault.getAddress(), invoiceId);
+      expect(allocation.juniorLoss).to.equal(USDC(9_500));
+
+      // Cash that turns up later is a recovery
+      await p.mockUSDC.connect(p.debtor).approve(await p.seniorVault.getAddress(), USDC(10_000));
+      await p.seniorVault.connect(p.debtor).collectPayment(invoiceId, USDC(10_000));
+      expect(await p.seniorVault.totalRecovered()).to.equal(USDC(9_500));
+    });
+
+    it("writes off unrecognized defaulted principal when a defaulted invoice is settled", async function () {
+      const p = await loadFixture(deployProtocol);
+      await deposit(p, p.seniorVault, p.alice, USDC(100_000));
+      await deposit(p, p.juniorVault, p.bob, USDC(50_000));
+      const invoiceId = await fundInvoice(p, p.seniorVault, USDC(10_000), 30);
+
+      await payInvoice(p, invoiceId, USDC(4_000));
+      await defaultInvoice(p, invoiceId);
+
+      await expect(p.seniorVault.settle(invoiceId))
+        .to.emit(p.seniorVault, "InvoiceSettled")
+        .withArgs(invoiceId, Status.DEFAULTED, 0, USDC(5_500), p.deployer.address, (t: bigint) => t > 0n);
+      expect(await p.seniorVault.deployedPrincipal()).to.equal(0);
+    });
+  });
+});
@@ -0,0 +1,235 @@
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { TrancheVault } from "../typechain-types";
+
+/**
+ * Shared deployment for the behaviour tests
+ *
+ * Mirrors scripts/deploy.ts without the ZK verifier and strategies: both vaults are
+ * linked into a TranchePool, the deployer holds every InvoiceNFT and KYCGate role,
+ * and alice/bob are KYC tier 2 investors with USDC to deposit.
+ */
+
+export const USDC = (amount: string | number) => ethers.parseUnits(amount.toString(), 6);
+export const DAY = 24 * 60 * 60;
+
+// InvoiceNFT.InvoiceStatus
+export const Status = {
+  PENDING: 0n,
+  VERIFIED: 1n,
+  FUNDED: 2n,
+  PAID: 3n,
+  DEFAULTED: 4n,
+  PARTIAL_PAID: 5n,
+  ACKNOWLEDGED: 6n,
+  OVERDUE: 7n,
+  WRITTEN_OFF: 8n,
+};
+
+export async function deployProtocol() {
+  const [deployer, issuer, debtor, alice, bob, officer] = await ethers.getSigners();
+
+  const mockUSDC = await (await ethers.getContractFactory("MockUSDC")).deploy();
+
+  const invoiceMetadata = await (await ethers.getContractFactory("InvoiceMetadata")).deploy();
+  const invoiceFractions = await (await ethers.getContractFactory("InvoiceFractions")).deploy();
+  const invoiceCollections = await (await ethers.getContractFactory("InvoiceCollections")).deploy();
+  const debtorRegistry = await (await ethers.getContractFactory("DebtorRegistry")).deploy();
+  const invoiceNFT = await (
+    await ethers.getContractFactory("InvoiceNFT", {
+      libraries: {
+        InvoiceMetadata: await invoiceMetadata.getAddress(),
+        InvoiceFractions: await invoiceFractions.getAddress(),
+        InvoiceCollections: await invoiceCollections.getAddress(),
+        DebtorRegistry: await debtorRegistry.getAddress(),
+      },
+    })
+  ).deploy();
+
+  const kycGate = await (await ethers.getContractFactory("KYCGate")).deploy();
+
+  const TrancheVault = await ethers.getContractFactory("TrancheVault", {
+    libraries: {
+      RedemptionQueue: await (await (await ethers.getContractFactory("RedemptionQueue")).deploy()).getAddress(),
+      VaultFees: await (await (await ethers.getContractFactory("VaultFees")).deploy()).getAddress(),
+      InvoicePortfolio: await (await (await ethers.getContractFactory("InvoicePortfolio")).deploy()).getAddress(),
+      RateCurve: await (await (await ethers.getContractFactory("RateCurve")).deploy()).getAddress(),
+      StrategyAllocator: await (await (await ethers.getContractFactory("StrategyAllocator")).deploy()).getAddress(),
+    },
+  });
+  const args = [await invoiceNFT.getAddress(), await kycGate.getAddress(), await mockUSDC.getAddress()] as const;
+  const seniorVault = await TrancheVault.deploy(...args, true, 800, "Senior Invoice Vault", "siVault");
+  const juniorVault = await TrancheVault.deploy(...args, false, 2000, "Junior Invoice Vault", "jiVault");
+
+  const tranchePool = await (await ethers.getContractFactory("TranchePool")).deploy(
+    await seniorVault.getAddress(),
+    await juniorVault.getAddress()
+  );
+  const recourseEscrow = await (await ethers.getContractFactory("RecourseEscrow")).deploy(
+    await invoiceNFT.getAddress()
+  );
+
+  await invoiceNFT.grantRole(await invoiceNFT.ISSUER_ROLE(), issuer.address);
+  await invoiceNFT.grantRole(await invoiceNFT.ORACLE_ROLE(), deployer.address);
+  await invoiceNFT.grantRole(await invoiceNFT.VAULT_ROLE(), await seniorVault.getAddress());
+  await invoiceNFT.grantRole(await invoiceNFT.VAULT_ROLE(), await juniorVault.getAddress());
+  await invoiceNFT.grantRole(await invoiceNFT.RECOURSE_ROLE(), await recourseEscrow.getAddress());
+  await invoiceNFT.setPaymentToken(await mockUSDC.getAddress());
+  await invoiceNFT.registerDebtor(debtor.address, "Acme Corp", USDC(10_000_000));
+
+  await seniorVault.setTranchePool(await tranchePool.getAddress());
+  await juniorVault.setTranchePool(await tranchePool.getAddress());
+
+  await kycGate.grantRole(await kycGate.KYC_PROVIDER_ROLE(), deployer.address);
+  const expiry = (await time.latest()) + 5 * 365 * DAY;
+  const country = ethers.id("US");
+  for (const investor of [alice, bob]) {
+    await kycGate.verifyUser(investor.address, expiry, country, 10, `kyc-${investor.address}`, 2);
+  }
+
+  for (const account of [issuer, debtor, alice, bob]) {
+    await mockUSDC.mint(account.address, USDC(1_000_000));
+  }
+
+  return {
+    deployer,
+    issuer,
+    debtor,
+    alice,
+    bob,
+    officer,
+    mockUSDC,
+    invoiceNFT,
+    kycGate,
+    seniorVault,
+    juniorVault,
+    tranchePool,
+    recourseEscrow,
+  };
+}
+
+export type Protocol = Awaited<ReturnType<typeof deployProtocol>>;
+
+/**
+ * Deposit into a vault from an investor
+ */
+export async function deposit(p: Protocol, vault: TrancheVault, investor: typeof p.alice, amount: bigint) {
+  await p.mockUSDC.connect(investor).approve(await vault.getAddress(), amount);
+  await vault.connect(investor).deposit(amount, investor.address);
+}
+
+/**
+ * Mint a PENDING invoice from the issuer against the fixture debtor
+ * @returns The invoice token ID
+ */
+export async function mintInvoice(
+  p: Protocol,
+  faceValue: bigint,
+  maturityDays: number,
+  discountBps = 500
+): Promise<bigint> {
+  const maturity = (await time.latest()) + maturityDays * DAY;
+  const terms = [faceValue, maturity, p.debtor.address, ethers.id(`invoice-${maturity}`), "Acme Corp", discountBps] as const;
+
+  const tokenId = await p.invoiceNFT.connect(p.issuer).mintInvoice.staticCall(...terms);
+  await p.invoiceNFT.connect(p.issuer).mintInvoice(...terms);
+  return tokenId;
+}
+
+/**
+ * Issuer-signed gasless mint request for the fixture debtor, valid for a day
+ * @returns The request and the signer's EIP-712 signature over it
+ */
+export async function signMintRequest(
+  p: Protocol,
+  signer: typeof p.issuer,
+  faceValue: bigint,
+  maturityDays: number,
+  invoiceHash: string
+) {
+  const request = {
+    faceValue,
+    maturityDate: BigInt((await time.latest()) + maturityDays * DAY),
+    debtor: p.debtor.address,
+    invoiceHash,
+    debtorName: "Acme Corp",
+    discountRate: 500n,
+    issuer: signer.address,
+    nonce: await p.invoiceNFT.mintNonces(signer.address),
+    deadline: BigInt((await time.latest()) + DAY),
+  };
+  const domain = {
+    name: "InvoiceNFT",
+    version: "1",
+    chainId: (await ethers.provider.getNetwork()).chainId,
+    verifyingContract: await p.invoiceNFT.getAddress(),
+  };
+  const types = {
+    MintRequest: [
+      { name: "faceValue", type: "uint256" },
+      { name: "maturityDate", type: "uint256" },
+      { name: "debtor", type: "address" },
+      { name: "invoiceHash", type: "bytes32" },
+      { name: "debtorName", type: "string" },
+      { name: "discountRate", type: "uint256" },
+      { name: "issuer", type: "address" },
+      { name: "nonce", type: "uint256" },
+      { name: "deadline", type: "uint256" },
+    ],
+  };
+  return { request, signature: await signer.signTypedData(domain, types, request) };
+}
+
+/**
+ * Mint and verify an invoice from the issuer, approved for the given vault to buy
+ * @returns The invoice token ID
+ */
+export async function mintVerifiedInvoice(
+  p: Protocol,
+  vault: TrancheVault | null,
+  faceValue: bigint,
+  maturityDays: number,
+  discountBps = 500
+): Promise<bigint> {
+  const tokenId = await mintInvoice(p, faceValue, maturityDays, discountBps);
+  await p.invoiceNFT.verifyInvoice(tokenId);
+
+  if (vault) {
+    await p.invoiceNFT.connect(p.issuer).approve(await vault.getAddress(), tokenId);
+  }
+  return tokenId;
+}
+
+/**
+ * Mint, verify and buy an invoice into a vault
+ * @returns The invoice token ID
+ */
+export async function fundInvoice(
+  p: Protocol,
+  vault: TrancheVault,
+  faceValue: bigint,
+  maturityDays: number,
+  discountBps = 500
+): Promise<bigint> {
+  const tokenId = await mintVerifiedInvoice(p, vault, faceValue, maturityDays, discountBps);
+  await vault.addInvoice(tokenId);
+  return tokenId;
+}
+
+/**
+ * Pay an invoice on-chain from the debtor
+ */
+export async function payInvoice(p: Protocol, tokenId: bigint, amount: bigint) {
+  await p.mockUSDC.connect(p.debtor).approve(await p.invoiceNFT.getAddress(), amount);
+  await p.invoiceNFT.connect(p.debtor).payInvoice(tokenId, amount);
+}
+
+/**
+ * Move past maturity and the grace period, then default the invoice
+ */
+export async function defaultInvoice(p: Protocol, tokenId: bigint) {
+  const invoice = await p.invoiceNFT.getInvoice(tokenId);
+  const gracePeriod = await p.invoiceNFT.gracePeriod();
+  await time.increaseTo(invoice.maturityDate + gracePeriod + 1n);
+  await p.invoiceNFT.markAsDefaulted(tokenId);
+}